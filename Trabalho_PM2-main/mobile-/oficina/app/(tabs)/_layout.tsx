@@ -1,93 +1,100 @@
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { Tabs } from 'expo-router';
+import { View } from 'react-native';
 
+import { PersistenceBanner } from '@/components/persistence-banner';
+import { UndoSnackbar } from '@/components/undo-snackbar';
 import { useAppTheme } from '@/providers/theme-provider';
 
 export default function TabLayout() {
   const { colors } = useAppTheme();
 
   return (
-    <Tabs
-      screenOptions={{
-        headerShown: false,
-        tabBarActiveTintColor: colors.accent,
-        tabBarInactiveTintColor: colors.tabIconDefault,
-        tabBarScrollEnabled: true,
-        tabBarStyle: {
-          backgroundColor: colors.surface,
-          borderTopColor: colors.border,
-          height: 68,
-          paddingTop: 10,
-          paddingBottom: 12,
-        },
-        tabBarLabelStyle: {
-          fontSize: 12,
-          fontWeight: '600',
-        },
-      }}>
-      <Tabs.Screen
-        name="index"
-        options={{
-          title: 'Visão Geral',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="dashboard" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="parts"
-        options={{
-          title: 'Peças',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="build" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="revisions"
-        options={{
-          title: 'Revisões',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="event-available" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="team"
-        options={{
-          title: 'Equipe',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="groups" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="clients"
-        options={{
-          title: 'Clientes',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="people-alt" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="suppliers"
-        options={{
-          title: 'Fornecedores',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="store" color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="academy"
-        options={{
-          title: 'Estudos',
-          tabBarIcon: ({ color, size }) => (
-            <MaterialIcons name="menu-book" color={color} size={size} />
-          ),
-        }}
-      />
-    </Tabs>
+    <View style={{ flex: 1 }}>
+      <Tabs
+        screenOptions={{
+          headerShown: false,
+          tabBarActiveTintColor: colors.accent,
+          tabBarInactiveTintColor: colors.tabIconDefault,
+          tabBarScrollEnabled: true,
+          tabBarStyle: {
+            backgroundColor: colors.surface,
+            borderTopColor: colors.border,
+            height: 68,
+            paddingTop: 10,
+            paddingBottom: 12,
+          },
+          tabBarLabelStyle: {
+            fontSize: 12,
+            fontWeight: '600',
+          },
+        }}>
+        <Tabs.Screen
+          name="index"
+          options={{
+            title: 'Visão Geral',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="dashboard" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="parts"
+          options={{
+            title: 'Peças',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="build" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="revisions"
+          options={{
+            title: 'Revisões',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="event-available" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="team"
+          options={{
+            title: 'Equipe',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="groups" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="clients"
+          options={{
+            title: 'Clientes',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="people-alt" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="suppliers"
+          options={{
+            title: 'Fornecedores',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="store" color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="academy"
+          options={{
+            title: 'Estudos',
+            tabBarIcon: ({ color, size }) => (
+              <MaterialIcons name="menu-book" color={color} size={size} />
+            ),
+          }}
+        />
+      </Tabs>
+      <UndoSnackbar />
+      <PersistenceBanner />
+    </View>
   );
 }
@@ -13,8 +13,9 @@ import {
 import { Controller, useForm } from 'react-hook-form';
 import { Picker } from '@react-native-picker/picker';
 import { yupResolver } from '@hookform/resolvers/yup';
-import * as yup from 'yup';
 
+import { AuditHistoryModal, AuditTarget } from '@/components/audit-history-modal';
+import { ContactFileActions } from '@/components/contact-file-actions';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { DateField } from '@/components/ui/date-field';
@@ -23,9 +24,16 @@ import { PageHeader } from '@/components/ui/page-header';
 import { TextField } from '@/components/ui/input';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
+import { useSelection } from '@/hooks/use-selection';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { EntityValidationError, clientSchema } from '@/schemas/entities';
+import { describeBlockers, describeDeletePlan } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { CLIENT_DATA_MIME_TYPE, clientDataFileName } from '@/storage/privacy';
 import { Client, ClientTier } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import { shareTextFile } from '@/utils/share-file';
 
 const tierDisplay: Record<ClientTier, string> = {
   Standard: 'Standard',
@@ -33,19 +41,6 @@ const tierDisplay: Record<ClientTier, string> = {
   Platinum: 'Platinum',
 };
 
-const clientSchema = yup.object({
-  name: yup.string().required('Informe o nome'),
-  phone: yup.string().required('Informe o telefone'),
-  email: yup.string().email('E-mail invalido').required('Informe o e-mail'),
-  vehicle: yup.string().required('Informe o vei­culo'),
-  licensePlate: yup.string().required('Informe a placa'),
-  lastVisit: yup.string().required('Informe a Ultima visita'),
-  tier: yup.mixed<ClientTier>().oneOf(['Standard', 'Gold', 'Platinum']).required(),
-  preferredAdvisor: yup.string().nullable(),
-  active: yup.boolean().default(true),
-  notes: yup.string().nullable(),
-});
-
 type ClientFormValues = {
   name: string;
   phone: string;
@@ -57,6 +52,8 @@ type ClientFormValues = {
   preferredAdvisor: string;
   active: boolean;
   notes: string;
+  marketingConsent: boolean;
+  whatsappConsent: boolean;
 };
 
 const defaultValues: ClientFormValues = {
@@ -70,14 +67,28 @@ const defaultValues: ClientFormValues = {
   preferredAdvisor: '',
   active: true,
   notes: '',
+  marketingConsent: false,
+  whatsappConsent: false,
 };
 
 export default function ClientsScreen() {
   const { colors } = useAppTheme();
-  const { clients, team, createClient, updateClient, deleteClient } = useData();
+  const {
+    clients,
+    allTeam,
+    createClient,
+    updateClient,
+    deleteClient,
+    planDeletion,
+    exportClientData,
+    anonymizeClient,
+    can,
+  } = useData();
+  const { selectedIds, actions: selection } = useSelection();
 
   const [search, setSearch] = useState('');
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
 
   const {
@@ -122,6 +133,8 @@ export default function ClientsScreen() {
       preferredAdvisor: client.preferredAdvisor ?? '',
       active: client.active,
       notes: client.notes ?? '',
+      marketingConsent: client.marketingConsent,
+      whatsappConsent: client.whatsappConsent,
     });
     setIsModalVisible(true);
   };
@@ -143,20 +156,42 @@ export default function ClientsScreen() {
       preferredAdvisor: formValues.preferredAdvisor ? formValues.preferredAdvisor : undefined,
       active: formValues.active,
       notes: formValues.notes.trim() || undefined,
+      marketingConsent: formValues.marketingConsent,
+      whatsappConsent: formValues.whatsappConsent,
     } as Omit<Client, 'id'>;
 
-    if (editingClient) {
-      await updateClient(editingClient.id, payload);
-    } else {
-      await createClient(payload);
+    try {
+      if (editingClient) {
+        await updateClient(editingClient.id, payload);
+      } else {
+        await createClient(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      throw error;
     }
     closeModal();
   });
 
   const confirmDelete = (client: Client) => {
+    const plan = planDeletion('clients', client.id);
+    if (plan.blockers.length) {
+      Alert.alert(
+        'Exclusão bloqueada',
+        `${client.name} possui ${describeBlockers(plan.blockers)}. Remova ou desvincule antes.`
+      );
+      return;
+    }
     Alert.alert(
       'Remover cliente',
-      `Deseja remover ${client.name} do cadastro?`,
+      [`Deseja remover ${client.name} do cadastro?`, ...describeDeletePlan(plan)].join('\n'),
       [
         { text: 'Cancelar', style: 'cancel' },
         { text: 'Remover', style: 'destructive', onPress: () => deleteClient(client.id) },
@@ -164,6 +199,50 @@ export default function ClientsScreen() {
     );
   };
 
+  const exportData = async (client: Client) => {
+    try {
+      const data = exportClientData(client.id);
+      await shareTextFile(
+        clientDataFileName(data),
+        JSON.stringify(data, null, 2),
+        CLIENT_DATA_MIME_TYPE
+      );
+    } catch (error) {
+      logger.error('files', 'Erro ao exportar dados do cliente', error);
+      Alert.alert('Falha ao exportar', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const confirmAnonymize = (client: Client) => {
+    Alert.alert(
+      'Anonimizar cliente',
+      `Os dados pessoais de ${client.name} serão apagados deste cadastro, das revisões e do histórico de alterações. Veículo, categoria e serviços continuam nas estatísticas. Esta ação não pode ser desfeita.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Anonimizar',
+          style: 'destructive',
+          onPress: () =>
+            void anonymizeClient(client.id).catch((error) => {
+              logger.error('storage', 'Erro ao anonimizar cliente', error);
+              Alert.alert(
+                'Falha ao anonimizar',
+                error instanceof Error ? error.message : String(error)
+              );
+            }),
+        },
+      ]
+    );
+  };
+
+  const openPrivacyActions = (client: Client) => {
+    Alert.alert('Dados pessoais (LGPD)', client.name, [
+      { text: 'Exportar dados', onPress: () => void exportData(client) },
+      { text: 'Anonimizar', style: 'destructive', onPress: () => confirmAnonymize(client) },
+      { text: 'Cancelar', style: 'cancel' },
+    ]);
+  };
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}> 
       <FlatList
@@ -183,12 +262,30 @@ export default function ClientsScreen() {
                 value={search}
                 onChangeText={setSearch}
               />
-              <Button title="Cadastrar cliente" onPress={openCreateModal} />
+              {can('clients.edit') ? (
+                <Button title="Cadastrar cliente" onPress={openCreateModal} />
+              ) : null}
+              <ContactFileActions
+                entity="clients"
+                records={filteredClients}
+                selectedIds={selectedIds}
+                onStartSelection={selection.start}
+                onStopSelection={selection.stop}
+              />
             </Card>
           </View>
         }
         renderItem={({ item }) => (
-          <Card style={styles.clientCard}>
+          <Card
+            style={styles.clientCard}
+            tone={selectedIds?.has(item.id) ? 'accent' : 'default'}>
+            {selectedIds ? (
+              <Pressable onPress={() => selection.toggle(item.id)}>
+                <ThemedText type="caption" style={{ color: colors.accent }}>
+                  {selectedIds.has(item.id) ? '☑ Selecionado' : '☐ Selecionar'}
+                </ThemedText>
+              </Pressable>
+            ) : null}
             <View style={styles.clientHeader}>
               <View>
                 <ThemedText type="subtitle">{item.name}</ThemedText>
@@ -197,16 +294,35 @@ export default function ClientsScreen() {
                 </ThemedText>
               </View>
               <View style={styles.clientActions}>
-                <Pressable onPress={() => openEditModal(item)}>
-                  <ThemedText type="caption" style={{ color: colors.accent }}>
-                    Editar
-                  </ThemedText>
-                </Pressable>
-                <Pressable onPress={() => confirmDelete(item)}>
-                  <ThemedText type="caption" style={{ color: colors.destructive }}>
-                    Excluir
+                <Pressable
+                  onPress={() =>
+                    setAuditTarget({ entity: 'clients', recordId: item.id, title: item.name })
+                  }>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    Histórico
                   </ThemedText>
                 </Pressable>
+                {can('privacy.manage') && !item.anonymizedAt ? (
+                  <Pressable onPress={() => openPrivacyActions(item)}>
+                    <ThemedText type="caption" style={{ color: colors.muted }}>
+                      LGPD
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {can('clients.edit') && !item.anonymizedAt ? (
+                  <Pressable onPress={() => openEditModal(item)}>
+                    <ThemedText type="caption" style={{ color: colors.accent }}>
+                      Editar
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {can('clients.delete') ? (
+                  <Pressable onPress={() => confirmDelete(item)}>
+                    <ThemedText type="caption" style={{ color: colors.destructive }}>
+                      Excluir
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
               </View>
             </View>
             <ThemedText type="caption" style={{ color: colors.muted }}>
@@ -218,6 +334,13 @@ export default function ClientsScreen() {
             <ThemedText type="caption" style={{ color: colors.muted }}>
               Status: {item.active ? 'Ativo' : 'Inativo'}
             </ThemedText>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              {item.anonymizedAt
+                ? `Anonimizado em ${new Date(item.anonymizedAt).toLocaleDateString('pt-BR')}`
+                : `Marketing: ${item.marketingConsent ? 'aceito' : 'não aceito'} • WhatsApp: ${
+                    item.whatsappConsent ? 'aceito' : 'não aceito'
+                  }`}
+            </ThemedText>
           </Card>
         )}
         contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
@@ -362,7 +485,7 @@ export default function ClientsScreen() {
                     <View style={[styles.pickerContainer, { borderColor: colors.border }]}> 
                       <Picker selectedValue={value} onValueChange={onChange}>
                         <Picker.Item label="Não definido" value="" />
-                        {team.map((member) => (
+                        {allTeam.map((member) => (
                           <Picker.Item key={member.id} label={member.name} value={member.id} />
                         ))}
                       </Picker>
@@ -382,6 +505,28 @@ export default function ClientsScreen() {
                 )}
               />
 
+              <Controller
+                control={control}
+                name="marketingConsent"
+                render={({ field: { onChange, value } }) => (
+                  <View style={styles.switchRow}>
+                    <ThemedText type="defaultSemiBold">Aceita receber ofertas</ThemedText>
+                    <Switch value={value} onValueChange={onChange} />
+                  </View>
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="whatsappConsent"
+                render={({ field: { onChange, value } }) => (
+                  <View style={styles.switchRow}>
+                    <ThemedText type="defaultSemiBold">Aceita contato por WhatsApp</ThemedText>
+                    <Switch value={value} onValueChange={onChange} />
+                  </View>
+                )}
+              />
+
               <Controller
                 control={control}
                 name="notes"
@@ -403,6 +548,8 @@ export default function ClientsScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditHistoryModal target={auditTarget} onClose={() => setAuditTarget(null)} />
     </SafeAreaView>
   );
 }
@@ -430,6 +577,7 @@ const styles = StyleSheet.create({
   },
   clientActions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
   },
   modalOverlay: {
@@ -477,5 +625,3 @@ const styles = StyleSheet.create({
   },
 });
 
-
-
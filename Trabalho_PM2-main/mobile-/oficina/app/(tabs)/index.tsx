@@ -1,15 +1,22 @@
-﻿import { useMemo } from 'react';
+﻿import { useCallback, useMemo } from 'react';
 import { Dimensions, SafeAreaView, ScrollView, StyleSheet, View } from 'react-native';
 import { useRouter } from 'expo-router';
 import { BarChart, ProgressChart } from 'react-native-chart-kit';
 
+import { BranchSelector } from '@/components/branch-selector';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { PageHeader } from '@/components/ui/page-header';
+import { SessionCard } from '@/components/session-card';
+import { SyncStatusCard } from '@/components/sync-status-card';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { isAwaitingDelivery, isOverdue } from '@/storage/purchase-orders';
+import { reorderSuggestions } from '@/storage/replenishment';
+import { availableQuantity } from '@/storage/stock';
+import { Part } from '@/types/entities';
 
 // Ensure charts fit inside Card without overflowing the rounded corners.
 // Subtract ScrollView horizontal padding (20*2) and Card padding (16*2).
@@ -18,18 +25,74 @@ const CHART_WIDTH = Dimensions.get('window').width - (20 * 2) - (16 * 2);
 export default function DashboardScreen() {
   const { colors } = useAppTheme();
   const router = useRouter();
-  const { parts, revisions, clients, suppliers, team } = useData();
+  const {
+    branches,
+    activeBranchId,
+    setActiveBranch,
+    parts,
+    reservedStock,
+    revisions,
+    clients,
+    suppliers,
+    purchaseOrders,
+    stockMovements,
+    team,
+    quarantine,
+    discardQuarantine,
+    trash,
+    can,
+  } = useData();
 
-  const lowStockCount = useMemo(
-    () => parts.filter((part) => part.quantity <= part.minStock).length,
-    [parts]
+  // Parts held by open revisions are not counted as stock on hand.
+  const isLowStock = useCallback(
+    (part: Part) => availableQuantity(part, reservedStock) <= part.minStock,
+    [reservedStock]
   );
 
+  const lowStockCount = useMemo(() => parts.filter(isLowStock).length, [isLowStock, parts]);
+
+  const orderCounts = useMemo(() => {
+    const now = new Date().toISOString();
+    return {
+      awaiting: purchaseOrders.filter(isAwaitingDelivery).length,
+      overdue: purchaseOrders.filter((order) => isOverdue(order, now)).length,
+      toReorder: reorderSuggestions({
+        parts,
+        suppliers,
+        movements: stockMovements,
+        orders: purchaseOrders,
+        reserved: reservedStock,
+        now,
+      }).length,
+    };
+  }, [parts, purchaseOrders, reservedStock, stockMovements, suppliers]);
+
   const stockValue = useMemo(
     () => parts.reduce((total, part) => total + part.quantity * part.unitCost, 0),
     [parts]
   );
 
+  // Consolidated view: one row per unit when every unit is shown.
+  const branchSummaries = useMemo(() => {
+    if (activeBranchId) {
+      return [];
+    }
+    return branches.map((branch) => {
+      const branchParts = parts.filter((part) => part.branchId === branch.id);
+      return {
+        branch,
+        openRevisions: revisions.filter(
+          (revision) => revision.branchId === branch.id && revision.status !== 'concluida'
+        ).length,
+        lowStock: branchParts.filter(isLowStock).length,
+        stockValue: branchParts.reduce((total, part) => total + part.quantity * part.unitCost, 0),
+        teamSize: team.filter((member) => member.branchId === branch.id).length,
+      };
+    });
+  }, [activeBranchId, branches, isLowStock, parts, revisions, team]);
+
+  const activeBranchName = branches.find((branch) => branch.id === activeBranchId)?.name;
+
   const revisionStatusData = useMemo(() => {
     const base = { agendada: 0, 'em andamento': 0, concluida: 0 } as Record<string, number>;
     revisions.forEach((revision) => {
@@ -115,10 +178,37 @@ export default function DashboardScreen() {
         showsVerticalScrollIndicator={false}>
         <PageHeader
           title="RedCar Oficina"
-          subtitle="Painel estratégico de operações e desempenho"
-          rightElement={<ThemeToggle />}
+          onTitleLongPress={() => router.navigate('/diagnostics')}
+          subtitle={
+            activeBranchName
+              ? `Painel da unidade ${activeBranchName}`
+              : 'Painel estratégico de operações e desempenho'
+          }
+          rightElement={
+            <View style={styles.headerActions}>
+              <BranchSelector />
+              <ThemeToggle />
+            </View>
+          }
         />
 
+        {quarantine.length ? (
+          <Card style={{ borderColor: colors.warning }}>
+            <ThemedText type="subtitle">Registros isolados</ThemedText>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              {quarantine.length} registro(s) salvos estavam corrompidos e foram separados para não
+              afetar o restante dos dados.
+            </ThemedText>
+            {can('data.manage') ? (
+              <Button
+                title="Descartar registros"
+                variant="ghost"
+                onPress={() => void discardQuarantine()}
+              />
+            ) : null}
+          </Card>
+        ) : null}
+
         <Card tone="accent" style={styles.heroCard}>
           <ThemedText type="subtitle">Resumo de operações</ThemedText>
           <ThemedText>
@@ -164,6 +254,32 @@ export default function DashboardScreen() {
           </Card>
         </View>
 
+        {branchSummaries.length > 1 ? (
+          <Card>
+            <ThemedText type="subtitle">Unidades</ThemedText>
+            {branchSummaries.map((summary) => (
+              <View key={summary.branch.id} style={styles.branchRow}>
+                <View style={styles.actionText}>
+                  <ThemedText type="defaultSemiBold">{summary.branch.name}</ThemedText>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    {summary.openRevisions} revisão(ões) em aberto • {summary.teamSize}{' '}
+                    colaborador(es)
+                  </ThemedText>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    {summary.lowStock} item(ns) abaixo do mínimo • R${' '}
+                    {summary.stockValue.toFixed(0)} em estoque
+                  </ThemedText>
+                </View>
+                <Button
+                  title="Ver"
+                  variant="ghost"
+                  onPress={() => void setActiveBranch(summary.branch.id)}
+                />
+              </View>
+            ))}
+          </Card>
+        ) : null}
+
         <Card>
           <ThemedText type="subtitle">Status das revisões</ThemedText>
           <BarChart
@@ -230,6 +346,53 @@ export default function DashboardScreen() {
             </View>
           ))}
         </Card>
+
+        <Card>
+          <ThemedText type="subtitle">Pedidos de compra</ThemedText>
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            {orderCounts.awaiting
+              ? `${orderCounts.awaiting} pedido(s) aguardando entrega, ` +
+                `${orderCounts.overdue} atrasado(s).`
+              : 'Nenhum pedido aguardando entrega.'}{' '}
+            {orderCounts.toReorder
+              ? `${orderCounts.toReorder} peça(s) precisam de reposição.`
+              : 'Nenhuma peça precisa de reposição.'}
+          </ThemedText>
+          <View style={styles.cardActions}>
+            <Button
+              title="Abrir pedidos"
+              variant="ghost"
+              onPress={() => router.navigate('/purchase-orders')}
+            />
+            <Button
+              title="Sugestões de compra"
+              variant="ghost"
+              onPress={() => router.navigate('/reorder-suggestions')}
+            />
+          </View>
+        </Card>
+
+        <Card>
+          <ThemedText type="subtitle">Lixeira</ThemedText>
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            {trash.length
+              ? `${trash.length} registro(s) excluído(s) podem ser restaurados.`
+              : 'Nenhum registro excluído.'}
+          </ThemedText>
+          <Button title="Abrir lixeira" variant="ghost" onPress={() => router.navigate('/trash')} />
+        </Card>
+
+        <Card>
+          <ThemedText type="subtitle">Backup</ThemedText>
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            Exporte todos os dados para um arquivo ou restaure um backup salvo.
+          </ThemedText>
+          <Button title="Abrir backup" variant="ghost" onPress={() => router.navigate('/backup')} />
+        </Card>
+
+        <SyncStatusCard />
+
+        <SessionCard />
       </ScrollView>
     </SafeAreaView>
   );
@@ -244,6 +407,10 @@ const styles = StyleSheet.create({
     paddingBottom: 32,
     gap: 20,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   heroCard: {
     gap: 16,
   },
@@ -277,10 +444,21 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: 4,
   },
+  branchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
   supplierRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     marginTop: 12,
   },
+  cardActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
 });
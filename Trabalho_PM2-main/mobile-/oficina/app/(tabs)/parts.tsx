@@ -1,10 +1,14 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Alert, FlatList, Modal, Pressable, SafeAreaView, ScrollView, StyleSheet, View } from 'react-native';
-import { Controller, useForm } from 'react-hook-form';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
 import { Picker } from '@react-native-picker/picker';
 import { yupResolver } from '@hookform/resolvers/yup';
-import * as yup from 'yup';
 
+import { AuditHistoryModal, AuditTarget } from '@/components/audit-history-modal';
+import { BranchPickerField } from '@/components/branch-picker-field';
+import { BranchSelector } from '@/components/branch-selector';
+import { CsvFile, PartsCsvImportModal } from '@/components/parts-csv-import-modal';
+import { StockMovementsModal } from '@/components/stock-movements-modal';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { PageHeader } from '@/components/ui/page-header';
@@ -13,7 +17,15 @@ import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { EntityValidationError, partSchema } from '@/schemas/entities';
+import { describeBlockers, describeDeletePlan } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { availableQuantity, ledgerDifference, ledgerQuantities } from '@/storage/stock';
 import { Part } from '@/types/entities';
+import { CSV_MIME_TYPE, parseCsv } from '@/utils/csv';
+import { logger } from '@/utils/logger';
+import { partsToCsv } from '@/utils/parts-csv';
+import { pickTextFile, shareTextFile } from '@/utils/share-file';
 
 const categoryDisplay: Record<Part['category'], string> = {
   Mecanica: 'Mecânica',
@@ -23,58 +35,63 @@ const categoryDisplay: Record<Part['category'], string> = {
   Outros: 'Outros',
 };
 
-const partSchema = yup.object({
-  name: yup.string().required('Informe a descrição'),
-  code: yup.string().required('Informe o código'),
-  quantity: yup
-    .number()
-    .typeError('Quantidade inválida')
-    .min(0, 'Mínimo zero')
-    .required('Quantidade obrigatória'),
-  minStock: yup
-    .number()
-    .typeError('Estoque mínimo inválido')
-    .min(0, 'Mínimo zero')
-    .required('Informe o estoque mínimo'),
-  location: yup.string().required('Informe a localização'),
-  supplier: yup.string().required('Informe o fornecedor'),
-  category: yup.mixed<Part['category']>().oneOf(['Mecanica', 'Eletrica', 'Suspensao', 'Lataria', 'Outros']).required(),
-  unitCost: yup
-    .number()
-    .typeError('Valor inválido')
-    .min(0, 'Valor inválido')
-    .required('Informe o custo unitário'),
-});
+type PartSupplierFormValues = {
+  supplierId: string;
+  unitCost: string;
+  supplierCode: string;
+};
 
 type PartFormValues = {
+  branchId: string;
   name: string;
   code: string;
   quantity: string;
   minStock: string;
   location: string;
-  supplier: string;
+  suppliers: PartSupplierFormValues[];
   category: Part['category'];
   unitCost: string;
 };
 
 const defaultValues: PartFormValues = {
+  branchId: '',
   name: '',
   code: '',
   quantity: '',
   minStock: '',
   location: '',
-  supplier: '',
+  suppliers: [],
   category: 'Mecanica',
   unitCost: '',
 };
 
 export default function PartsScreen() {
   const { colors } = useAppTheme();
-  const { parts, createPart, updatePart, deletePart } = useData();
+  const {
+    branches,
+    activeBranchId,
+    parts,
+    reservedStock,
+    stockMovements,
+    suppliers,
+    createPart,
+    updatePart,
+    deletePart,
+    planDeletion,
+    can,
+  } = useData();
+  // Without this permission the cost fields are read-only and new parts start at zero.
+  const canEditCost = can('parts.cost');
+
+  const ledger = useMemo(() => ledgerQuantities(stockMovements), [stockMovements]);
+  const isLowStock = (part: Part) => availableQuantity(part, reservedStock) <= part.minStock;
 
   const [search, setSearch] = useState('');
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
+  const [movementsPart, setMovementsPart] = useState<Part | null>(null);
   const [editingPart, setEditingPart] = useState<Part | null>(null);
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
 
   const {
     control,
@@ -85,6 +102,27 @@ export default function PartsScreen() {
     defaultValues,
     resolver: yupResolver(partSchema),
   });
+  const {
+    fields: supplierFields,
+    append: appendSupplier,
+    remove: removeSupplier,
+  } = useFieldArray({ control, name: 'suppliers' });
+
+  const supplierNames = useMemo(
+    () => new Map(suppliers.map((supplier) => [supplier.id, supplier.company])),
+    [suppliers]
+  );
+
+  const describeSuppliers = useCallback(
+    (part: Part) =>
+      part.suppliers
+        .map((link) => supplierNames.get(link.supplierId) ?? 'Fornecedor removido')
+        .join(', ') || 'Sem fornecedor',
+    [supplierNames]
+  );
+
+  const branchName = (branchId: string) =>
+    branches.find((branch) => branch.id === branchId)?.name ?? 'Unidade removida';
 
   const filteredParts = useMemo(() => {
     if (!search.trim()) {
@@ -92,34 +130,74 @@ export default function PartsScreen() {
     }
     const term = search.toLowerCase();
     return parts.filter((part) =>
-      [part.name, part.code, part.location, part.supplier, part.category]
+      [part.name, part.code, part.location, describeSuppliers(part), part.category]
         .join(' ')
         .toLowerCase()
         .includes(term)
     );
-  }, [parts, search]);
+  }, [describeSuppliers, parts, search]);
 
   const openCreateModal = () => {
     setEditingPart(null);
-    reset(defaultValues);
+    reset({
+      ...defaultValues,
+      branchId: activeBranchId ?? branches[0]?.id ?? '',
+      unitCost: canEditCost ? '' : '0',
+    });
     setIsModalVisible(true);
   };
 
   const openEditModal = (part: Part) => {
     setEditingPart(part);
     reset({
+      branchId: part.branchId,
       name: part.name,
       code: part.code,
       quantity: String(part.quantity),
       minStock: String(part.minStock),
       location: part.location,
-      supplier: part.supplier,
+      suppliers: part.suppliers.map((link) => ({
+        supplierId: link.supplierId,
+        unitCost: String(link.unitCost),
+        supplierCode: link.supplierCode ?? '',
+      })),
       category: part.category,
       unitCost: String(part.unitCost),
     });
     setIsModalVisible(true);
   };
 
+  const exportCsv = async () => {
+    try {
+      await shareTextFile(
+        `pecas-${new Date().toISOString().slice(0, 10)}.csv`,
+        partsToCsv(filteredParts, suppliers),
+        CSV_MIME_TYPE
+      );
+    } catch (error) {
+      logger.error('files', 'Erro ao exportar CSV', error);
+      Alert.alert('Falha ao exportar', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const importCsv = async () => {
+    try {
+      const file = await pickTextFile([CSV_MIME_TYPE, 'text/comma-separated-values', 'text/plain']);
+      if (!file) {
+        return;
+      }
+      const rows = parseCsv(file.contents);
+      if (rows.length < 2) {
+        Alert.alert('Planilha vazia', 'O arquivo precisa de um cabeçalho e ao menos uma linha.');
+        return;
+      }
+      setCsvFile({ name: file.name, rows });
+    } catch (error) {
+      logger.error('files', 'Erro ao ler CSV', error);
+      Alert.alert('Falha ao importar', 'Não foi possível ler o arquivo.');
+    }
+  };
+
   const closeModal = () => {
     setIsModalVisible(false);
     setEditingPart(null);
@@ -127,28 +205,53 @@ export default function PartsScreen() {
 
   const onSubmit = handleSubmit(async (formValues) => {
     const payload = {
+      branchId: formValues.branchId,
       name: formValues.name.trim(),
       code: formValues.code.trim().toUpperCase(),
       quantity: Number(formValues.quantity),
       minStock: Number(formValues.minStock),
       location: formValues.location.trim(),
-      supplier: formValues.supplier.trim(),
+      suppliers: formValues.suppliers.map((link: PartSupplierFormValues) => ({
+        supplierId: link.supplierId,
+        unitCost: Number(link.unitCost),
+        supplierCode: link.supplierCode.trim() || undefined,
+      })),
       category: formValues.category,
       unitCost: Number(formValues.unitCost),
     };
 
-    if (editingPart) {
-      await updatePart(editingPart.id, { ...payload, updatedAt: editingPart.updatedAt });
-    } else {
-      await createPart(payload);
+    try {
+      if (editingPart) {
+        await updatePart(editingPart.id, { ...payload, updatedAt: editingPart.updatedAt });
+      } else {
+        await createPart(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      throw error;
     }
     closeModal();
   });
 
   const confirmDelete = (part: Part) => {
+    const plan = planDeletion('parts', part.id);
+    if (plan.blockers.length) {
+      Alert.alert(
+        'Exclusão bloqueada',
+        `${part.name} possui ${describeBlockers(plan.blockers)}. Remova ou desvincule antes.`
+      );
+      return;
+    }
     Alert.alert(
       'Remover peça',
-      `Confirmar exclusão de ${part.name}?`,
+      [`Confirmar exclusão de ${part.name}?`, ...describeDeletePlan(plan)].join('\n'),
       [
         { text: 'Cancelar', style: 'cancel' },
         { text: 'Excluir', style: 'destructive', onPress: () => deletePart(part.id) },
@@ -166,7 +269,12 @@ export default function PartsScreen() {
             <PageHeader
               title="Peças e estoque"
               subtitle="Cadastre, edite e acompanhe o inventário da RedCar"
-              rightElement={<ThemeToggle />}
+              rightElement={
+                <View style={styles.headerActions}>
+                  <BranchSelector />
+                  <ThemeToggle />
+                </View>
+              }
             />
             <Card>
               <TextField
@@ -175,7 +283,15 @@ export default function PartsScreen() {
                 value={search}
                 onChangeText={setSearch}
               />
-              <Button title="Cadastrar peça" onPress={openCreateModal} />
+              {can('parts.edit') ? (
+                <Button title="Cadastrar peça" onPress={openCreateModal} />
+              ) : null}
+              <View style={styles.csvActions}>
+                {can('parts.edit') ? (
+                  <Button title="Importar CSV" variant="secondary" onPress={() => void importCsv()} />
+                ) : null}
+                <Button title="Exportar CSV" variant="ghost" onPress={() => void exportCsv()} />
+              </View>
             </Card>
           </View>
         }
@@ -189,20 +305,44 @@ export default function PartsScreen() {
                 </ThemedText>
               </View>
               <View style={styles.partActions}>
-                <Pressable onPress={() => openEditModal(item)}>
-                  <ThemedText type="caption" style={{ color: colors.accent }}>
-                    Editar
+                <Pressable
+                  onPress={() =>
+                    setAuditTarget({ entity: 'parts', recordId: item.id, title: item.name })
+                  }>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    Histórico
                   </ThemedText>
                 </Pressable>
-                <Pressable onPress={() => confirmDelete(item)}>
-                  <ThemedText type="caption" style={{ color: colors.destructive }}>
-                    Excluir
+                <Pressable onPress={() => setMovementsPart(item)}>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    Movimentações
                   </ThemedText>
                 </Pressable>
+                {can('parts.edit') ? (
+                  <Pressable onPress={() => openEditModal(item)}>
+                    <ThemedText type="caption" style={{ color: colors.accent }}>
+                      Editar
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {can('parts.delete') ? (
+                  <Pressable onPress={() => confirmDelete(item)}>
+                    <ThemedText type="caption" style={{ color: colors.destructive }}>
+                      Excluir
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
               </View>
             </View>
 
             <View style={styles.partMeta}>
+              {activeBranchId ? null : (
+                <View style={styles.badge}>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    Unidade: {branchName(item.branchId)}
+                  </ThemedText>
+                </View>
+              )}
               <View style={styles.badge}>
                 <ThemedText type="caption" style={{ color: colors.textSecondary }}>
                   Local: {item.location}
@@ -210,33 +350,37 @@ export default function PartsScreen() {
               </View>
               <View style={styles.badge}>
                 <ThemedText type="caption" style={{ color: colors.textSecondary }}>
-                  Fornecedor: {item.supplier}
+                  Fornecedor: {describeSuppliers(item)}
                 </ThemedText>
               </View>
             </View>
 
             <View style={styles.partFooter}>
               <View>
-                <ThemedText type="subtitle">{item.quantity}</ThemedText>
+                <ThemedText type="subtitle">{availableQuantity(item, reservedStock)}</ThemedText>
                 <ThemedText type="caption" style={{ color: colors.muted }}>
-                  Disponíveis
+                  Disponíveis • {reservedStock.get(item.id) ?? 0} reservada(s) •{' '}
+                  {item.quantity} em estoque
                 </ThemedText>
+                {ledgerDifference(item, ledger) !== 0 ? (
+                  <ThemedText type="caption" style={{ color: colors.warning }}>
+                    Diverge das movimentações
+                  </ThemedText>
+                ) : null}
               </View>
               <View style={styles.stockStatus}>
                 <View
                   style={[
                     styles.stockBadge,
                     {
-                      backgroundColor:
-                        item.quantity <= item.minStock ? colors.accentSoft : colors.surface,
-                      borderColor:
-                        item.quantity <= item.minStock ? colors.accent : colors.border,
+                      backgroundColor: isLowStock(item) ? colors.accentSoft : colors.surface,
+                      borderColor: isLowStock(item) ? colors.accent : colors.border,
                     },
                   ]}>
                   <ThemedText
                     type="caption"
                     style={{
-                      color: item.quantity <= item.minStock ? colors.accent : colors.textSecondary,
+                      color: isLowStock(item) ? colors.accent : colors.textSecondary,
                     }}>
                     Mínimo: {item.minStock}
                   </ThemedText>
@@ -271,6 +415,18 @@ export default function PartsScreen() {
             </View>
 
             <ScrollView contentContainerStyle={styles.form}> 
+              <Controller
+                control={control}
+                name="branchId"
+                render={({ field: { onChange, value } }) => (
+                  <BranchPickerField
+                    value={value}
+                    onChange={onChange}
+                    error={errors.branchId?.message}
+                  />
+                )}
+              />
+
               <Controller
                 control={control}
                 name="name"
@@ -310,6 +466,9 @@ export default function PartsScreen() {
                     keyboardType="numeric"
                     value={value}
                     onChangeText={onChange}
+                    // After the part is created, quantities change through stock movements.
+                    editable={!editingPart}
+                    helperText={editingPart ? 'Altere pelas movimentações da peça' : undefined}
                     error={errors.quantity?.message}
                   />
                 )}
@@ -344,19 +503,80 @@ export default function PartsScreen() {
                 )}
               />
 
-              <Controller
-                control={control}
-                name="supplier"
-                render={({ field: { onChange, value } }) => (
-                  <TextField
-                    label="Fornecedor"
-                    placeholder="Ex. Bosch"
-                    value={value}
-                    onChangeText={onChange}
-                    error={errors.supplier?.message}
-                  />
-                )}
-              />
+              <View style={styles.pickerWrapper}>
+                <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                  Fornecedores
+                </ThemedText>
+                {supplierFields.map((field, index) => (
+                  <View key={field.id} style={[styles.supplierLink, { borderColor: colors.border }]}>
+                    <View style={styles.supplierLinkHeader}>
+                      <ThemedText type="defaultSemiBold">
+                        {supplierNames.get(field.supplierId) ?? 'Fornecedor removido'}
+                      </ThemedText>
+                      {canEditCost ? (
+                        <Pressable onPress={() => removeSupplier(index)}>
+                          <ThemedText type="caption" style={{ color: colors.destructive }}>
+                            Remover
+                          </ThemedText>
+                        </Pressable>
+                      ) : null}
+                    </View>
+                    <Controller
+                      control={control}
+                      name={`suppliers.${index}.unitCost`}
+                      render={({ field: { onChange, value } }) => (
+                        <TextField
+                          label="Custo no fornecedor"
+                          placeholder="0.00"
+                          keyboardType="numeric"
+                          editable={canEditCost}
+                          value={value}
+                          onChangeText={onChange}
+                          error={errors.suppliers?.[index]?.unitCost?.message}
+                        />
+                      )}
+                    />
+                    <Controller
+                      control={control}
+                      name={`suppliers.${index}.supplierCode`}
+                      render={({ field: { onChange, value } }) => (
+                        <TextField
+                          label="Código no fornecedor"
+                          placeholder="Opcional"
+                          autoCapitalize="characters"
+                          value={value}
+                          onChangeText={onChange}
+                        />
+                      )}
+                    />
+                  </View>
+                ))}
+                {canEditCost ? (
+                  <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                    <Picker
+                      selectedValue=""
+                      onValueChange={(supplierId: string) => {
+                        if (supplierId) {
+                          appendSupplier({ supplierId, unitCost: '', supplierCode: '' });
+                        }
+                      }}>
+                      <Picker.Item label="Adicionar fornecedor..." value="" />
+                      {suppliers
+                        .filter((supplier) =>
+                          supplierFields.every((field) => field.supplierId !== supplier.id)
+                        )
+                        .map((supplier) => (
+                          <Picker.Item key={supplier.id} label={supplier.company} value={supplier.id} />
+                        ))}
+                    </Picker>
+                  </View>
+                ) : null}
+                {errors.suppliers?.message ?? errors.suppliers?.root?.message ? (
+                  <ThemedText type="caption" style={{ color: colors.destructive }}>
+                    {errors.suppliers?.message ?? errors.suppliers?.root?.message}
+                  </ThemedText>
+                ) : null}
+              </View>
 
               <Controller
                 control={control}
@@ -392,6 +612,8 @@ export default function PartsScreen() {
                     label="Custo unitário"
                     placeholder="0.00"
                     keyboardType="numeric"
+                    editable={canEditCost}
+                    helperText={canEditCost ? undefined : 'Seu perfil não altera custos'}
                     value={value}
                     onChangeText={onChange}
                     error={errors.unitCost?.message}
@@ -407,6 +629,10 @@ export default function PartsScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditHistoryModal target={auditTarget} onClose={() => setAuditTarget(null)} />
+      <StockMovementsModal part={movementsPart} onClose={() => setMovementsPart(null)} />
+      <PartsCsvImportModal file={csvFile} onClose={() => setCsvFile(null)} />
     </SafeAreaView>
   );
 }
@@ -424,6 +650,15 @@ const styles = StyleSheet.create({
     gap: 20,
     marginBottom: 16,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  csvActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
   partCard: {
     gap: 16,
   },
@@ -499,6 +734,17 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderRadius: 14,
   },
+  supplierLink: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 10,
+  },
+  supplierLinkHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   modalActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
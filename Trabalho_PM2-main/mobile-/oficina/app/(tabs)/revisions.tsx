@@ -10,11 +10,13 @@ import {
   Switch,
   View,
 } from 'react-native';
-import { Controller, useForm } from 'react-hook-form';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
 import { Picker } from '@react-native-picker/picker';
 import { yupResolver } from '@hookform/resolvers/yup';
-import * as yup from 'yup';
 
+import { AuditHistoryModal, AuditTarget } from '@/components/audit-history-modal';
+import { BranchPickerField } from '@/components/branch-picker-field';
+import { BranchSelector } from '@/components/branch-selector';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { DateField } from '@/components/ui/date-field';
@@ -25,7 +27,17 @@ import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { EntityValidationError, revisionFormSchema } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { InsufficientStockError, availableQuantity } from '@/storage/stock';
 import { Revision, RevisionPriority, RevisionStatus } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import {
+  WorkOrderTotals,
+  formatCurrency,
+  hasLineItems,
+  workOrderTotals,
+} from '@/utils/work-order';
 
 const statusDisplay: Record<RevisionStatus, string> = {
   agendada: 'Agendada',
@@ -39,22 +51,22 @@ const priorityDisplay: Record<RevisionPriority, string> = {
   baixa: 'Baixa',
 };
 
-const revisionSchema = yup.object({
-  clientName: yup.string().required('Informe o cliente'),
-  clientPhone: yup.string().required('Informe o telefone'),
-  vehicleModel: yup.string().required('Informe o veiculo'),
-  licensePlate: yup.string().required('Informe a placa'),
-  serviceDescription: yup.string().required('Descreva o servico'),
-  scheduledDate: yup.string().required('Selecione a data'),
-  scheduledTime: yup.string().required('Selecione o horario'),
-  status: yup.mixed<RevisionStatus>().oneOf(['agendada', 'em andamento', 'concluida']).required(),
-  priority: yup.mixed<RevisionPriority>().oneOf(['alta', 'media', 'baixa']).required(),
-  assignedTo: yup.string().nullable(),
-  notes: yup.string().nullable(),
-  remindersEnabled: yup.boolean().default(false),
-});
+type PartItemFormValues = {
+  partId: string;
+  quantity: string;
+  unitPrice: string;
+};
+
+type LaborItemFormValues = {
+  memberId: string;
+  description: string;
+  hours: string;
+  hourlyRate: string;
+};
 
 type RevisionFormValues = {
+  branchId: string;
+  clientId: string;
   clientName: string;
   clientPhone: string;
   vehicleModel: string;
@@ -67,9 +79,14 @@ type RevisionFormValues = {
   assignedTo: string;
   notes: string;
   remindersEnabled: boolean;
+  partItems: PartItemFormValues[];
+  laborItems: LaborItemFormValues[];
+  discount: string;
 };
 
 const defaultValues: RevisionFormValues = {
+  branchId: '',
+  clientId: '',
   clientName: '',
   clientPhone: '',
   vehicleModel: '',
@@ -82,8 +99,14 @@ const defaultValues: RevisionFormValues = {
   assignedTo: '',
   notes: '',
   remindersEnabled: true,
+  partItems: [],
+  laborItems: [],
+  discount: '0',
 };
 
+// Fields still being typed count as zero in the totals shown while editing.
+const toAmount = (value: string) => Number(value) || 0;
+
 const statusFilters: { key: RevisionStatus | 'todas'; label: string }[] = [
   { key: 'todas', label: 'Todas' },
   { key: 'agendada', label: statusDisplay.agendada },
@@ -93,24 +116,78 @@ const statusFilters: { key: RevisionStatus | 'todas'; label: string }[] = [
 
 export default function RevisionsScreen() {
   const { colors } = useAppTheme();
-  const { revisions, team, createRevision, updateRevision, deleteRevision } = useData();
-  
-  console.log('🔄 RevisionsScreen renderizado com', revisions.length, 'revisões');
+  const {
+    branches,
+    activeBranchId,
+    revisions,
+    parts,
+    reservedStock,
+    team,
+    allTeam,
+    clients,
+    createRevision,
+    updateRevision,
+    deleteRevision,
+    can,
+  } = useData();
 
   const [statusFilter, setStatusFilter] = useState<RevisionStatus | 'todas'>('todas');
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const [editingRevision, setEditingRevision] = useState<Revision | null>(null);
 
   const {
     control,
     handleSubmit,
     reset,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<RevisionFormValues>({
     defaultValues,
-    resolver: yupResolver(revisionSchema),
+    resolver: yupResolver(revisionFormSchema),
+  });
+  const {
+    fields: partItemFields,
+    append: appendPartItem,
+    remove: removePartItem,
+    replace: replacePartItems,
+  } = useFieldArray({ control, name: 'partItems' });
+  const {
+    fields: laborItemFields,
+    append: appendLaborItem,
+    remove: removeLaborItem,
+    replace: replaceLaborItems,
+  } = useFieldArray({ control, name: 'laborItems' });
+
+  const selectedBranchId = watch('branchId');
+  const branchTeam = team.filter((member) => member.branchId === selectedBranchId);
+  const branchParts = parts.filter((part) => part.branchId === selectedBranchId);
+
+  const partNames = useMemo(() => new Map(parts.map((part) => [part.id, part.name])), [parts]);
+  const memberNames = useMemo(
+    () => new Map(allTeam.map((member) => [member.id, member.name])),
+    [allTeam]
+  );
+
+  const formTotals = workOrderTotals({
+    partItems: watch('partItems').map((item) => ({
+      partId: item.partId,
+      quantity: toAmount(item.quantity),
+      unitPrice: toAmount(item.unitPrice),
+    })),
+    laborItems: watch('laborItems').map((item) => ({
+      memberId: item.memberId,
+      description: item.description,
+      hours: toAmount(item.hours),
+      hourlyRate: toAmount(item.hourlyRate),
+    })),
+    discount: toAmount(watch('discount')),
   });
 
+  const branchName = (branchId: string) =>
+    branches.find((branch) => branch.id === branchId)?.name ?? 'Unidade removida';
+
   const filteredRevisions = useMemo(() => {
     if (statusFilter === 'todas') {
       return revisions;
@@ -132,13 +209,15 @@ export default function RevisionsScreen() {
 
   const openCreateModal = () => {
     setEditingRevision(null);
-    reset(defaultValues);
+    reset({ ...defaultValues, branchId: activeBranchId ?? branches[0]?.id ?? '' });
     setIsModalVisible(true);
   };
 
   const openEditModal = (revision: Revision) => {
     setEditingRevision(revision);
     reset({
+      branchId: revision.branchId,
+      clientId: revision.clientId ?? '',
       clientName: revision.clientName,
       clientPhone: revision.clientPhone,
       vehicleModel: revision.vehicleModel,
@@ -151,6 +230,18 @@ export default function RevisionsScreen() {
       assignedTo: revision.assignedTo ?? '',
       notes: revision.notes ?? '',
       remindersEnabled: revision.remindersEnabled,
+      partItems: revision.partItems.map((item) => ({
+        partId: item.partId,
+        quantity: String(item.quantity),
+        unitPrice: String(item.unitPrice),
+      })),
+      laborItems: revision.laborItems.map((item) => ({
+        memberId: item.memberId,
+        description: item.description,
+        hours: String(item.hours),
+        hourlyRate: String(item.hourlyRate),
+      })),
+      discount: String(revision.discount),
     });
     setIsModalVisible(true);
   };
@@ -160,8 +251,48 @@ export default function RevisionsScreen() {
     setEditingRevision(null);
   };
 
+  // Technicians work at, and parts are stocked in, a single unit.
+  const selectBranch = (branchId: string) => {
+    setValue('branchId', branchId);
+    setValue('assignedTo', '');
+    replacePartItems([]);
+    replaceLaborItems([]);
+  };
+
+  const addPartItem = (partId: string) => {
+    const part = parts.find((item) => item.id === partId);
+    if (part) {
+      appendPartItem({ partId, quantity: '1', unitPrice: String(part.unitCost) });
+    }
+  };
+
+  const addLaborItem = (memberId: string) => {
+    const member = team.find((item) => item.id === memberId);
+    if (member) {
+      appendLaborItem({
+        memberId,
+        description: '',
+        hours: '1',
+        hourlyRate: String(member.hourlyRate),
+      });
+    }
+  };
+
+  const selectClient = (clientId: string) => {
+    setValue('clientId', clientId);
+    const client = clients.find((item) => item.id === clientId);
+    if (client) {
+      setValue('clientName', client.name);
+      setValue('clientPhone', client.phone);
+      setValue('vehicleModel', client.vehicle);
+      setValue('licensePlate', client.licensePlate);
+    }
+  };
+
   const onSubmit = handleSubmit(async (formValues) => {
     const payload = {
+      branchId: formValues.branchId,
+      clientId: formValues.clientId || undefined,
       clientName: formValues.clientName.trim(),
       clientPhone: formValues.clientPhone,
       vehicleModel: formValues.vehicleModel.trim(),
@@ -174,38 +305,93 @@ export default function RevisionsScreen() {
       assignedTo: formValues.assignedTo ? formValues.assignedTo : undefined,
       notes: formValues.notes.trim() || undefined,
       remindersEnabled: formValues.remindersEnabled,
+      partItems: formValues.partItems.map((item: PartItemFormValues) => ({
+        partId: item.partId,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice),
+      })),
+      laborItems: formValues.laborItems.map((item: LaborItemFormValues) => ({
+        memberId: item.memberId,
+        description: item.description.trim(),
+        hours: Number(item.hours),
+        hourlyRate: Number(item.hourlyRate),
+      })),
+      discount: Number(formValues.discount),
     } as Omit<Revision, 'id'>;
 
-    if (editingRevision) {
-      await updateRevision(editingRevision.id, payload);
-    } else {
-      await createRevision(payload);
+    try {
+      if (editingRevision) {
+        await updateRevision(editingRevision.id, payload);
+      } else {
+        await createRevision(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      if (error instanceof InsufficientStockError) {
+        Alert.alert('Estoque insuficiente', error.message);
+        return;
+      }
+      throw error;
     }
     closeModal();
   });
 
+  const concludeRevision = async ({ id, ...rest }: Revision) => {
+    try {
+      await updateRevision(id, { ...rest, status: 'concluida' });
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      if (error instanceof InsufficientStockError) {
+        Alert.alert('Estoque insuficiente', error.message);
+        return;
+      }
+      logger.error('storage', 'Erro ao concluir revisão', error);
+    }
+  };
+
+  const renderTotals = (totals: WorkOrderTotals) => (
+    <>
+      {totals.discount > 0 ? (
+        <View style={styles.totalRow}>
+          <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+            Subtotal • desconto
+          </ThemedText>
+          <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+            {formatCurrency(totals.subtotal)} • −{formatCurrency(totals.discount)}
+          </ThemedText>
+        </View>
+      ) : null}
+      <View style={styles.totalRow}>
+        <ThemedText type="defaultSemiBold">Total</ThemedText>
+        <ThemedText type="defaultSemiBold">{formatCurrency(totals.total)}</ThemedText>
+      </View>
+    </>
+  );
+
   const confirmDelete = (revision: Revision) => {
-    console.log('🔍 confirmDelete chamado para:', revision.clientName, 'ID:', revision.id);
-    
-    // Teste simples primeiro - deletar diretamente sem Alert
-    console.log('🧪 Testando exclusão direta...');
-    deleteRevision(revision.id);
-    
-    // Alert.alert(
-    //   'Cancelar revisao',
-    //   `Deseja cancelar a revisao de ${revision.clientName}?`,
-    //   [
-    //     { text: 'Manter', style: 'cancel' },
-    //     { 
-    //       text: 'Cancelar', 
-    //       style: 'destructive', 
-    //       onPress: () => {
-    //         console.log('✅ Usuário confirmou exclusão da revisão:', revision.id);
-    //         deleteRevision(revision.id);
-    //       }
-    //     },
-    //   ]
-    // );
+    Alert.alert(
+      'Cancelar revisao',
+      `Deseja cancelar a revisao de ${revision.clientName}? Ela ficara na lixeira e as pecas ` +
+        'reservadas voltam ao estoque.',
+      [
+        { text: 'Manter', style: 'cancel' },
+        { text: 'Cancelar', style: 'destructive', onPress: () => deleteRevision(revision.id) },
+      ]
+    );
   };
 
   return (
@@ -218,14 +404,21 @@ export default function RevisionsScreen() {
             <PageHeader
               title="Agenda de revisoes"
               subtitle="Distribua e acompanhe cada atendimento"
-              rightElement={<ThemeToggle />}
+              rightElement={
+                <View style={styles.headerActions}>
+                  <BranchSelector />
+                  <ThemeToggle />
+                </View>
+              }
             />
             <Card tone="accent" style={styles.formCard}>
               <ThemedText type="subtitle">Agendar nova revisao</ThemedText>
               <ThemedText type="caption" style={{ color: colors.muted }}>
                 Informe cliente, veiculo, prioridade e responsavel.
               </ThemedText>
-              <Button title="Nova revisao" onPress={openCreateModal} />
+              {can('revisions.edit') ? (
+                <Button title="Nova revisao" onPress={openCreateModal} />
+              ) : null}
             </Card>
             <Card>
               <ThemedText type="subtitle">Visao por status</ThemedText>
@@ -290,6 +483,7 @@ export default function RevisionsScreen() {
               </ThemedText>
               <ThemedText type="caption" style={{ color: colors.muted }}>
                 {item.clientPhone} • {item.licensePlate}
+                {activeBranchId ? '' : ` • ${branchName(item.branchId)}`}
               </ThemedText>
             </View>
 
@@ -299,25 +493,57 @@ export default function RevisionsScreen() {
               </ThemedText>
             ) : null}
 
+            {hasLineItems(item) ? (
+              <View style={[styles.workOrder, { borderColor: colors.border }]}>
+                {item.partItems.map((line, index) => (
+                  <View key={`part-${index}`} style={styles.totalRow}>
+                    <ThemedText type="caption" style={[styles.lineLabel, { color: colors.muted }]}>
+                      {line.quantity} × {partNames.get(line.partId) ?? 'Peça removida'}
+                    </ThemedText>
+                    <ThemedText type="caption">
+                      {formatCurrency(line.quantity * line.unitPrice)}
+                    </ThemedText>
+                  </View>
+                ))}
+                {item.laborItems.map((line, index) => (
+                  <View key={`labor-${index}`} style={styles.totalRow}>
+                    <ThemedText type="caption" style={[styles.lineLabel, { color: colors.muted }]}>
+                      {line.description} •{' '}
+                      {memberNames.get(line.memberId) ?? 'Colaborador removido'} • {line.hours} h
+                    </ThemedText>
+                    <ThemedText type="caption">
+                      {formatCurrency(line.hours * line.hourlyRate)}
+                    </ThemedText>
+                  </View>
+                ))}
+                {renderTotals(workOrderTotals(item))}
+              </View>
+            ) : null}
+
             <View style={styles.revisionActions}>
-              <Button title="Editar" variant="secondary" onPress={() => openEditModal(item)} />
-              {item.status !== 'concluida' && (
+              {can('revisions.edit') ? (
+                <Button title="Editar" variant="secondary" onPress={() => openEditModal(item)} />
+              ) : null}
+              <Button
+                title="Histórico"
+                variant="ghost"
+                onPress={() =>
+                  setAuditTarget({
+                    entity: 'revisions',
+                    recordId: item.id,
+                    title: `${item.clientName} • ${item.licensePlate}`,
+                  })
+                }
+              />
+              {item.status !== 'concluida' && can('revisions.edit') && (
                 <Button
                   title="Concluir"
-                  onPress={() => {
-                    const { id, ...rest } = item;
-                    void updateRevision(id, { ...rest, status: 'concluida' });
-                  }}
+                  onPress={() => void concludeRevision(item)}
                 />
               )}
-              <Button 
-                title="Cancelar" 
-                variant="ghost" 
-                onPress={() => {
-                  console.log('🖱️ Botão Cancelar clicado para:', item.clientName);
-                  confirmDelete(item);
-                }} 
-              />
+              {can('revisions.delete') ? (
+                <Button title="Cancelar" variant="ghost" onPress={() => confirmDelete(item)} />
+              ) : null}
             </View>
           </Card>
         )}
@@ -344,6 +570,47 @@ export default function RevisionsScreen() {
             </View>
 
             <ScrollView contentContainerStyle={styles.form}>
+              <Controller
+                control={control}
+                name="branchId"
+                render={({ field: { value } }) => (
+                  <BranchPickerField
+                    value={value}
+                    onChange={selectBranch}
+                    error={errors.branchId?.message}
+                  />
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="clientId"
+                render={({ field: { value } }) => (
+                  <View style={styles.pickerWrapper}>
+                    <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                      Cliente cadastrado
+                    </ThemedText>
+                    <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                      <Picker selectedValue={value} onValueChange={selectClient}>
+                        <Picker.Item label="Sem cadastro" value="" />
+                        {clients.map((client) => (
+                          <Picker.Item
+                            key={client.id}
+                            label={`${client.name} • ${client.licensePlate}`}
+                            value={client.id}
+                          />
+                        ))}
+                      </Picker>
+                    </View>
+                    {errors.clientId?.message ? (
+                      <ThemedText type="caption" style={{ color: colors.destructive }}>
+                        {errors.clientId.message}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                )}
+              />
+
               <Controller
                 control={control}
                 name="clientName"
@@ -498,7 +765,7 @@ export default function RevisionsScreen() {
                     <View style={[styles.pickerContainer, { borderColor: colors.border }]}> 
                       <Picker selectedValue={value} onValueChange={onChange}>
                         <Picker.Item label="Nao definido" value="" />
-                        {team.map((member) => (
+                        {branchTeam.map((member) => (
                           <Picker.Item key={member.id} label={member.name} value={member.id} />
                         ))}
                       </Picker>
@@ -520,6 +787,177 @@ export default function RevisionsScreen() {
                 )}
               />
 
+              <View style={styles.pickerWrapper}>
+                <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                  Peças
+                </ThemedText>
+                {partItemFields.map((field, index) => (
+                  <View key={field.id} style={[styles.lineItem, { borderColor: colors.border }]}>
+                    <View style={styles.lineItemHeader}>
+                      <ThemedText type="defaultSemiBold" style={styles.lineLabel}>
+                        {partNames.get(field.partId) ?? 'Peça removida'}
+                      </ThemedText>
+                      <Pressable onPress={() => removePartItem(index)}>
+                        <ThemedText type="caption" style={{ color: colors.destructive }}>
+                          Remover
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                    <View style={styles.lineItemFields}>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`partItems.${index}.quantity`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Quantidade"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.partItems?.[index]?.quantity?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`partItems.${index}.unitPrice`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Preço unitário"
+                              placeholder="0.00"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.partItems?.[index]?.unitPrice?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                    </View>
+                  </View>
+                ))}
+                <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                  <Picker selectedValue="" onValueChange={addPartItem}>
+                    <Picker.Item label="Adicionar peça..." value="" />
+                    {branchParts
+                      .filter((part) => partItemFields.every((field) => field.partId !== part.id))
+                      .map((part) => (
+                        <Picker.Item
+                          key={part.id}
+                          label={`${part.name} • ${part.code} • ${availableQuantity(
+                            part,
+                            reservedStock
+                          )} disponível(is)`}
+                          value={part.id}
+                        />
+                      ))}
+                  </Picker>
+                </View>
+              </View>
+
+              <View style={styles.pickerWrapper}>
+                <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                  Mão de obra
+                </ThemedText>
+                {laborItemFields.map((field, index) => (
+                  <View key={field.id} style={[styles.lineItem, { borderColor: colors.border }]}>
+                    <View style={styles.lineItemHeader}>
+                      <ThemedText type="defaultSemiBold" style={styles.lineLabel}>
+                        {memberNames.get(field.memberId) ?? 'Colaborador removido'}
+                      </ThemedText>
+                      <Pressable onPress={() => removeLaborItem(index)}>
+                        <ThemedText type="caption" style={{ color: colors.destructive }}>
+                          Remover
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                    <Controller
+                      control={control}
+                      name={`laborItems.${index}.description`}
+                      render={({ field: { onChange, value } }) => (
+                        <TextField
+                          label="Serviço"
+                          placeholder="O que foi feito"
+                          value={value}
+                          onChangeText={onChange}
+                          error={errors.laborItems?.[index]?.description?.message}
+                        />
+                      )}
+                    />
+                    <View style={styles.lineItemFields}>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`laborItems.${index}.hours`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Horas"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.laborItems?.[index]?.hours?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`laborItems.${index}.hourlyRate`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Valor da hora"
+                              placeholder="0.00"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.laborItems?.[index]?.hourlyRate?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                    </View>
+                  </View>
+                ))}
+                <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                  <Picker selectedValue="" onValueChange={addLaborItem}>
+                    <Picker.Item label="Lançar horas de..." value="" />
+                    {branchTeam.map((member) => (
+                      <Picker.Item key={member.id} label={member.name} value={member.id} />
+                    ))}
+                  </Picker>
+                </View>
+              </View>
+
+              <Controller
+                control={control}
+                name="discount"
+                render={({ field: { onChange, value } }) => (
+                  <TextField
+                    label="Desconto (R$)"
+                    placeholder="0.00"
+                    keyboardType="numeric"
+                    value={value}
+                    onChangeText={onChange}
+                    error={errors.discount?.message}
+                  />
+                )}
+              />
+
+              <View style={[styles.workOrder, { borderColor: colors.border }]}>
+                <View style={styles.totalRow}>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    Peças • mão de obra
+                  </ThemedText>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    {formatCurrency(formTotals.parts)} • {formatCurrency(formTotals.labor)}
+                  </ThemedText>
+                </View>
+                {renderTotals(formTotals)}
+              </View>
+
               <Controller
                 control={control}
                 name="remindersEnabled"
@@ -539,6 +977,8 @@ export default function RevisionsScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditHistoryModal target={auditTarget} onClose={() => setAuditTarget(null)} />
     </SafeAreaView>
   );
 }
@@ -556,6 +996,10 @@ const styles = StyleSheet.create({
     gap: 16,
     marginBottom: 20,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   formCard: {
     gap: 12,
   },
@@ -628,6 +1072,38 @@ const styles = StyleSheet.create({
     borderRadius: 14,
     overflow: 'hidden',
   },
+  lineItem: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 10,
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  lineItemFields: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  lineItemField: {
+    flex: 1,
+  },
+  lineLabel: {
+    flex: 1,
+  },
+  workOrder: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 6,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
   switchRow: {
     flexDirection: 'row',
     alignItems: 'center',
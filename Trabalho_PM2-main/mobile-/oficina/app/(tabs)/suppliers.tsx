@@ -13,8 +13,9 @@ import {
 import { Controller, useForm } from 'react-hook-form';
 import { Picker } from '@react-native-picker/picker';
 import { yupResolver } from '@hookform/resolvers/yup';
-import * as yup from 'yup';
 
+import { AuditHistoryModal, AuditTarget } from '@/components/audit-history-modal';
+import { ContactFileActions } from '@/components/contact-file-actions';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { DateField } from '@/components/ui/date-field';
@@ -23,8 +24,12 @@ import { PageHeader } from '@/components/ui/page-header';
 import { TextField } from '@/components/ui/input';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
+import { useSelection } from '@/hooks/use-selection';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { EntityValidationError, supplierSchema } from '@/schemas/entities';
+import { describeBlockers, describeDeletePlan } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
 import { Supplier, SupplierCategory } from '@/types/entities';
 
 const categoryDisplay: Record<SupplierCategory, string> = {
@@ -35,30 +40,6 @@ const categoryDisplay: Record<SupplierCategory, string> = {
   'Servicos terceirizados': 'Serviços terceirizados',
 };
 
-const supplierSchema = yup.object({
-  company: yup.string().required('Informe a empresa'),
-  contactName: yup.string().required('Informe o contato'),
-  phone: yup.string().required('Informe o telefone'),
-  email: yup.string().email('E-mail inválido').required('Informe o e-mail'),
-  category: yup
-    .mixed<SupplierCategory>()
-    .oneOf(['Pecas originais', 'Pecas paralelas', 'Pneus', 'Tintas', 'Servicos terceirizados'])
-    .required(),
-  leadTimeDays: yup
-    .number()
-    .typeError('Informe o prazo em dias')
-    .min(0)
-    .required('Informe o prazo'),
-  preferred: yup.boolean().default(false),
-  rating: yup
-    .number()
-    .typeError('Informe a avaliação')
-    .min(0)
-    .max(5)
-    .required('Informe a avaliação'),
-  lastOrderDate: yup.string().required('Informe a data do último pedido'),
-});
-
 type SupplierFormValues = {
   company: string;
   contactName: string;
@@ -85,10 +66,13 @@ const defaultValues: SupplierFormValues = {
 
 export default function SuppliersScreen() {
   const { colors } = useAppTheme();
-  const { suppliers, createSupplier, updateSupplier, deleteSupplier } = useData();
+  const { suppliers, createSupplier, updateSupplier, deleteSupplier, planDeletion, can } =
+    useData();
+  const { selectedIds, actions: selection } = useSelection();
 
   const [search, setSearch] = useState('');
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
 
   const {
@@ -154,18 +138,38 @@ export default function SuppliersScreen() {
       lastOrderDate: formValues.lastOrderDate,
     } as Omit<Supplier, 'id'>;
 
-    if (editingSupplier) {
-      await updateSupplier(editingSupplier.id, payload);
-    } else {
-      await createSupplier(payload);
+    try {
+      if (editingSupplier) {
+        await updateSupplier(editingSupplier.id, payload);
+      } else {
+        await createSupplier(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      throw error;
     }
     closeModal();
   });
 
   const confirmDelete = (supplier: Supplier) => {
+    const plan = planDeletion('suppliers', supplier.id);
+    if (plan.blockers.length) {
+      Alert.alert(
+        'Exclusão bloqueada',
+        `${supplier.company} possui ${describeBlockers(plan.blockers)}. Remova ou desvincule antes.`
+      );
+      return;
+    }
     Alert.alert(
       'Remover fornecedor',
-      `Deseja remover ${supplier.company}?`,
+      [`Deseja remover ${supplier.company}?`, ...describeDeletePlan(plan)].join('\n'),
       [
         { text: 'Cancelar', style: 'cancel' },
         { text: 'Remover', style: 'destructive', onPress: () => deleteSupplier(supplier.id) },
@@ -192,12 +196,30 @@ export default function SuppliersScreen() {
                 value={search}
                 onChangeText={setSearch}
               />
-              <Button title="Cadastrar fornecedor" onPress={openCreateModal} />
+              {can('suppliers.edit') ? (
+                <Button title="Cadastrar fornecedor" onPress={openCreateModal} />
+              ) : null}
+              <ContactFileActions
+                entity="suppliers"
+                records={filteredSuppliers}
+                selectedIds={selectedIds}
+                onStartSelection={selection.start}
+                onStopSelection={selection.stop}
+              />
             </Card>
           </View>
         }
         renderItem={({ item }) => (
-          <Card style={styles.supplierCard}>
+          <Card
+            style={styles.supplierCard}
+            tone={selectedIds?.has(item.id) ? 'accent' : 'default'}>
+            {selectedIds ? (
+              <Pressable onPress={() => selection.toggle(item.id)}>
+                <ThemedText type="caption" style={{ color: colors.accent }}>
+                  {selectedIds.has(item.id) ? '☑ Selecionado' : '☐ Selecionar'}
+                </ThemedText>
+              </Pressable>
+            ) : null}
             <View style={styles.supplierHeader}>
               <View>
                 <ThemedText type="subtitle">{item.company}</ThemedText>
@@ -206,16 +228,28 @@ export default function SuppliersScreen() {
                 </ThemedText>
               </View>
               <View style={styles.supplierActions}>
-                <Pressable onPress={() => openEditModal(item)}>
-                  <ThemedText type="caption" style={{ color: colors.accent }}>
-                    Editar
-                  </ThemedText>
-                </Pressable>
-                <Pressable onPress={() => confirmDelete(item)}>
-                  <ThemedText type="caption" style={{ color: colors.destructive }}>
-                    Excluir
+                <Pressable
+                  onPress={() =>
+                    setAuditTarget({ entity: 'suppliers', recordId: item.id, title: item.company })
+                  }>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    Histórico
                   </ThemedText>
                 </Pressable>
+                {can('suppliers.edit') ? (
+                  <Pressable onPress={() => openEditModal(item)}>
+                    <ThemedText type="caption" style={{ color: colors.accent }}>
+                      Editar
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {can('suppliers.delete') ? (
+                  <Pressable onPress={() => confirmDelete(item)}>
+                    <ThemedText type="caption" style={{ color: colors.destructive }}>
+                      Excluir
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
               </View>
             </View>
             <ThemedText type="caption" style={{ color: colors.muted }}>
@@ -395,6 +429,8 @@ export default function SuppliersScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditHistoryModal target={auditTarget} onClose={() => setAuditTarget(null)} />
     </SafeAreaView>
   );
 }
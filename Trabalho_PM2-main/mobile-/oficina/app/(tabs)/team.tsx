@@ -13,8 +13,10 @@ import {
 import { Controller, useForm } from 'react-hook-form';
 import { Picker } from '@react-native-picker/picker';
 import { yupResolver } from '@hookform/resolvers/yup';
-import * as yup from 'yup';
 
+import { AuditHistoryModal, AuditTarget } from '@/components/audit-history-modal';
+import { BranchPickerField } from '@/components/branch-picker-field';
+import { BranchSelector } from '@/components/branch-selector';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { DateField } from '@/components/ui/date-field';
@@ -23,17 +25,14 @@ import { PageHeader } from '@/components/ui/page-header';
 import { TextField } from '@/components/ui/input';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ThemedText } from '@/components/themed-text';
+import { ROLE_LABELS } from '@/constants/entity-labels';
 import { useAppTheme } from '@/providers/theme-provider';
 import { useData } from '@/providers/data-provider';
+import { EntityValidationError, teamMemberFormSchema } from '@/schemas/entities';
+import { describeBlockers, describeDeletePlan } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
 import { TeamMember, TeamRole, ExpertiseLevel } from '@/types/entities';
-
-const roleDisplay: Record<TeamRole, string> = {
-  Mecanico: 'Mecânico',
-  Eletricista: 'Eletricista',
-  Diagnostico: 'Diagnóstico',
-  Pintor: 'Pintor',
-  Atendimento: 'Atendimento',
-};
+import { formatCurrency } from '@/utils/work-order';
 
 const expertiseDisplay: Record<ExpertiseLevel, string> = {
   Junior: 'Júnior',
@@ -41,18 +40,8 @@ const expertiseDisplay: Record<ExpertiseLevel, string> = {
   Senior: 'Sênior',
 };
 
-const teamSchema = yup.object({
-  name: yup.string().required('Informe o nome'),
-  role: yup.mixed<TeamRole>().oneOf(['Mecanico', 'Eletricista', 'Diagnostico', 'Pintor', 'Atendimento']).required(),
-  phone: yup.string().required('Informe o telefone'),
-  email: yup.string().email('E-mail inválido').required('Informe o e-mail'),
-  expertiseLevel: yup.mixed<ExpertiseLevel>().oneOf(['Junior', 'Pleno', 'Senior']).required(),
-  certificationExpiry: yup.string().required('Informe o vencimento'),
-  hiredAt: yup.string().required('Informe a data de contratação'),
-  active: yup.boolean().default(true),
-});
-
 type TeamFormValues = {
+  branchId: string;
   name: string;
   role: TeamRole;
   phone: string;
@@ -60,10 +49,12 @@ type TeamFormValues = {
   expertiseLevel: ExpertiseLevel;
   certificationExpiry: string;
   hiredAt: string;
+  hourlyRate: string;
   active: boolean;
 };
 
 const defaultValues: TeamFormValues = {
+  branchId: '',
   name: '',
   role: 'Mecanico',
   phone: '',
@@ -71,15 +62,28 @@ const defaultValues: TeamFormValues = {
   expertiseLevel: 'Junior',
   certificationExpiry: '',
   hiredAt: '',
+  hourlyRate: '',
   active: true,
 };
 
 export default function TeamScreen() {
   const { colors } = useAppTheme();
-  const { team, createTeamMember, updateTeamMember, deleteTeamMember } = useData();
+  const {
+    branches,
+    activeBranchId,
+    team,
+    createTeamMember,
+    updateTeamMember,
+    deleteTeamMember,
+    currentMember,
+    accounts,
+    can,
+    planDeletion,
+  } = useData();
 
   const [search, setSearch] = useState('');
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const [editingMember, setEditingMember] = useState<TeamMember | null>(null);
 
   const {
@@ -89,9 +93,12 @@ export default function TeamScreen() {
     formState: { errors },
   } = useForm<TeamFormValues>({
     defaultValues,
-    resolver: yupResolver(teamSchema),
+    resolver: yupResolver(teamMemberFormSchema),
   });
 
+  const branchName = (branchId: string) =>
+    branches.find((branch) => branch.id === branchId)?.name ?? 'Unidade removida';
+
   const filteredTeam = useMemo(() => {
     if (!search.trim()) {
       return team;
@@ -107,13 +114,14 @@ export default function TeamScreen() {
 
   const openCreateModal = () => {
     setEditingMember(null);
-    reset(defaultValues);
+    reset({ ...defaultValues, branchId: activeBranchId ?? branches[0]?.id ?? '' });
     setIsModalVisible(true);
   };
 
   const openEditModal = (member: TeamMember) => {
     setEditingMember(member);
     reset({
+      branchId: member.branchId,
       name: member.name,
       role: member.role,
       phone: member.phone,
@@ -121,6 +129,7 @@ export default function TeamScreen() {
       expertiseLevel: member.expertiseLevel,
       certificationExpiry: member.certificationExpiry,
       hiredAt: member.hiredAt,
+      hourlyRate: String(member.hourlyRate),
       active: member.active,
     });
     setIsModalVisible(true);
@@ -133,6 +142,7 @@ export default function TeamScreen() {
 
   const onSubmit = handleSubmit(async (formValues) => {
     const payload = {
+      branchId: formValues.branchId,
       name: formValues.name.trim(),
       role: formValues.role,
       phone: formValues.phone,
@@ -140,21 +150,42 @@ export default function TeamScreen() {
       expertiseLevel: formValues.expertiseLevel,
       certificationExpiry: formValues.certificationExpiry,
       hiredAt: formValues.hiredAt,
+      hourlyRate: Number(formValues.hourlyRate),
       active: formValues.active,
     } as Omit<TeamMember, 'id'>;
 
-    if (editingMember) {
-      await updateTeamMember(editingMember.id, payload);
-    } else {
-      await createTeamMember(payload);
+    try {
+      if (editingMember) {
+        await updateTeamMember(editingMember.id, payload);
+      } else {
+        await createTeamMember(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      throw error;
     }
     closeModal();
   });
 
   const confirmDelete = (member: TeamMember) => {
+    const plan = planDeletion('team', member.id);
+    if (plan.blockers.length) {
+      Alert.alert(
+        'Exclusão bloqueada',
+        `${member.name} possui ${describeBlockers(plan.blockers)}. Remova ou desvincule antes.`
+      );
+      return;
+    }
     Alert.alert(
       'Remover colaborador',
-      `Confirmar desligamento de ${member.name}?`,
+      [`Confirmar desligamento de ${member.name}?`, ...describeDeletePlan(plan)].join('\n'),
       [
         { text: 'Cancelar', style: 'cancel' },
         { text: 'Remover', style: 'destructive', onPress: () => deleteTeamMember(member.id) },
@@ -172,7 +203,12 @@ export default function TeamScreen() {
             <PageHeader
               title="Equipe técnica"
               subtitle="Gerencie habilidades, certificações e disponibilidade"
-              rightElement={<ThemeToggle />}
+              rightElement={
+                <View style={styles.headerActions}>
+                  <BranchSelector />
+                  <ThemeToggle />
+                </View>
+              }
             />
             <Card>
               <TextField
@@ -181,7 +217,9 @@ export default function TeamScreen() {
                 value={search}
                 onChangeText={setSearch}
               />
-              <Button title="Adicionar colaborador" onPress={openCreateModal} />
+              {can('team.edit') ? (
+                <Button title="Adicionar colaborador" onPress={openCreateModal} />
+              ) : null}
             </Card>
           </View>
         }
@@ -191,20 +229,33 @@ export default function TeamScreen() {
               <View>
                 <ThemedText type="subtitle">{item.name}</ThemedText>
                 <ThemedText type="caption" style={{ color: colors.muted }}>
-                  {roleDisplay[item.role]} • {expertiseDisplay[item.expertiseLevel]}
+                  {ROLE_LABELS[item.role]} • {expertiseDisplay[item.expertiseLevel]}
+                  {activeBranchId ? '' : ` • ${branchName(item.branchId)}`}
                 </ThemedText>
               </View>
               <View style={styles.memberActions}>
-                <Pressable onPress={() => openEditModal(item)}>
-                  <ThemedText type="caption" style={{ color: colors.accent }}>
-                    Editar
-                  </ThemedText>
-                </Pressable>
-                <Pressable onPress={() => confirmDelete(item)}>
-                  <ThemedText type="caption" style={{ color: colors.destructive }}>
-                    Excluir
+                <Pressable
+                  onPress={() =>
+                    setAuditTarget({ entity: 'team', recordId: item.id, title: item.name })
+                  }>
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    Histórico
                   </ThemedText>
                 </Pressable>
+                {can('team.edit') ? (
+                  <Pressable onPress={() => openEditModal(item)}>
+                    <ThemedText type="caption" style={{ color: colors.accent }}>
+                      Editar
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                {can('team.delete') ? (
+                  <Pressable onPress={() => confirmDelete(item)}>
+                    <ThemedText type="caption" style={{ color: colors.destructive }}>
+                      Excluir
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
               </View>
             </View>
 
@@ -216,8 +267,17 @@ export default function TeamScreen() {
             </ThemedText>
             <ThemedText type="caption" style={{ color: colors.muted }}>
               Contratado em {new Date(item.hiredAt).toLocaleDateString('pt-BR')} •{' '}
-              {item.active ? 'Ativo' : 'Inativo'}
+              {item.active ? 'Ativo' : 'Inativo'} • {formatCurrency(item.hourlyRate)}/h
             </ThemedText>
+            {item.id === currentMember?.id ? (
+              <ThemedText type="caption" style={{ color: colors.accent }}>
+                Conectado neste aparelho
+              </ThemedText>
+            ) : accounts.some((account) => account.memberId === item.id) ? (
+              <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                Possui acesso a este aparelho
+              </ThemedText>
+            ) : null}
           </Card>
         )}
         contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
@@ -243,6 +303,18 @@ export default function TeamScreen() {
             </View>
 
             <ScrollView contentContainerStyle={styles.form}>
+              <Controller
+                control={control}
+                name="branchId"
+                render={({ field: { onChange, value } }) => (
+                  <BranchPickerField
+                    value={value}
+                    onChange={onChange}
+                    error={errors.branchId?.message}
+                  />
+                )}
+              />
+
               <Controller
                 control={control}
                 name="name"
@@ -267,11 +339,11 @@ export default function TeamScreen() {
                     </ThemedText>
                     <View style={[styles.pickerContainer, { borderColor: colors.border }]}> 
                       <Picker selectedValue={value} onValueChange={onChange}>
-                        <Picker.Item label={roleDisplay.Mecanico} value="Mecanico" />
-                        <Picker.Item label={roleDisplay.Eletricista} value="Eletricista" />
-                        <Picker.Item label={roleDisplay.Diagnostico} value="Diagnostico" />
-                        <Picker.Item label={roleDisplay.Pintor} value="Pintor" />
-                        <Picker.Item label={roleDisplay.Atendimento} value="Atendimento" />
+                        <Picker.Item label={ROLE_LABELS.Mecanico} value="Mecanico" />
+                        <Picker.Item label={ROLE_LABELS.Eletricista} value="Eletricista" />
+                        <Picker.Item label={ROLE_LABELS.Diagnostico} value="Diagnostico" />
+                        <Picker.Item label={ROLE_LABELS.Pintor} value="Pintor" />
+                        <Picker.Item label={ROLE_LABELS.Atendimento} value="Atendimento" />
                       </Picker>
                     </View>
                     {errors.role?.message ? (
@@ -360,6 +432,21 @@ export default function TeamScreen() {
                 )}
               />
 
+              <Controller
+                control={control}
+                name="hourlyRate"
+                render={({ field: { onChange, value } }) => (
+                  <TextField
+                    label="Valor da hora (R$)"
+                    placeholder="0.00"
+                    keyboardType="numeric"
+                    value={value}
+                    onChangeText={onChange}
+                    error={errors.hourlyRate?.message}
+                  />
+                )}
+              />
+
               <Controller
                 control={control}
                 name="active"
@@ -379,6 +466,8 @@ export default function TeamScreen() {
           </View>
         </View>
       </Modal>
+
+      <AuditHistoryModal target={auditTarget} onClose={() => setAuditTarget(null)} />
     </SafeAreaView>
   );
 }
@@ -396,6 +485,10 @@ const styles = StyleSheet.create({
     gap: 16,
     marginBottom: 20,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   memberCard: {
     gap: 12,
   },
@@ -3,9 +3,11 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
+import { BootstrapError } from '@/components/bootstrap-error';
+import { LoginScreen } from '@/components/login-screen';
 import { NavigationThemes } from '@/constants/theme';
 import { AppThemeProvider, useAppTheme } from '@/providers/theme-provider';
-import { DataProvider } from '@/providers/data-provider';
+import { DataProvider, useData } from '@/providers/data-provider';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -13,14 +15,35 @@ export const unstable_settings = {
 
 function RootNavigator() {
   const { scheme, colors } = useAppTheme();
+  const { isReady, bootstrapError, retryBootstrap, currentMember, signOut, vaultRotatedAt } =
+    useData();
   const navigationTheme = NavigationThemes[scheme] as Theme;
 
   return (
     <ThemeProvider value={navigationTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
+      {bootstrapError ? (
+        <BootstrapError
+          message={bootstrapError}
+          onRetry={retryBootstrap}
+          // Encrypted data is only read after a sign-in; signing out locks it again.
+          onSignOut={vaultRotatedAt ? signOut : undefined}
+        />
+      ) : !isReady || !currentMember ? (
+        <LoginScreen />
+      ) : (
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+          <Stack.Screen name="trash" options={{ title: 'Lixeira' }} />
+          <Stack.Screen name="backup" options={{ title: 'Backup' }} />
+          <Stack.Screen name="branches" options={{ title: 'Unidades' }} />
+          <Stack.Screen name="purchase-orders" options={{ title: 'Pedidos de compra' }} />
+          <Stack.Screen name="reorder-suggestions" options={{ title: 'Sugestões de compra' }} />
+          <Stack.Screen name="sync-conflicts" options={{ title: 'Conflitos de sincronização' }} />
+          <Stack.Screen name="accounts" options={{ title: 'Acessos' }} />
+          <Stack.Screen name="diagnostics" options={{ title: 'Diagnóstico' }} />
+        </Stack>
+      )}
       <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} backgroundColor={colors.background} translucent={false} />
     </ThemeProvider>
   );
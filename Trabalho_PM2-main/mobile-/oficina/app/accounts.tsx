@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  StyleSheet,
+  Switch,
+  View,
+} from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { ROLE_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { AccountError, MIN_PIN_LENGTH } from '@/storage/accounts';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { TeamMember } from '@/types/entities';
+import { logger } from '@/utils/logger';
+
+type PinTarget = {
+  member: TeamMember;
+  /** Creating an account rather than changing the PIN of an existing one. */
+  isNew: boolean;
+};
+
+export default function AccountsScreen() {
+  const { colors } = useAppTheme();
+  const {
+    allTeam,
+    branches,
+    accounts,
+    currentMember,
+    can,
+    createAccount,
+    changePin,
+    setAccountAdmin,
+    deleteAccount,
+    vaultRotatedAt,
+    rotateDataKey,
+  } = useData();
+  const [isRotating, setIsRotating] = useState(false);
+  const [pinTarget, setPinTarget] = useState<PinTarget | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const canManage = can('accounts.manage');
+  // Without `accounts.manage` a member only sees their own account, to change the PIN.
+  const members = canManage ? allTeam : allTeam.filter((member) => member.id === currentMember?.id);
+
+  const branchName = (branchId: string) =>
+    branches.find((branch) => branch.id === branchId)?.name ?? 'Unidade removida';
+
+  const run = async (task: () => Promise<void>) => {
+    try {
+      await task();
+      return true;
+    } catch (error) {
+      if (error instanceof AccountError || error instanceof PermissionDeniedError) {
+        Alert.alert('Não foi possível salvar', error.message);
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  const rotateKey = async () => {
+    setIsRotating(true);
+    try {
+      await run(rotateDataKey);
+    } catch (error) {
+      logger.error('auth', 'Erro ao trocar chave de criptografia', error);
+      Alert.alert(
+        'Não foi possível trocar a chave',
+        'Os dados continuam legíveis com a chave anterior. Tente novamente.'
+      );
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const confirmRotate = () => {
+    if (isRotating) {
+      return;
+    }
+    Alert.alert(
+      'Trocar chave de criptografia',
+      'Os dados pessoais serão criptografados novamente com uma chave nova. Não feche o app até terminar.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Trocar chave', onPress: () => void rotateKey() },
+      ]
+    );
+  };
+
+  const openPinModal = (member: TeamMember, isNew: boolean) => {
+    setPin('');
+    setConfirmation('');
+    setIsAdmin(false);
+    setPinTarget({ member, isNew });
+  };
+
+  const closePinModal = () => setPinTarget(null);
+
+  const savePin = async () => {
+    if (!pinTarget) {
+      return;
+    }
+    if (pin !== confirmation) {
+      Alert.alert('PIN não confere', 'Digite o mesmo PIN nos dois campos.');
+      return;
+    }
+    const { member, isNew } = pinTarget;
+    const saved = await run(() =>
+      isNew ? createAccount(member.id, pin, isAdmin) : changePin(member.id, pin)
+    );
+    if (saved) {
+      closePinModal();
+    }
+  };
+
+  const confirmRemove = (member: TeamMember) => {
+    Alert.alert('Remover acesso', `${member.name} não poderá mais entrar neste aparelho.`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Remover',
+        style: 'destructive',
+        onPress: () => void run(() => deleteAccount(member.id)),
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={members}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Cada colaborador entra com o próprio PIN e pode fazer o que a sua função permite.
+              Administradores têm acesso completo, inclusive a esta tela.
+            </ThemedText>
+            {canManage && vaultRotatedAt ? (
+              <Card style={styles.itemCard}>
+                <ThemedText type="subtitle">Criptografia</ThemedText>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Dados pessoais de clientes, equipe e revisões ficam criptografados neste aparelho
+                  e só são lidos depois que alguém entra com o PIN. Chave atual criada em{' '}
+                  {new Date(vaultRotatedAt).toLocaleString('pt-BR')}.
+                </ThemedText>
+                <Button
+                  title={isRotating ? 'Trocando chave...' : 'Trocar chave de criptografia'}
+                  variant="secondary"
+                  onPress={confirmRotate}
+                />
+              </Card>
+            ) : null}
+          </View>
+        }
+        renderItem={({ item }) => {
+          const account = accounts.find((entry) => entry.memberId === item.id);
+          return (
+            <Card style={styles.itemCard}>
+              <View>
+                <ThemedText type="defaultSemiBold">{item.name}</ThemedText>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  {ROLE_LABELS[item.role]} • {branchName(item.branchId)}
+                  {item.active ? '' : ' • Inativo'}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: account ? colors.accent : colors.textSecondary }}>
+                  {account ? (account.isAdmin ? 'Administrador' : 'Possui acesso') : 'Sem acesso'}
+                </ThemedText>
+              </View>
+              <View style={styles.itemActions}>
+                {!account ? (
+                  <Button
+                    title="Criar acesso"
+                    variant="secondary"
+                    onPress={() => openPinModal(item, true)}
+                  />
+                ) : (
+                  <>
+                    <Button
+                      title={item.id === currentMember?.id ? 'Alterar PIN' : 'Redefinir PIN'}
+                      variant="secondary"
+                      onPress={() => openPinModal(item, false)}
+                    />
+                    {canManage ? (
+                      <Button
+                        title={account.isAdmin ? 'Remover administrador' : 'Tornar administrador'}
+                        variant="ghost"
+                        onPress={() => void run(() => setAccountAdmin(item.id, !account.isAdmin))}
+                      />
+                    ) : null}
+                    {canManage ? (
+                      <Button
+                        title="Remover acesso"
+                        variant="ghost"
+                        onPress={() => confirmRemove(item)}
+                      />
+                    ) : null}
+                  </>
+                )}
+              </View>
+            </Card>
+          );
+        }}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+      />
+
+      <Modal transparent visible={!!pinTarget} animationType="slide" onRequestClose={closePinModal}>
+        <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+          <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <ThemedText type="subtitle">
+                {pinTarget?.isNew ? 'Criar acesso' : 'Definir PIN'}
+              </ThemedText>
+              <Pressable onPress={closePinModal}>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Fechar
+                </ThemedText>
+              </Pressable>
+            </View>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              {pinTarget?.member.name}
+            </ThemedText>
+            <TextField
+              label="Novo PIN"
+              placeholder={`Mínimo de ${MIN_PIN_LENGTH} caracteres`}
+              value={pin}
+              onChangeText={setPin}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <TextField
+              label="Confirmar PIN"
+              value={confirmation}
+              onChangeText={setConfirmation}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            {pinTarget?.isNew ? (
+              <View style={styles.switchRow}>
+                <ThemedText>Administrador</ThemedText>
+                <Switch value={isAdmin} onValueChange={setIsAdmin} />
+              </View>
+            ) : null}
+            <View style={styles.modalActions}>
+              <Button title="Cancelar" variant="ghost" onPress={closePinModal} />
+              <Button title="Salvar" onPress={() => void savePin()} />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  header: {
+    gap: 16,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+});
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import {
+  BACKUP_MIME_TYPE,
+  Backup,
+  BackupError,
+  RestoreMode,
+  backupFileName,
+  describeBackupDiff,
+  parseBackup,
+} from '@/storage/backup';
+import { logger } from '@/utils/logger';
+import { pickTextFile, shareTextFile } from '@/utils/share-file';
+
+type PendingRestore = {
+  fileName: string;
+  backup: Backup;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export default function BackupScreen() {
+  const { colors } = useAppTheme();
+  const { exportBackup, previewBackup, restoreBackup, can } = useData();
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    if (isBusy) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await task();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      try {
+        const backup = exportBackup();
+        await shareTextFile(
+          backupFileName(backup),
+          JSON.stringify(backup, null, 2),
+          BACKUP_MIME_TYPE
+        );
+      } catch (error) {
+        logger.error('files', 'Erro ao exportar backup', error);
+        Alert.alert('Falha ao exportar', errorMessage(error));
+      }
+    });
+
+  const handlePick = () =>
+    run(async () => {
+      try {
+        const file = await pickTextFile([BACKUP_MIME_TYPE]);
+        if (file) {
+          setPending({ fileName: file.name, backup: parseBackup(file.contents) });
+        }
+      } catch (error) {
+        if (!(error instanceof BackupError)) {
+          logger.error('files', 'Erro ao ler backup', error);
+        }
+        Alert.alert('Backup inválido', errorMessage(error));
+      }
+    });
+
+  const applyRestore = (mode: RestoreMode) =>
+    run(async () => {
+      if (!pending) {
+        return;
+      }
+      try {
+        await restoreBackup(pending.backup, mode);
+        setPending(null);
+        Alert.alert('Backup restaurado', 'Os dados do arquivo foram aplicados.');
+      } catch (error) {
+        logger.error('storage', 'Erro ao restaurar backup', error);
+        Alert.alert('Falha ao restaurar', errorMessage(error));
+      }
+    });
+
+  const confirmReplace = () => {
+    Alert.alert(
+      'Substituir todos os dados',
+      'Registros que não estão no backup serão apagados e a ação não pode ser desfeita.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Substituir', style: 'destructive', onPress: () => void applyRestore('replace') },
+      ]
+    );
+  };
+
+  const diff = pending ? previewBackup(pending.backup) : null;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {can('data.manage') ? (
+          <>
+            <Card style={styles.card}>
+              <ThemedText type="subtitle">Exportar</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Gera um arquivo JSON com peças, revisões, equipe, clientes e fornecedores, incluindo
+                a lixeira, para guardar ou levar a outro aparelho.
+              </ThemedText>
+              <Button title="Exportar backup" onPress={() => void handleExport()} />
+            </Card>
+
+            <Card style={styles.card}>
+              <ThemedText type="subtitle">Importar</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                O arquivo é conferido antes de qualquer alteração. Depois você escolhe entre mesclar
+                com os dados atuais ou substituí-los.
+              </ThemedText>
+              <Button
+                title="Selecionar arquivo"
+                variant="secondary"
+                onPress={() => void handlePick()}
+              />
+            </Card>
+          </>
+        ) : (
+          <Card style={styles.card}>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Seu perfil não pode exportar nem restaurar backups.
+            </ThemedText>
+          </Card>
+        )}
+
+        {pending && diff ? (
+          <Card style={styles.card}>
+            <ThemedText type="subtitle">{pending.fileName}</ThemedText>
+            {pending.backup.exportedAt ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Exportado em {new Date(pending.backup.exportedAt).toLocaleString('pt-BR')}
+              </ThemedText>
+            ) : null}
+            {(['merge', 'replace'] as RestoreMode[]).map((mode) => {
+              const lines = describeBackupDiff(diff, mode);
+              return (
+                <View key={mode} style={styles.summary}>
+                  <ThemedText type="defaultSemiBold">
+                    {mode === 'merge' ? 'Ao mesclar' : 'Ao substituir'}
+                  </ThemedText>
+                  {(lines.length ? lines : ['Nenhuma alteração.']).map((line) => (
+                    <ThemedText key={line} type="caption" style={{ color: colors.textSecondary }}>
+                      {line}
+                    </ThemedText>
+                  ))}
+                </View>
+              );
+            })}
+            <View style={styles.actions}>
+              <Button title="Mesclar" onPress={() => void applyRestore('merge')} />
+              <Button title="Substituir tudo" variant="secondary" onPress={confirmReplace} />
+              <Button title="Cancelar" variant="ghost" onPress={() => setPending(null)} />
+            </View>
+          </Card>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  card: {
+    gap: 12,
+  },
+  summary: {
+    gap: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+});
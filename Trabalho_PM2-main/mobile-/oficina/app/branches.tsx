@@ -0,0 +1,288 @@
+import { useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native';
+import { Controller, useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { MaskedTextField } from '@/components/ui/masked-input';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError, branchSchema } from '@/schemas/entities';
+import { describeBlockers } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { Branch } from '@/types/entities';
+
+type BranchFormValues = {
+  name: string;
+  address: string;
+  phone: string;
+};
+
+const defaultValues: BranchFormValues = {
+  name: '',
+  address: '',
+  phone: '',
+};
+
+export default function BranchesScreen() {
+  const { colors } = useAppTheme();
+  const {
+    branches,
+    activeBranchId,
+    setActiveBranch,
+    createBranch,
+    updateBranch,
+    deleteBranch,
+    planDeletion,
+    can,
+  } = useData();
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<BranchFormValues>({
+    defaultValues,
+    resolver: yupResolver(branchSchema),
+  });
+
+  const openCreateModal = () => {
+    setEditingBranch(null);
+    reset(defaultValues);
+    setIsModalVisible(true);
+  };
+
+  const openEditModal = (branch: Branch) => {
+    setEditingBranch(branch);
+    reset({ name: branch.name, address: branch.address, phone: branch.phone });
+    setIsModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setEditingBranch(null);
+  };
+
+  const onSubmit = handleSubmit(async (formValues) => {
+    const payload = {
+      name: formValues.name.trim(),
+      address: formValues.address.trim(),
+      phone: formValues.phone,
+    };
+    try {
+      if (editingBranch) {
+        await updateBranch(editingBranch.id, payload);
+      } else {
+        await createBranch(payload);
+      }
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Dados inválidos', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      throw error;
+    }
+    closeModal();
+  });
+
+  const confirmDelete = (branch: Branch) => {
+    const plan = planDeletion('branches', branch.id);
+    if (plan.blockers.length) {
+      Alert.alert(
+        'Exclusão bloqueada',
+        `${branch.name} possui ${describeBlockers(plan.blockers)}. Transfira ou remova antes.`
+      );
+      return;
+    }
+    Alert.alert('Remover unidade', `Confirmar exclusão de ${branch.name}?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      { text: 'Excluir', style: 'destructive', onPress: () => deleteBranch(branch.id) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={branches}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <Card style={styles.headerCard}>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Peças, revisões e equipe pertencem a uma unidade. Clientes e fornecedores são
+              compartilhados por todas.
+            </ThemedText>
+            {can('branches.edit') ? (
+              <Button title="Cadastrar unidade" onPress={openCreateModal} />
+            ) : null}
+          </Card>
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.itemCard} tone={item.id === activeBranchId ? 'accent' : 'default'}>
+            <View>
+              <ThemedText type="defaultSemiBold">{item.name}</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {[item.address, item.phone].filter(Boolean).join(' • ')}
+              </ThemedText>
+            </View>
+            <View style={styles.itemActions}>
+              {item.id === activeBranchId ? null : (
+                <Button
+                  title="Selecionar"
+                  variant="secondary"
+                  onPress={() => void setActiveBranch(item.id)}
+                />
+              )}
+              {can('branches.edit') ? (
+                <Button title="Editar" variant="ghost" onPress={() => openEditModal(item)} />
+              ) : null}
+              {can('branches.delete') ? (
+                <Button title="Excluir" variant="ghost" onPress={() => confirmDelete(item)} />
+              ) : null}
+            </View>
+          </Card>
+        )}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+        ListEmptyComponent={
+          <ThemedText type="caption" style={{ color: colors.muted, textAlign: 'center' }}>
+            Nenhuma unidade cadastrada.
+          </ThemedText>
+        }
+      />
+
+      <Modal transparent visible={isModalVisible} animationType="slide" onRequestClose={closeModal}>
+        <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+          <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <ThemedText type="subtitle">
+                {editingBranch ? 'Editar unidade' : 'Cadastrar unidade'}
+              </ThemedText>
+              <Pressable onPress={closeModal}>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Fechar
+                </ThemedText>
+              </Pressable>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.form}>
+              <Controller
+                control={control}
+                name="name"
+                render={({ field: { onChange, value } }) => (
+                  <TextField
+                    label="Nome"
+                    placeholder="Ex. Unidade Centro"
+                    value={value}
+                    onChangeText={onChange}
+                    error={errors.name?.message}
+                  />
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="address"
+                render={({ field: { onChange, value } }) => (
+                  <TextField
+                    label="Endereço"
+                    placeholder="Rua, número - Cidade"
+                    value={value}
+                    onChangeText={onChange}
+                    error={errors.address?.message}
+                  />
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="phone"
+                render={({ field: { onChange, value } }) => (
+                  <MaskedTextField
+                    label="Telefone"
+                    mask="(99) 9999-9999"
+                    placeholder="(00) 0000-0000"
+                    value={value}
+                    onChangeText={onChange}
+                    keyboardType="phone-pad"
+                    error={errors.phone?.message}
+                  />
+                )}
+              />
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <Button title="Cancelar" variant="ghost" onPress={closeModal} />
+              <Button title={editingBranch ? 'Atualizar' : 'Cadastrar'} onPress={onSubmit} />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  headerCard: {
+    gap: 12,
+    marginBottom: 4,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  form: {
+    gap: 14,
+    paddingBottom: 16,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+});
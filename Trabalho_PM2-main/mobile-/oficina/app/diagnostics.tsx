@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, SafeAreaView, ScrollView, StyleSheet, View } from 'react-native';
+
+import { SYNC_STATUS_LABELS } from '@/components/sync-status-card';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { StorageUsage } from '@/storage/repository';
+import { PersistenceStatus } from '@/storage/write-queue';
+import {
+  DIAGNOSTICS_MIME_TYPE,
+  createDiagnosticsBundle,
+  diagnosticsFileName,
+  formatBytes,
+  readAppInfo,
+} from '@/utils/diagnostics';
+import { nowIso } from '@/utils/id';
+import { LogEntry, LogLevel, logger } from '@/utils/logger';
+import { shareTextFile } from '@/utils/share-file';
+
+/** Only the latest entries are listed; the exported bundle carries all of them. */
+const VISIBLE_LOGS = 50;
+
+const STORAGE_LABELS: Record<StorageUsage['name'], string> = {
+  ...ENTITY_LABELS,
+  audit: 'Auditoria',
+  meta: 'Configurações',
+};
+
+const PERSISTENCE_LABELS: Record<PersistenceStatus, string> = {
+  saved: 'Salvo',
+  saving: 'Salvando',
+  failed: 'Falhou',
+};
+
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'AVISO',
+  error: 'ERRO',
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Reached by long-pressing the title of the dashboard; meant for support. */
+export default function DiagnosticsScreen() {
+  const { colors } = useAppTheme();
+  const { getStorageUsage, persistenceStatus, syncStatus, pendingSyncCount } = useData();
+  const [usage, setUsage] = useState<StorageUsage[] | null>(null);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const app = readAppInfo();
+
+  const refresh = useCallback(async () => {
+    const [nextUsage, nextLogs] = await Promise.all([
+      getStorageUsage().catch((error) => {
+        logger.error('storage', 'Erro ao medir armazenamento', error);
+        return null;
+      }),
+      logger.entries(),
+    ]);
+    setUsage(nextUsage);
+    setLogs(nextLogs);
+  }, [getStorageUsage]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleExport = async () => {
+    if (isExporting) {
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const bundle = createDiagnosticsBundle(
+        usage ?? (await getStorageUsage()),
+        await logger.entries(),
+        nowIso()
+      );
+      await shareTextFile(
+        diagnosticsFileName(bundle),
+        JSON.stringify(bundle, null, 2),
+        DIAGNOSTICS_MIME_TYPE
+      );
+    } catch (error) {
+      logger.error('files', 'Erro ao exportar diagnóstico', error);
+      Alert.alert('Falha ao exportar', errorMessage(error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const confirmClear = () => {
+    Alert.alert('Limpar registros', 'Os registros de diagnóstico deste aparelho serão apagados.', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Limpar',
+        style: 'destructive',
+        onPress: () => void logger.clear().then(refresh),
+      },
+    ]);
+  };
+
+  const levelColor = (level: LogLevel) =>
+    level === 'error' ? colors.destructive : level === 'warn' ? colors.warning : colors.muted;
+
+  const totalBytes = usage?.reduce((total, item) => total + item.bytes, 0) ?? 0;
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Card style={styles.card}>
+          <ThemedText type="subtitle">Aplicativo</ThemedText>
+          {[
+            ['Versão', app.version],
+            ['Sistema', `${app.platform} ${app.osVersion}`],
+            ['Versão dos dados', String(app.schemaVersion)],
+            ['Gravação', PERSISTENCE_LABELS[persistenceStatus]],
+            [
+              'Sincronização',
+              `${SYNC_STATUS_LABELS[syncStatus]} • ${pendingSyncCount} pendente(s)`,
+            ],
+          ].map(([label, value]) => (
+            <View key={label} style={styles.row}>
+              <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                {label}
+              </ThemedText>
+              <ThemedText type="caption">{value}</ThemedText>
+            </View>
+          ))}
+        </Card>
+
+        <Card style={styles.card}>
+          <ThemedText type="subtitle">Armazenamento</ThemedText>
+          {usage ? (
+            <>
+              {usage.map((item) => (
+                <View key={item.name} style={styles.row}>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    {STORAGE_LABELS[item.name]}
+                  </ThemedText>
+                  <ThemedText type="caption">
+                    {item.records} registro(s) • {formatBytes(item.bytes)}
+                  </ThemedText>
+                </View>
+              ))}
+              <View style={styles.row}>
+                <ThemedText type="defaultSemiBold">Total</ThemedText>
+                <ThemedText type="defaultSemiBold">{formatBytes(totalBytes)}</ThemedText>
+              </View>
+            </>
+          ) : (
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Não foi possível medir o armazenamento.
+            </ThemedText>
+          )}
+        </Card>
+
+        <Card style={styles.card}>
+          <ThemedText type="subtitle">Registros recentes</ThemedText>
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            Guardados apenas neste aparelho e sem dados pessoais. Envie o pacote ao suporte ao
+            relatar um problema.
+          </ThemedText>
+          <View style={styles.actions}>
+            <Button
+              title={isExporting ? 'Exportando...' : 'Exportar pacote'}
+              onPress={() => void handleExport()}
+            />
+            <Button title="Atualizar" variant="secondary" onPress={() => void refresh()} />
+            <Button title="Limpar" variant="ghost" onPress={confirmClear} />
+          </View>
+          {logs.length === 0 ? (
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Nenhum registro.
+            </ThemedText>
+          ) : null}
+          {logs.slice(0, VISIBLE_LOGS).map((entry, index) => (
+            <View
+              key={`${entry.timestamp}-${index}`}
+              style={[styles.log, { borderColor: colors.border }]}>
+              <ThemedText type="caption" style={{ color: levelColor(entry.level) }}>
+                {LEVEL_LABELS[entry.level]} • {entry.category} •{' '}
+                {new Date(entry.timestamp).toLocaleString('pt-BR')}
+              </ThemedText>
+              <ThemedText type="defaultSemiBold">{entry.message}</ThemedText>
+              {entry.detail ? (
+                <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                  {entry.detail}
+                </ThemedText>
+              ) : null}
+            </View>
+          ))}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  card: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  log: {
+    borderTopWidth: 1,
+    paddingTop: 8,
+    gap: 2,
+  },
+});
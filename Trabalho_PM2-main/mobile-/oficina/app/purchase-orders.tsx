@@ -0,0 +1,674 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { Picker } from '@react-native-picker/picker';
+import { yupResolver } from '@hookform/resolvers/yup';
+
+import { BranchPickerField } from '@/components/branch-picker-field';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError, purchaseOrderFormSchema } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import {
+  PurchaseOrderError,
+  isAwaitingDelivery,
+  isOverdue,
+  pendingQuantity,
+  purchaseOrderTotal,
+} from '@/storage/purchase-orders';
+import { PurchaseOrder, PurchaseOrderStatus } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import { formatCurrency } from '@/utils/work-order';
+
+const statusDisplay: Record<PurchaseOrderStatus, string> = {
+  rascunho: 'Rascunho',
+  enviado: 'Enviado',
+  'parcialmente recebido': 'Parcialmente recebido',
+  recebido: 'Recebido',
+  cancelado: 'Cancelado',
+};
+
+type OrderItemFormValues = {
+  partId: string;
+  quantity: string;
+  unitCost: string;
+};
+
+type PurchaseOrderFormValues = {
+  branchId: string;
+  supplierId: string;
+  items: OrderItemFormValues[];
+  notes: string;
+};
+
+const defaultValues: PurchaseOrderFormValues = {
+  branchId: '',
+  supplierId: '',
+  items: [],
+  notes: '',
+};
+
+// Fields still being typed count as zero in the total shown while editing.
+const toAmount = (value: string) => Number(value) || 0;
+
+const showOrderError = (error: unknown) => {
+  if (
+    error instanceof EntityValidationError ||
+    error instanceof PermissionDeniedError ||
+    error instanceof PurchaseOrderError
+  ) {
+    Alert.alert('Pedido não atualizado', error.message);
+    return;
+  }
+  logger.error('storage', 'Erro ao atualizar pedido de compra', error);
+};
+
+export default function PurchaseOrdersScreen() {
+  const { colors } = useAppTheme();
+  const {
+    branches,
+    activeBranchId,
+    purchaseOrders,
+    parts,
+    suppliers,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    sendPurchaseOrder,
+    receivePurchaseOrder,
+    cancelPurchaseOrder,
+    deletePurchaseOrder,
+    can,
+  } = useData();
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [received, setReceived] = useState<string[]>([]);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<PurchaseOrderFormValues>({
+    defaultValues,
+    resolver: yupResolver(purchaseOrderFormSchema),
+  });
+  const {
+    fields: itemFields,
+    append: appendItem,
+    remove: removeItem,
+    replace: replaceItems,
+  } = useFieldArray({ control, name: 'items' });
+
+  const selectedBranchId = watch('branchId');
+  const selectedSupplierId = watch('supplierId');
+  const branchParts = parts.filter((part) => part.branchId === selectedBranchId);
+  const formTotal = purchaseOrderTotal(
+    watch('items').map((item) => ({
+      quantity: toAmount(item.quantity),
+      unitCost: toAmount(item.unitCost),
+    }))
+  );
+
+  const partNames = useMemo(() => new Map(parts.map((part) => [part.id, part.name])), [parts]);
+  const supplierNames = useMemo(
+    () => new Map(suppliers.map((supplier) => [supplier.id, supplier.company])),
+    [suppliers]
+  );
+
+  // Newest first, with the orders still waiting for parts on top.
+  const sortedOrders = useMemo(
+    () =>
+      [...purchaseOrders].sort(
+        (left, right) =>
+          Number(isAwaitingDelivery(right)) - Number(isAwaitingDelivery(left)) ||
+          right.createdAt.localeCompare(left.createdAt)
+      ),
+    [purchaseOrders]
+  );
+
+  const openCreateModal = () => {
+    setEditingOrder(null);
+    reset({ ...defaultValues, branchId: activeBranchId ?? branches[0]?.id ?? '' });
+    setIsModalVisible(true);
+  };
+
+  const openEditModal = (order: PurchaseOrder) => {
+    setEditingOrder(order);
+    reset({
+      branchId: order.branchId,
+      supplierId: order.supplierId,
+      items: order.items.map((item) => ({
+        partId: item.partId,
+        quantity: String(item.quantity),
+        unitCost: String(item.unitCost),
+      })),
+      notes: order.notes ?? '',
+    });
+    setIsModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setEditingOrder(null);
+  };
+
+  // Parts are stocked in a single unit.
+  const selectBranch = (branchId: string) => {
+    setValue('branchId', branchId);
+    replaceItems([]);
+  };
+
+  // Starts at the price the supplier charges for the part, when it is one of its suppliers.
+  const addItem = (partId: string) => {
+    const part = parts.find((item) => item.id === partId);
+    if (part) {
+      const link = part.suppliers.find((item) => item.supplierId === selectedSupplierId);
+      appendItem({ partId, quantity: '1', unitCost: String(link?.unitCost ?? part.unitCost) });
+    }
+  };
+
+  const onSubmit = handleSubmit(async (formValues) => {
+    const payload = {
+      branchId: formValues.branchId,
+      supplierId: formValues.supplierId,
+      items: formValues.items.map((item: OrderItemFormValues) => ({
+        partId: item.partId,
+        quantity: Number(item.quantity),
+        unitCost: Number(item.unitCost),
+      })),
+      notes: formValues.notes.trim() || undefined,
+    };
+    try {
+      if (editingOrder) {
+        await updatePurchaseOrder(editingOrder.id, payload);
+      } else {
+        await createPurchaseOrder(payload);
+      }
+    } catch (error) {
+      showOrderError(error);
+      return;
+    }
+    closeModal();
+  });
+
+  const confirmSend = (order: PurchaseOrder) => {
+    Alert.alert(
+      'Enviar pedido',
+      `Marcar o pedido para ${supplierNames.get(order.supplierId) ?? 'o fornecedor'} como ` +
+        'enviado? Depois disso ele não poderá ser editado.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Enviar', onPress: () => void sendPurchaseOrder(order.id).catch(showOrderError) },
+      ]
+    );
+  };
+
+  const confirmCancel = (order: PurchaseOrder) => {
+    Alert.alert('Cancelar pedido', 'O que já foi recebido continua no estoque.', [
+      { text: 'Voltar', style: 'cancel' },
+      {
+        text: 'Cancelar pedido',
+        style: 'destructive',
+        onPress: () => void cancelPurchaseOrder(order.id).catch(showOrderError),
+      },
+    ]);
+  };
+
+  const confirmDelete = (order: PurchaseOrder) => {
+    Alert.alert('Remover pedido', 'Confirmar exclusão deste pedido de compra?', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Excluir',
+        style: 'destructive',
+        onPress: () => void deletePurchaseOrder(order.id).catch(showOrderError),
+      },
+    ]);
+  };
+
+  const openReceiveModal = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setReceived(order.items.map((item) => String(pendingQuantity(item))));
+  };
+
+  const closeReceiveModal = () => {
+    setReceivingOrder(null);
+    setReceived([]);
+  };
+
+  const handleReceive = async () => {
+    if (!receivingOrder) {
+      return;
+    }
+    const quantities = received.map((value) => (value.trim() ? Number(value) : 0));
+    try {
+      await receivePurchaseOrder(receivingOrder.id, quantities);
+    } catch (error) {
+      showOrderError(error);
+      return;
+    }
+    closeReceiveModal();
+  };
+
+  const now = new Date().toISOString();
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={sortedOrders}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <Card style={styles.headerCard}>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Pedidos da unidade ativa. Ao receber um pedido, as peças entram no estoque e a data
+              do último pedido do fornecedor é atualizada.
+            </ThemedText>
+            {can('purchaseOrders.edit') ? (
+              <Button title="Novo pedido" onPress={openCreateModal} />
+            ) : null}
+          </Card>
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.itemCard} tone={isOverdue(item, now) ? 'accent' : 'default'}>
+            <View style={styles.itemHeader}>
+              <View style={styles.itemTitle}>
+                <ThemedText type="defaultSemiBold">
+                  {supplierNames.get(item.supplierId) ?? 'Fornecedor removido'}
+                </ThemedText>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Criado em {new Date(item.createdAt).toLocaleDateString('pt-BR')} •{' '}
+                  {formatCurrency(purchaseOrderTotal(item.items))}
+                </ThemedText>
+              </View>
+              <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                {statusDisplay[item.status]}
+              </ThemedText>
+            </View>
+
+            <View style={styles.lines}>
+              {item.items.map((line, index) => (
+                <ThemedText key={index} type="caption" style={{ color: colors.textSecondary }}>
+                  {partNames.get(line.partId) ?? 'Peça removida'} • {line.receivedQuantity}/
+                  {line.quantity} recebida(s) • {formatCurrency(line.unitCost)} cada
+                </ThemedText>
+              ))}
+            </View>
+
+            {item.expectedAt && isAwaitingDelivery(item) ? (
+              <ThemedText
+                type="caption"
+                style={{ color: isOverdue(item, now) ? colors.warning : colors.muted }}>
+                {isOverdue(item, now) ? 'Atrasado: previsto para ' : 'Entrega prevista para '}
+                {new Date(item.expectedAt).toLocaleDateString('pt-BR')}
+              </ThemedText>
+            ) : null}
+            {item.receivedAt ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Recebido em {new Date(item.receivedAt).toLocaleDateString('pt-BR')}
+              </ThemedText>
+            ) : null}
+            {item.notes ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {item.notes}
+              </ThemedText>
+            ) : null}
+
+            <View style={styles.itemActions}>
+              {can('purchaseOrders.edit') && item.status === 'rascunho' ? (
+                <>
+                  <Button title="Enviar" variant="secondary" onPress={() => confirmSend(item)} />
+                  <Button title="Editar" variant="ghost" onPress={() => openEditModal(item)} />
+                </>
+              ) : null}
+              {can('purchaseOrders.edit') && isAwaitingDelivery(item) ? (
+                <Button
+                  title="Receber"
+                  variant="secondary"
+                  onPress={() => openReceiveModal(item)}
+                />
+              ) : null}
+              {can('purchaseOrders.edit') &&
+              (item.status === 'rascunho' || isAwaitingDelivery(item)) ? (
+                <Button
+                  title="Cancelar pedido"
+                  variant="ghost"
+                  onPress={() => confirmCancel(item)}
+                />
+              ) : null}
+              {can('purchaseOrders.delete') ? (
+                <Button title="Excluir" variant="ghost" onPress={() => confirmDelete(item)} />
+              ) : null}
+            </View>
+          </Card>
+        )}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+        ListEmptyComponent={
+          <ThemedText type="caption" style={{ color: colors.muted, textAlign: 'center' }}>
+            Nenhum pedido de compra nesta unidade.
+          </ThemedText>
+        }
+      />
+
+      <Modal transparent visible={isModalVisible} animationType="slide" onRequestClose={closeModal}>
+        <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+          <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <ThemedText type="subtitle">
+                {editingOrder ? 'Editar pedido' : 'Novo pedido'}
+              </ThemedText>
+              <Pressable onPress={closeModal}>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Fechar
+                </ThemedText>
+              </Pressable>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.form}>
+              <Controller
+                control={control}
+                name="branchId"
+                render={({ field: { value } }) => (
+                  <BranchPickerField
+                    value={value}
+                    onChange={selectBranch}
+                    error={errors.branchId?.message}
+                  />
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="supplierId"
+                render={({ field: { onChange, value } }) => (
+                  <View style={styles.pickerWrapper}>
+                    <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                      Fornecedor
+                    </ThemedText>
+                    <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                      <Picker selectedValue={value} onValueChange={onChange}>
+                        <Picker.Item label="Selecione o fornecedor" value="" />
+                        {suppliers.map((supplier) => (
+                          <Picker.Item
+                            key={supplier.id}
+                            label={`${supplier.company} • ${supplier.leadTimeDays} dia(s)`}
+                            value={supplier.id}
+                          />
+                        ))}
+                      </Picker>
+                    </View>
+                    {errors.supplierId?.message ? (
+                      <ThemedText type="caption" style={{ color: colors.destructive }}>
+                        {errors.supplierId.message}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                )}
+              />
+
+              <View style={styles.pickerWrapper}>
+                <ThemedText type="defaultSemiBold" style={styles.pickerLabel}>
+                  Peças
+                </ThemedText>
+                {itemFields.map((field, index) => (
+                  <View key={field.id} style={[styles.lineItem, { borderColor: colors.border }]}>
+                    <View style={styles.lineItemHeader}>
+                      <ThemedText type="defaultSemiBold" style={styles.lineLabel}>
+                        {partNames.get(field.partId) ?? 'Peça removida'}
+                      </ThemedText>
+                      <Pressable onPress={() => removeItem(index)}>
+                        <ThemedText type="caption" style={{ color: colors.destructive }}>
+                          Remover
+                        </ThemedText>
+                      </Pressable>
+                    </View>
+                    <View style={styles.lineItemFields}>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`items.${index}.quantity`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Quantidade"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.items?.[index]?.quantity?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                      <View style={styles.lineItemField}>
+                        <Controller
+                          control={control}
+                          name={`items.${index}.unitCost`}
+                          render={({ field: { onChange, value } }) => (
+                            <TextField
+                              label="Custo unitário"
+                              placeholder="0.00"
+                              keyboardType="numeric"
+                              value={value}
+                              onChangeText={onChange}
+                              error={errors.items?.[index]?.unitCost?.message}
+                            />
+                          )}
+                        />
+                      </View>
+                    </View>
+                  </View>
+                ))}
+                <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                  <Picker selectedValue="" onValueChange={addItem}>
+                    <Picker.Item label="Adicionar peça..." value="" />
+                    {branchParts
+                      .filter((part) => itemFields.every((field) => field.partId !== part.id))
+                      .map((part) => (
+                        <Picker.Item
+                          key={part.id}
+                          label={`${part.name} • ${part.code} • ${part.quantity} em estoque`}
+                          value={part.id}
+                        />
+                      ))}
+                  </Picker>
+                </View>
+                {errors.items?.message ? (
+                  <ThemedText type="caption" style={{ color: colors.destructive }}>
+                    {errors.items.message}
+                  </ThemedText>
+                ) : null}
+              </View>
+
+              <Controller
+                control={control}
+                name="notes"
+                render={({ field: { onChange, value } }) => (
+                  <TextField
+                    label="Observações"
+                    placeholder="Ex: Cotação 552, entregar pela manhã"
+                    value={value}
+                    onChangeText={onChange}
+                  />
+                )}
+              />
+
+              <View style={[styles.totalRow, { borderColor: colors.border }]}>
+                <ThemedText type="defaultSemiBold">Total</ThemedText>
+                <ThemedText type="defaultSemiBold">{formatCurrency(formTotal)}</ThemedText>
+              </View>
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <Button title="Cancelar" variant="ghost" onPress={closeModal} />
+              <Button title={editingOrder ? 'Atualizar' : 'Salvar rascunho'} onPress={onSubmit} />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        transparent
+        visible={!!receivingOrder}
+        animationType="slide"
+        onRequestClose={closeReceiveModal}>
+        <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+          <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+            <View style={styles.modalHeader}>
+              <ThemedText type="subtitle">Receber pedido</ThemedText>
+              <Pressable onPress={closeReceiveModal}>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  Fechar
+                </ThemedText>
+              </Pressable>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.form}>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Informe quantas unidades chegaram de cada peça. O que faltar continua pendente.
+              </ThemedText>
+              {receivingOrder?.items.map((line, index) => (
+                <View key={index} style={[styles.lineItem, { borderColor: colors.border }]}>
+                  <ThemedText type="defaultSemiBold">
+                    {partNames.get(line.partId) ?? 'Peça removida'}
+                  </ThemedText>
+                  <TextField
+                    label={`Recebidas (pendente ${pendingQuantity(line)})`}
+                    placeholder="0"
+                    keyboardType="numeric"
+                    value={received[index] ?? ''}
+                    onChangeText={(value) =>
+                      setReceived((current) =>
+                        current.map((item, position) => (position === index ? value : item))
+                      )
+                    }
+                  />
+                </View>
+              ))}
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <Button title="Cancelar" variant="ghost" onPress={closeReceiveModal} />
+              <Button title="Confirmar recebimento" onPress={() => void handleReceive()} />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  headerCard: {
+    gap: 12,
+    marginBottom: 4,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  itemTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  lines: {
+    gap: 4,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  form: {
+    gap: 14,
+    paddingBottom: 16,
+  },
+  pickerWrapper: {
+    gap: 6,
+  },
+  pickerLabel: {
+    fontSize: 14,
+    letterSpacing: 0.3,
+    textTransform: 'uppercase',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  lineItem: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 10,
+  },
+  lineItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  lineItemFields: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  lineItemField: {
+    flex: 1,
+  },
+  lineLabel: {
+    flex: 1,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+});
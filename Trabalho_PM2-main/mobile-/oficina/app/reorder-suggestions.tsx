@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { Alert, FlatList, SafeAreaView, StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import {
+  CONSUMPTION_WINDOW_DAYS,
+  COVERAGE_DAYS,
+  draftOrders,
+  reorderSuggestions,
+} from '@/storage/replenishment';
+import { UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import { formatCurrency } from '@/utils/work-order';
+
+export default function ReorderSuggestionsScreen() {
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const {
+    parts,
+    suppliers,
+    stockMovements,
+    purchaseOrders,
+    reservedStock,
+    createPurchaseOrders,
+    can,
+  } = useData();
+  // Quantities the operator changed, by part; the rest keep the suggested amount.
+  const [quantities, setQuantities] = useState<Record<UUID, string>>({});
+
+  const suggestions = useMemo(
+    () =>
+      reorderSuggestions({
+        parts,
+        suppliers,
+        movements: stockMovements,
+        orders: purchaseOrders,
+        reserved: reservedStock,
+        now: new Date().toISOString(),
+      }),
+    [parts, purchaseOrders, reservedStock, stockMovements, suppliers]
+  );
+
+  const chosen = suggestions.map((suggestion) => {
+    const value = quantities[suggestion.part.id];
+    return value === undefined ? suggestion : { ...suggestion, quantity: Number(value) || 0 };
+  });
+  const orders = draftOrders(chosen);
+
+  const generateOrders = async () => {
+    try {
+      await createPurchaseOrders(orders);
+    } catch (error) {
+      if (error instanceof EntityValidationError || error instanceof PermissionDeniedError) {
+        Alert.alert('Pedidos não gerados', error.message);
+        return;
+      }
+      logger.error('storage', 'Erro ao gerar pedidos de compra', error);
+      Alert.alert(
+        'Pedidos não gerados',
+        'Não foi possível salvar os pedidos. Confira a tela de pedidos e tente novamente.'
+      );
+      return;
+    }
+    setQuantities({});
+    router.navigate('/purchase-orders');
+  };
+
+  const confirmGenerate = () => {
+    if (!orders.length) {
+      Alert.alert(
+        'Nenhum pedido a gerar',
+        'Informe a quantidade de ao menos uma peça com fornecedor vinculado.'
+      );
+      return;
+    }
+    Alert.alert(
+      'Gerar pedidos',
+      `Serão criados ${orders.length} pedido(s) em rascunho, um por fornecedor. ` +
+        'Revise e envie cada um na tela de pedidos.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Gerar', onPress: () => void generateOrders() },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={chosen}
+        keyExtractor={(item) => item.part.id}
+        ListHeaderComponent={
+          <Card style={styles.headerCard}>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Peças que chegarão ao estoque mínimo antes que um novo pedido seja entregue. O
+              consumo é a média dos últimos {CONSUMPTION_WINDOW_DAYS} dias de revisões, e a
+              quantidade sugerida cobre o prazo do fornecedor e mais {COVERAGE_DAYS} dias.
+            </ThemedText>
+            {can('purchaseOrders.edit') ? (
+              <Button title="Gerar pedidos em rascunho" onPress={confirmGenerate} />
+            ) : null}
+          </Card>
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.itemCard}>
+            <View style={styles.itemTitle}>
+              <ThemedText type="defaultSemiBold">{item.part.name}</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {item.part.code} • {item.available} disponível(is) • mínimo {item.part.minStock}
+                {item.incoming ? ` • ${item.incoming} em pedidos abertos` : ''}
+              </ThemedText>
+            </View>
+            <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+              {item.dailyConsumption > 0
+                ? `Consumo de ${item.dailyConsumption.toFixed(2)} por dia`
+                : 'Sem consumo em revisões no período'}
+              {item.stockOutAt
+                ? ` • acaba em ${new Date(item.stockOutAt).toLocaleDateString('pt-BR')}`
+                : ''}
+            </ThemedText>
+            <ThemedText
+              type="caption"
+              style={{ color: item.supplier ? colors.textSecondary : colors.warning }}>
+              {item.supplier
+                ? `${item.supplier.company} • prazo de ${item.supplier.leadTimeDays} dia(s) • ` +
+                  `${formatCurrency(item.unitCost)} cada`
+                : 'Sem fornecedor vinculado; não entra nos pedidos gerados.'}
+            </ThemedText>
+            <TextField
+              label="Quantidade a pedir"
+              keyboardType="numeric"
+              value={quantities[item.part.id] ?? String(item.quantity)}
+              onChangeText={(value) =>
+                setQuantities((current) => ({ ...current, [item.part.id]: value }))
+              }
+            />
+          </Card>
+        )}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+        ListEmptyComponent={
+          <ThemedText type="caption" style={{ color: colors.muted, textAlign: 'center' }}>
+            Nenhuma peça precisa de reposição agora.
+          </ThemedText>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  headerCard: {
+    gap: 12,
+    marginBottom: 4,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  itemTitle: {
+    gap: 4,
+  },
+});
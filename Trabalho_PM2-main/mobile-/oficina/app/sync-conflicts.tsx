@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { FlatList, Pressable, SafeAreaView, StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { ENTITY_LABELS, FIELD_LABELS, STOCK_MOVEMENT_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { SyncConflict } from '@/storage/sync';
+import { UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import { formatValue } from '@/utils/text';
+
+export default function SyncConflictsScreen() {
+  const { colors } = useAppTheme();
+  const data = useData();
+  const { syncConflicts, resolveSyncConflict } = data;
+  // Fields where the operator picked this device's value, per conflict.
+  const [keepLocal, setKeepLocal] = useState<Record<UUID, string[]>>({});
+  const [resolving, setResolving] = useState<UUID | null>(null);
+
+  const describeRecord = ({ entity, recordId }: SyncConflict) => {
+    const record = data[entity].find((item) => item.id === recordId);
+    if (!record) {
+      return 'Registro excluído';
+    }
+    if ('clientName' in record) {
+      return `${record.clientName} • ${record.licensePlate}`;
+    }
+    if ('company' in record) {
+      return record.company;
+    }
+    if ('balance' in record) {
+      return `${STOCK_MOVEMENT_LABELS[record.type]} • ${record.reason}`;
+    }
+    if ('supplierId' in record) {
+      return `Pedido de ${new Date(record.createdAt).toLocaleDateString('pt-BR')}`;
+    }
+    return 'code' in record ? `${record.name} • ${record.code}` : record.name;
+  };
+
+  const choose = (conflictId: UUID, field: string, local: boolean) => {
+    setKeepLocal((current) => {
+      const fields = (current[conflictId] ?? []).filter((item) => item !== field);
+      return { ...current, [conflictId]: local ? [...fields, field] : fields };
+    });
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolving(conflict.id);
+    try {
+      await resolveSyncConflict(conflict.id, keepLocal[conflict.id] ?? []);
+    } catch (error) {
+      logger.error('sync', 'Erro ao resolver conflito', error);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const renderOption = (conflict: SyncConflict, field: string, local: boolean, value: unknown) => {
+    const selected = (keepLocal[conflict.id] ?? []).includes(field) === local;
+    return (
+      <Pressable
+        onPress={() => choose(conflict.id, field, local)}
+        style={[
+          styles.option,
+          {
+            borderColor: selected ? colors.accent : colors.border,
+            backgroundColor: selected ? colors.accentSoft : 'transparent',
+          },
+        ]}>
+        <ThemedText type="caption" style={{ color: colors.muted }}>
+          {local ? 'Este aparelho' : 'Servidor'}
+        </ThemedText>
+        <ThemedText>{formatValue(value)}</ThemedText>
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={syncConflicts}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            Estes campos foram alterados neste aparelho e em outro ao mesmo tempo. O valor do
+            servidor foi mantido; escolha qual deve prevalecer.
+          </ThemedText>
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.itemCard}>
+            <View>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {ENTITY_LABELS[item.entity]}
+              </ThemedText>
+              <ThemedText type="defaultSemiBold">{describeRecord(item)}</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Detectado em {new Date(item.detectedAt).toLocaleString('pt-BR')}
+              </ThemedText>
+            </View>
+            {item.fields.map((field) => (
+              <View key={field.field} style={styles.field}>
+                <ThemedText type="defaultSemiBold">
+                  {FIELD_LABELS[field.field] ?? field.field}
+                </ThemedText>
+                <View style={styles.options}>
+                  {renderOption(item, field.field, true, field.local)}
+                  {renderOption(item, field.field, false, field.remote)}
+                </View>
+              </View>
+            ))}
+            <Button
+              title={resolving === item.id ? 'Aplicando...' : 'Aplicar escolhas'}
+              onPress={() => void handleResolve(item)}
+            />
+          </Card>
+        )}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+        ListEmptyComponent={
+          <ThemedText type="caption" style={{ color: colors.muted, textAlign: 'center' }}>
+            Nenhum conflito pendente.
+          </ThemedText>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  field: {
+    gap: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    gap: 2,
+  },
+});
@@ -0,0 +1,157 @@
+import { Alert, FlatList, SafeAreaView, StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { TrashedRecord, useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError } from '@/schemas/entities';
+import { ReferentialIntegrityError } from '@/storage/integrity';
+import { logger } from '@/utils/logger';
+
+const RETENTION_OPTIONS = [7, 30, 90];
+
+const describeRecord = ({ entity, record }: TrashedRecord) => {
+  switch (entity) {
+    case 'parts':
+      return `${record.name} • ${record.code}`;
+    case 'revisions':
+      return `${record.clientName} • ${record.licensePlate}`;
+    case 'suppliers':
+      return record.company;
+    case 'purchaseOrders':
+      return `Pedido de ${new Date(record.createdAt).toLocaleDateString('pt-BR')}`;
+    default:
+      return record.name;
+  }
+};
+
+export default function TrashScreen() {
+  const { colors } = useAppTheme();
+  const { trash, restoreRecord, purgeRecord, trashRetentionDays, setTrashRetentionDays, can } =
+    useData();
+
+  const confirmPurge = (item: TrashedRecord) => {
+    Alert.alert(
+      'Excluir definitivamente',
+      `${describeRecord(item)} será apagado sem possibilidade de recuperação.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: () =>
+            purgeRecord(item.entity, item.record.id).catch((error) => {
+              if (error instanceof ReferentialIntegrityError) {
+                Alert.alert('Exclusão bloqueada', error.message);
+                return;
+              }
+              throw error;
+            }),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={trash}
+        keyExtractor={(item) => `${item.entity}:${item.record.id}`}
+        ListHeaderComponent={
+          <Card style={styles.headerCard}>
+            <ThemedText type="subtitle">Retenção</ThemedText>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Registros excluídos ficam aqui por {trashRetentionDays} dias e depois são apagados
+              automaticamente.
+            </ThemedText>
+            {can('data.manage') ? (
+              <View style={styles.retentionOptions}>
+                {RETENTION_OPTIONS.map((days) => (
+                  <Button
+                    key={days}
+                    title={`${days} dias`}
+                    variant={days === trashRetentionDays ? 'primary' : 'secondary'}
+                    onPress={() => void setTrashRetentionDays(days)}
+                  />
+                ))}
+              </View>
+            ) : null}
+          </Card>
+        }
+        renderItem={({ item }) => (
+          <Card style={styles.itemCard}>
+            <View>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {ENTITY_LABELS[item.entity]}
+              </ThemedText>
+              <ThemedText type="defaultSemiBold">{describeRecord(item)}</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Excluído em {new Date(item.record.deletedAt!).toLocaleString('pt-BR')}
+              </ThemedText>
+            </View>
+            <View style={styles.itemActions}>
+              {can(`${item.entity}.delete`) ? (
+                <Button
+                  title="Restaurar"
+                  variant="secondary"
+                  onPress={() =>
+                    void restoreRecord(item.entity, item.record.id).catch((error) => {
+                      if (error instanceof EntityValidationError) {
+                        Alert.alert('Restauração bloqueada', error.message);
+                        return;
+                      }
+                      logger.error('storage', 'Erro ao restaurar registro', error);
+                    })
+                  }
+                />
+              ) : null}
+              {can('data.manage') ? (
+                <Button
+                  title="Excluir definitivamente"
+                  variant="ghost"
+                  onPress={() => confirmPurge(item)}
+                />
+              ) : null}
+            </View>
+          </Card>
+        )}
+        contentContainerStyle={[styles.listContent, { backgroundColor: colors.background }]}
+        ListEmptyComponent={
+          <ThemedText type="caption" style={{ color: colors.muted, textAlign: 'center' }}>
+            A lixeira está vazia.
+          </ThemedText>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 100,
+    gap: 16,
+  },
+  headerCard: {
+    gap: 12,
+    marginBottom: 4,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  itemCard: {
+    gap: 12,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+});
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { FIELD_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityName } from '@/storage/repository';
+import { AuditAction, AuditEntry, UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+import { formatValue } from '@/utils/text';
+
+export type AuditTarget = {
+  entity: EntityName;
+  recordId: UUID;
+  title: string;
+};
+
+export type AuditHistoryModalProps = {
+  target: AuditTarget | null;
+  onClose: () => void;
+};
+
+const actionDisplay: Record<AuditAction, string> = {
+  create: 'Cadastro',
+  update: 'Alteração',
+  delete: 'Enviado para a lixeira',
+  restore: 'Restauração',
+  purge: 'Exclusão definitiva',
+  import: 'Restaurado de um backup',
+};
+
+export function AuditHistoryModal({ target, onClose }: AuditHistoryModalProps) {
+  const { colors } = useAppTheme();
+  const { getAuditTrail, allTeam } = useData();
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!target) {
+      return;
+    }
+    let active = true;
+    setEntries(null);
+    getAuditTrail(target.entity, target.recordId)
+      .catch((error) => {
+        logger.error('storage', 'Erro ao carregar histórico', error);
+        return [];
+      })
+      .then((trail) => {
+        if (active) {
+          setEntries(trail);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [getAuditTrail, target]);
+
+  const actorName = (actorId?: UUID) => {
+    if (!actorId) {
+      return 'Operador não definido';
+    }
+    return allTeam.find((member) => member.id === actorId)?.name ?? 'Membro removido';
+  };
+
+  return (
+    <Modal transparent visible={!!target} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalTitle}>
+              <ThemedText type="subtitle">Histórico</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {target?.title}
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose}>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Fechar
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {entries === null ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Carregando...
+              </ThemedText>
+            ) : entries.length === 0 ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Nenhuma alteração registrada.
+              </ThemedText>
+            ) : (
+              entries.map((entry) => (
+                <View key={entry.id} style={[styles.entry, { borderColor: colors.border }]}>
+                  <View style={styles.entryHeader}>
+                    <ThemedText type="defaultSemiBold">{actionDisplay[entry.action]}</ThemedText>
+                    <ThemedText type="caption" style={{ color: colors.muted }}>
+                      {new Date(entry.timestamp).toLocaleString('pt-BR')}
+                    </ThemedText>
+                  </View>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    Por: {actorName(entry.actorId)}
+                  </ThemedText>
+                  {entry.action === 'update'
+                    ? entry.changes.map((change) => (
+                        <ThemedText
+                          key={change.field}
+                          type="caption"
+                          style={{ color: colors.textSecondary }}>
+                          {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.before)} → {formatValue(change.after)}
+                        </ThemedText>
+                      ))
+                    : null}
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  list: {
+    gap: 12,
+    paddingBottom: 16,
+  },
+  entry: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 4,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
@@ -0,0 +1,45 @@
+import { SafeAreaView, StyleSheet } from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { useAppTheme } from '@/providers/theme-provider';
+
+export type BootstrapErrorProps = {
+  message: string;
+  onRetry: () => void;
+  /** Offered when the data was opened by a signed-in member, who may try another account. */
+  onSignOut?: () => void;
+};
+
+export function BootstrapError({ message, onRetry, onSignOut }: BootstrapErrorProps) {
+  const { colors } = useAppTheme();
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <Card style={styles.card}>
+        <ThemedText type="subtitle">Não foi possível abrir os dados</ThemedText>
+        <ThemedText type="caption" style={{ color: colors.muted }}>
+          A leitura dos dados salvos falhou e nada foi alterado. Tente novamente; se o erro
+          persistir, envie a mensagem abaixo para o suporte.
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: colors.destructive }}>
+          {message}
+        </ThemedText>
+        <Button title="Tentar novamente" onPress={onRetry} />
+        {onSignOut ? <Button title="Sair" variant="ghost" onPress={onSignOut} /> : null}
+      </Card>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    gap: 16,
+  },
+});
@@ -0,0 +1,54 @@
+import { StyleSheet, View } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+
+export type BranchPickerFieldProps = {
+  value: string;
+  onChange: (branchId: string) => void;
+  error?: string;
+};
+
+/** Form field choosing the unit a record belongs to. */
+export function BranchPickerField({ value, onChange, error }: BranchPickerFieldProps) {
+  const { colors } = useAppTheme();
+  const { branches } = useData();
+
+  return (
+    <View style={styles.wrapper}>
+      <ThemedText type="defaultSemiBold" style={styles.label}>
+        Unidade
+      </ThemedText>
+      <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+        <Picker selectedValue={value} onValueChange={onChange}>
+          <Picker.Item label="Selecione a unidade" value="" />
+          {branches.map((branch) => (
+            <Picker.Item key={branch.id} label={branch.name} value={branch.id} />
+          ))}
+        </Picker>
+      </View>
+      {error ? (
+        <ThemedText type="caption" style={{ color: colors.destructive }}>
+          {error}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrapper: {
+    gap: 6,
+  },
+  label: {
+    fontSize: 14,
+    letterSpacing: 0.3,
+    textTransform: 'uppercase',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 14,
+  },
+});
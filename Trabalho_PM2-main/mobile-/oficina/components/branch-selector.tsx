@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { Modal, Pressable, StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { UUID } from '@/types/entities';
+
+/** Header control that scopes parts, revisions and team to one unit, or shows them all. */
+export function BranchSelector() {
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { branches, activeBranchId, setActiveBranch } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const activeBranch = branches.find((branch) => branch.id === activeBranchId);
+
+  const select = (id: UUID | null) => {
+    setIsOpen(false);
+    void setActiveBranch(id);
+  };
+
+  const manage = () => {
+    setIsOpen(false);
+    router.navigate('/branches');
+  };
+
+  const renderOption = (id: UUID | null, label: string, detail?: string) => {
+    const selected = id === (activeBranch?.id ?? null);
+    return (
+      <Pressable
+        key={id ?? 'all'}
+        onPress={() => select(id)}
+        style={[
+          styles.option,
+          {
+            borderColor: selected ? colors.accent : colors.border,
+            backgroundColor: selected ? colors.accentSoft : 'transparent',
+          },
+        ]}>
+        <ThemedText type="defaultSemiBold">{label}</ThemedText>
+        {detail ? (
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            {detail}
+          </ThemedText>
+        ) : null}
+      </Pressable>
+    );
+  };
+
+  return (
+    <>
+      <Pressable
+        onPress={() => setIsOpen(true)}
+        style={({ pressed }) => [styles.button, pressed && { opacity: 0.8 }]}>
+        <View
+          style={[
+            styles.iconBadge,
+            { backgroundColor: colors.accentSoft, borderColor: colors.accent },
+          ]}>
+          <MaterialIcons name="store" size={18} color={colors.accent} />
+        </View>
+        <ThemedText type="caption" style={styles.caption} numberOfLines={1}>
+          {activeBranch?.name ?? 'Todas'}
+        </ThemedText>
+      </Pressable>
+
+      <Modal
+        transparent
+        visible={isOpen}
+        animationType="fade"
+        onRequestClose={() => setIsOpen(false)}>
+        <Pressable
+          style={[styles.overlay, { backgroundColor: colors.overlay }]}
+          onPress={() => setIsOpen(false)}>
+          <View style={[styles.card, { backgroundColor: colors.surface }]}>
+            <ThemedText type="subtitle">Unidade</ThemedText>
+            {renderOption(null, 'Todas as unidades', 'Visão consolidada')}
+            {branches.map((branch) => renderOption(branch.id, branch.name, branch.address))}
+            <Pressable onPress={manage}>
+              <ThemedText type="caption" style={{ color: colors.accent }}>
+                Gerenciar unidades
+              </ThemedText>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    maxWidth: 96,
+  },
+  iconBadge: {
+    borderRadius: 999,
+    padding: 10,
+    borderWidth: 1,
+  },
+  caption: {
+    letterSpacing: 0.4,
+    textTransform: 'uppercase',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 12,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 2,
+  },
+});
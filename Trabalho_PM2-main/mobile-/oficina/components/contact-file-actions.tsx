@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Alert, StyleSheet, View } from 'react-native';
+
+import { ContactsFile, ContactsImportModal } from '@/components/contacts-import-modal';
+import { Button } from '@/components/ui/button';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { Client, Supplier, UUID } from '@/types/entities';
+import {
+  CONTACT_FILE_MIME_TYPES,
+  ContactEntity,
+  ContactFileError,
+  contactsToVCard,
+  readContactFile,
+} from '@/utils/contacts';
+import { logger } from '@/utils/logger';
+import { pickTextFile, shareTextFile } from '@/utils/share-file';
+import { VCARD_MIME_TYPE } from '@/utils/vcard';
+
+export type ContactFileActionsProps = {
+  entity: ContactEntity;
+  /** Records the selection refers to. */
+  records: (Client | Supplier)[];
+  selectedIds: Set<UUID> | null;
+  onStartSelection: () => void;
+  onStopSelection: () => void;
+};
+
+/** Import from vCard/CSV and export of the selected contacts to vCard. */
+export function ContactFileActions({
+  entity,
+  records,
+  selectedIds,
+  onStartSelection,
+  onStopSelection,
+}: ContactFileActionsProps) {
+  const { colors } = useAppTheme();
+  const { can } = useData();
+  const [file, setFile] = useState<ContactsFile | null>(null);
+
+  const handleImport = async () => {
+    try {
+      const picked = await pickTextFile(CONTACT_FILE_MIME_TYPES);
+      if (picked) {
+        setFile({ name: picked.name, drafts: readContactFile(picked.contents) });
+      }
+    } catch (error) {
+      if (error instanceof ContactFileError) {
+        Alert.alert('Arquivo inválido', error.message);
+        return;
+      }
+      logger.error('files', 'Erro ao ler contatos', error);
+      Alert.alert('Falha ao importar', 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const handleExport = async () => {
+    const selected = records.filter((record) => selectedIds?.has(record.id));
+    if (!selected.length) {
+      Alert.alert('Nenhum contato selecionado', 'Toque nos cartões para escolher os contatos.');
+      return;
+    }
+    try {
+      await shareTextFile(
+        `${entity === 'clients' ? 'clientes' : 'fornecedores'}.vcf`,
+        contactsToVCard(selected),
+        VCARD_MIME_TYPE
+      );
+      onStopSelection();
+    } catch (error) {
+      logger.error('files', 'Erro ao exportar contatos', error);
+      Alert.alert('Falha ao exportar', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <>
+      {selectedIds ? (
+        <View style={styles.actions}>
+          <ThemedText type="caption" style={{ color: colors.muted }}>
+            {selectedIds.size} selecionado(s)
+          </ThemedText>
+          <Button title="Exportar vCard" onPress={() => void handleExport()} />
+          <Button title="Cancelar" variant="ghost" onPress={onStopSelection} />
+        </View>
+      ) : (
+        <View style={styles.actions}>
+          {can(`${entity}.edit`) ? (
+            <Button
+              title="Importar contatos"
+              variant="secondary"
+              onPress={() => void handleImport()}
+            />
+          ) : null}
+          <Button title="Exportar vCard" variant="ghost" onPress={onStartSelection} />
+        </View>
+      )}
+      <ContactsImportModal entity={entity} file={file} onClose={() => setFile(null)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 12,
+  },
+});
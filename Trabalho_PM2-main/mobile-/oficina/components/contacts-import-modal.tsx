@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { Alert, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { Button } from '@/components/ui/button';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { ContactDraft, ContactEntity, prepareContactImport } from '@/utils/contacts';
+import { nowIso } from '@/utils/id';
+import { logger } from '@/utils/logger';
+
+export type ContactsFile = {
+  name: string;
+  drafts: ContactDraft[];
+};
+
+export type ContactsImportModalProps = {
+  entity: ContactEntity;
+  file: ContactsFile | null;
+  onClose: () => void;
+};
+
+const PREVIEW_LIMIT = 100;
+
+export function ContactsImportModal({ entity, file, onClose }: ContactsImportModalProps) {
+  const { colors } = useAppTheme();
+  const data = useData();
+  const { importContacts } = data;
+  const existing = data[entity];
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(
+    () => (file ? prepareContactImport(entity, file.drafts, existing, nowIso()) : []),
+    [entity, existing, file]
+  );
+  const importable = rows.filter((row) => !row.issues.length && !row.duplicateOf);
+  const duplicates = rows.filter((row) => !row.issues.length && row.duplicateOf).length;
+
+  const handleImport = async () => {
+    if (isImporting || !importable.length) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      await importContacts(
+        entity,
+        importable.map((row) => row.input)
+      );
+      Alert.alert('Importação concluída', `${importable.length} contato(s) cadastrado(s).`);
+      onClose();
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Revise os dados', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      logger.error('files', 'Erro ao importar contatos', error);
+      Alert.alert('Falha ao importar', 'Não foi possível salvar os contatos.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal transparent visible={!!file} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalTitle}>
+              <ThemedText type="subtitle">Importar contatos</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {file?.name}
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose}>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Fechar
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+            {importable.length} novo(s), {duplicates} duplicado(s) ignorado(s),{' '}
+            {rows.length - importable.length - duplicates} com erro.
+          </ThemedText>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {rows.slice(0, PREVIEW_LIMIT).map((row, index) => (
+              <View key={index} style={[styles.row, { borderColor: colors.border }]}>
+                <ThemedText type="defaultSemiBold">
+                  {row.draft.name || row.draft.company || 'Sem nome'}
+                </ThemedText>
+                <ThemedText type="caption" style={{ color: colors.muted }}>
+                  {[row.draft.company, row.draft.phone, row.draft.email]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </ThemedText>
+                {row.issues.length ? (
+                  row.issues.map((issue) => (
+                    <ThemedText key={issue} type="caption" style={{ color: colors.destructive }}>
+                      {issue}
+                    </ThemedText>
+                  ))
+                ) : row.duplicateOf ? (
+                  <ThemedText type="caption" style={{ color: colors.warning }}>
+                    Já cadastrado como {row.duplicateOf}
+                  </ThemedText>
+                ) : (
+                  <ThemedText type="caption" style={{ color: colors.success }}>
+                    Novo contato
+                  </ThemedText>
+                )}
+              </View>
+            ))}
+            {rows.length > PREVIEW_LIMIT ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                ... e mais {rows.length - PREVIEW_LIMIT} contato(s).
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <Button
+            title={isImporting ? 'Importando...' : `Importar ${importable.length} contato(s)`}
+            onPress={() => void handleImport()}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  list: {
+    gap: 12,
+    paddingBottom: 16,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 4,
+  },
+});
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Pressable, SafeAreaView, ScrollView, StyleSheet, View } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { ROLE_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { AccountError, MIN_PIN_LENGTH } from '@/storage/accounts';
+import { UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+
+/**
+ * Shown instead of the tabs until a member signs in. A device without accounts asks for the
+ * first one, which becomes its administrator. While the data is encrypted, members are listed
+ * from their accounts, since the team itself is only read after signing in.
+ */
+export function LoginScreen() {
+  const { colors } = useAppTheme();
+  const { isReady, isLocked, sessionNotice, accounts, allTeam, branches, signIn, createAccount } =
+    useData();
+  const [memberId, setMemberId] = useState<UUID>('');
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isFirstAccess = !accounts.length;
+  const members = allTeam.filter((member) => member.active);
+  const options = accounts
+    .map((account) => ({ account, member: allTeam.find((item) => item.id === account.memberId) }))
+    .filter(({ member }) => isLocked || member?.active);
+
+  const branchName = (branchId: UUID) =>
+    branches.find((branch) => branch.id === branchId)?.name ?? 'Unidade removida';
+
+  const submit = async () => {
+    if (isBusy) {
+      return;
+    }
+    if (!memberId) {
+      setError('Selecione o colaborador.');
+      return;
+    }
+    if (isFirstAccess && pin !== confirmation) {
+      setError('Os PINs informados não conferem.');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (isFirstAccess) {
+        await createAccount(memberId, pin, true);
+      }
+      await signIn(memberId, pin);
+    } catch (caught) {
+      if (!(caught instanceof AccountError)) {
+        logger.error('auth', 'Erro ao entrar', caught);
+      }
+      setError(caught instanceof Error ? caught.message : String(caught));
+      setPin('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Card style={styles.card}>
+          <ThemedText type="title">RedCar Oficina</ThemedText>
+          {!isReady && !isLocked ? (
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Carregando dados...
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText type="subtitle">
+                {isFirstAccess ? 'Primeiro acesso' : 'Entrar'}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {isFirstAccess
+                  ? 'Escolha o colaborador que administrará este aparelho e defina um PIN. Os demais acessos são criados depois, em Gerenciar acessos.'
+                  : 'Selecione seu nome e informe seu PIN.'}
+              </ThemedText>
+              {sessionNotice ? (
+                <ThemedText type="caption" style={{ color: colors.destructive }}>
+                  {sessionNotice}
+                </ThemedText>
+              ) : null}
+
+              {isFirstAccess ? (
+                <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                  <Picker selectedValue={memberId} onValueChange={setMemberId}>
+                    <Picker.Item label="Selecione o colaborador" value="" />
+                    {members.map((member) => (
+                      <Picker.Item
+                        key={member.id}
+                        label={`${member.name} • ${ROLE_LABELS[member.role]}`}
+                        value={member.id}
+                      />
+                    ))}
+                  </Picker>
+                </View>
+              ) : (
+                options.map(({ account, member }) => {
+                  const selected = account.memberId === memberId;
+                  return (
+                    <Pressable
+                      key={account.memberId}
+                      onPress={() => setMemberId(account.memberId)}
+                      style={[
+                        styles.option,
+                        {
+                          borderColor: selected ? colors.accent : colors.border,
+                          backgroundColor: selected ? colors.accentSoft : 'transparent',
+                        },
+                      ]}>
+                      <ThemedText type="defaultSemiBold">
+                        {member?.name ?? account.name}
+                      </ThemedText>
+                      <ThemedText type="caption" style={{ color: colors.muted }}>
+                        {member
+                          ? `${ROLE_LABELS[member.role]} • ${branchName(member.branchId)}`
+                          : account.isAdmin
+                            ? 'Administrador'
+                            : 'Colaborador'}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })
+              )}
+
+              <TextField
+                label="PIN"
+                placeholder={`Mínimo de ${MIN_PIN_LENGTH} caracteres`}
+                value={pin}
+                onChangeText={setPin}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              {isFirstAccess ? (
+                <TextField
+                  label="Confirmar PIN"
+                  value={confirmation}
+                  onChangeText={setConfirmation}
+                  secureTextEntry
+                  autoCapitalize="none"
+                />
+              ) : null}
+              {error ? (
+                <ThemedText type="caption" style={{ color: colors.destructive }}>
+                  {error}
+                </ThemedText>
+              ) : null}
+              <Button
+                title={isBusy ? 'Entrando...' : isFirstAccess ? 'Criar acesso e entrar' : 'Entrar'}
+                onPress={() => void submit()}
+              />
+            </>
+          )}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    gap: 16,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 14,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 2,
+  },
+});
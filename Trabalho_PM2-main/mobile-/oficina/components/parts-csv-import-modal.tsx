@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+
+import { BranchPickerField } from '@/components/branch-picker-field';
+import { Button } from '@/components/ui/button';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { logger } from '@/utils/logger';
+import {
+  ColumnMapping,
+  PART_CSV_COLUMNS,
+  PartCsvField,
+  PartImportRow,
+  guessColumnMapping,
+  preparePartImport,
+} from '@/utils/parts-csv';
+
+export type CsvFile = {
+  name: string;
+  /** First row holds the column headers. */
+  rows: string[][];
+};
+
+export type PartsCsvImportModalProps = {
+  file: CsvFile | null;
+  onClose: () => void;
+};
+
+const PREVIEW_LIMIT = 100;
+
+export function PartsCsvImportModal({ file, onClose }: PartsCsvImportModalProps) {
+  const { colors } = useAppTheme();
+  const { branches, activeBranchId, parts, suppliers, importParts } = useData();
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  // Picked in the modal only when every unit is shown; otherwise rows go to the active one.
+  const [chosenBranchId, setChosenBranchId] = useState('');
+  const branchId = activeBranchId ?? chosenBranchId;
+  const [defaultSupplierId, setDefaultSupplierId] = useState('');
+  const [prepared, setPrepared] = useState<PartImportRow[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const headers = useMemo(() => file?.rows[0] ?? [], [file]);
+
+  useEffect(() => {
+    setMapping(file ? guessColumnMapping(headers) : null);
+    setDefaultSupplierId('');
+    setChosenBranchId(branches[0]?.id ?? '');
+  }, [branches, file, headers]);
+
+  useEffect(() => {
+    if (!file || !mapping || !branchId) {
+      return;
+    }
+    let active = true;
+    setPrepared(null);
+    preparePartImport(file.rows.slice(1), mapping, {
+      branchId,
+      parts,
+      suppliers,
+      defaultSupplierId: defaultSupplierId || null,
+    })
+      .catch((error) => {
+        logger.error('files', 'Erro ao validar planilha', error);
+        return [];
+      })
+      .then((rows) => {
+        if (active) {
+          setPrepared(rows);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [branchId, defaultSupplierId, file, mapping, parts, suppliers]);
+
+  const validRows = useMemo(() => prepared?.filter((row) => !row.issues.length) ?? [], [prepared]);
+  const updates = validRows.filter((row) => row.existing).length;
+
+  const setColumn = (field: PartCsvField, value: string) => {
+    setMapping((current) =>
+      current ? { ...current, [field]: value === '' ? null : Number(value) } : current
+    );
+  };
+
+  const handleImport = async () => {
+    if (isImporting || !validRows.length) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      await importParts(validRows.map((row) => row.input));
+      Alert.alert(
+        'Importação concluída',
+        `${validRows.length - updates} peça(s) criada(s) e ${updates} atualizada(s).`
+      );
+      onClose();
+    } catch (error) {
+      if (error instanceof EntityValidationError) {
+        Alert.alert('Revise os dados', error.message);
+        return;
+      }
+      if (error instanceof PermissionDeniedError) {
+        Alert.alert('Sem permissão', error.message);
+        return;
+      }
+      logger.error('files', 'Erro ao importar peças', error);
+      Alert.alert('Falha ao importar', 'Não foi possível salvar as peças.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal transparent visible={!!file} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalTitle}>
+              <ThemedText type="subtitle">Importar CSV</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {file?.name}
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose}>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Fechar
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <ThemedText type="defaultSemiBold">Colunas</ThemedText>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Peças já cadastradas são atualizadas pelo código; colunas não importadas mantêm o
+              valor atual.
+            </ThemedText>
+            {mapping
+              ? PART_CSV_COLUMNS.map(({ field, label }) => (
+                  <View key={field} style={styles.mappingRow}>
+                    <ThemedText type="caption" style={styles.mappingLabel}>
+                      {label}
+                    </ThemedText>
+                    <View
+                      style={[
+                        styles.pickerContainer,
+                        styles.mappingPicker,
+                        { borderColor: colors.border },
+                      ]}>
+                      <Picker
+                        selectedValue={mapping[field] === null ? '' : String(mapping[field])}
+                        onValueChange={(value: string) => setColumn(field, value)}>
+                        <Picker.Item label="Não importar" value="" />
+                        {headers.map((header, index) => (
+                          <Picker.Item
+                            key={`${index}-${header}`}
+                            label={header || `Coluna ${index + 1}`}
+                            value={String(index)}
+                          />
+                        ))}
+                      </Picker>
+                    </View>
+                  </View>
+                ))
+              : null}
+
+            {activeBranchId ? null : (
+              <BranchPickerField value={chosenBranchId} onChange={setChosenBranchId} />
+            )}
+
+            <ThemedText type="defaultSemiBold">Fornecedor padrão</ThemedText>
+            <ThemedText type="caption" style={{ color: colors.muted }}>
+              Usado nas peças novas cuja linha não informa fornecedor.
+            </ThemedText>
+            <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+              <Picker selectedValue={defaultSupplierId} onValueChange={setDefaultSupplierId}>
+                <Picker.Item label="Nenhum" value="" />
+                {suppliers.map((supplier) => (
+                  <Picker.Item key={supplier.id} label={supplier.company} value={supplier.id} />
+                ))}
+              </Picker>
+            </View>
+
+            <ThemedText type="defaultSemiBold">Prévia</ThemedText>
+            {prepared === null ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Validando linhas...
+              </ThemedText>
+            ) : (
+              <>
+                <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                  {validRows.length - updates} nova(s), {updates} atualização(ões),{' '}
+                  {prepared.length - validRows.length} com erro.
+                </ThemedText>
+                {prepared.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <View key={row.line} style={[styles.row, { borderColor: colors.border }]}>
+                    <ThemedText type="defaultSemiBold">
+                      Linha {row.line} • {row.code || 'sem código'}
+                    </ThemedText>
+                    <ThemedText type="caption" style={{ color: colors.muted }}>
+                      {row.input.name || 'Sem descrição'}
+                    </ThemedText>
+                    {row.issues.length ? (
+                      row.issues.map((issue) => (
+                        <ThemedText
+                          key={issue}
+                          type="caption"
+                          style={{ color: colors.destructive }}>
+                          {issue}
+                        </ThemedText>
+                      ))
+                    ) : (
+                      <ThemedText type="caption" style={{ color: colors.success }}>
+                        {row.existing ? 'Atualiza peça existente' : 'Nova peça'}
+                      </ThemedText>
+                    )}
+                  </View>
+                ))}
+                {prepared.length > PREVIEW_LIMIT ? (
+                  <ThemedText type="caption" style={{ color: colors.muted }}>
+                    ... e mais {prepared.length - PREVIEW_LIMIT} linha(s).
+                  </ThemedText>
+                ) : null}
+              </>
+            )}
+          </ScrollView>
+
+          <Button
+            title={isImporting ? 'Importando...' : `Importar ${validRows.length} peça(s) válida(s)`}
+            onPress={() => void handleImport()}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  content: {
+    gap: 10,
+    paddingBottom: 16,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  mappingLabel: {
+    width: 110,
+  },
+  mappingPicker: {
+    flex: 1,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 14,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 4,
+  },
+});
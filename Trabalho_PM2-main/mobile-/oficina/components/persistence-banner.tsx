@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+
+/** Stays on top of the tabs while changes could not be written to the device. */
+export function PersistenceBanner() {
+  const { colors } = useAppTheme();
+  const insets = useSafeAreaInsets();
+  const { persistenceStatus, persistenceError, retryPersistence } = useData();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  if (persistenceStatus !== 'failed') {
+    return null;
+  }
+
+  const retry = async () => {
+    setIsRetrying(true);
+    try {
+      await retryPersistence();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { top: insets.top + 8, backgroundColor: colors.destructive, borderColor: colors.border },
+      ]}>
+      <View style={styles.message}>
+        <ThemedText type="defaultSemiBold" style={{ color: colors.background }}>
+          Alterações não salvas
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: colors.background }}>
+          Não foi possível gravar os dados neste aparelho; o app tentará de novo. Não feche o app
+          até que sejam salvos.{persistenceError ? ` (${persistenceError})` : ''}
+        </ThemedText>
+      </View>
+      <Pressable onPress={() => void retry()} disabled={isRetrying}>
+        <ThemedText type="defaultSemiBold" style={{ color: colors.background }}>
+          {isRetrying ? 'Salvando...' : 'Tentar agora'}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  message: {
+    flex: 1,
+    gap: 2,
+  },
+});
@@ -0,0 +1,50 @@
+import { StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { ROLE_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+
+/** Who is signed in on this device, with shortcuts to the accounts screen and to sign out. */
+export function SessionCard() {
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { currentMember, accounts, can, signOut } = useData();
+
+  if (!currentMember) {
+    return null;
+  }
+
+  const isAdmin = accounts.some(
+    (account) => account.memberId === currentMember.id && account.isAdmin
+  );
+
+  return (
+    <Card>
+      <ThemedText type="subtitle">Sessão</ThemedText>
+      <ThemedText type="caption" style={{ color: colors.muted }}>
+        Conectado como {currentMember.name} • {ROLE_LABELS[currentMember.role]}
+        {isAdmin ? ' • Administrador' : ''}
+      </ThemedText>
+      <View style={styles.actions}>
+        <Button
+          title={can('accounts.manage') ? 'Gerenciar acessos' : 'Alterar PIN'}
+          variant="secondary"
+          onPress={() => router.navigate('/accounts')}
+        />
+        <Button title="Sair" variant="ghost" onPress={signOut} />
+      </View>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+});
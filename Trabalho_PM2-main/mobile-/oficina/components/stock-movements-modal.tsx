@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+
+import { Button } from '@/components/ui/button';
+import { TextField } from '@/components/ui/input';
+import { ThemedText } from '@/components/themed-text';
+import { STOCK_MOVEMENT_LABELS } from '@/constants/entity-labels';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError, STOCK_MOVEMENT_TYPES } from '@/schemas/entities';
+import { PermissionDeniedError } from '@/storage/permissions';
+import {
+  InsufficientStockError,
+  ledgerDifference,
+  ledgerQuantities,
+  movementsOf,
+} from '@/storage/stock';
+import { Part, StockMovementType, UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+
+export type StockMovementsModalProps = {
+  part: Part | null;
+  onClose: () => void;
+};
+
+const signed = (quantity: number) => (quantity > 0 ? `+${quantity}` : String(quantity));
+
+export function StockMovementsModal({ part, onClose }: StockMovementsModalProps) {
+  const { colors } = useAppTheme();
+  const {
+    allParts,
+    branches,
+    revisions,
+    purchaseOrders,
+    suppliers,
+    allTeam,
+    stockMovements,
+    recordStockMovement,
+    transferStock,
+    reconcileStock,
+    can,
+  } = useData();
+  const [type, setType] = useState<StockMovementType>('entrada');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [targetId, setTargetId] = useState('');
+
+  useEffect(() => {
+    setType('entrada');
+    setQuantity('');
+    setReason('');
+    setTargetId('');
+  }, [part?.id]);
+
+  // The part may change while the modal is open; always show the saved one.
+  const current = allParts.find((item) => item.id === part?.id) ?? part;
+  const movements = useMemo(
+    () => (current ? movementsOf(current.id, stockMovements) : []),
+    [current, stockMovements]
+  );
+  const difference = useMemo(
+    () => (current ? ledgerDifference(current, ledgerQuantities(stockMovements)) : 0),
+    [current, stockMovements]
+  );
+  // Transfers go to the same part, by code, in another unit.
+  const transferTargets = allParts.filter(
+    (item) => current && item.code === current.code && item.branchId !== current.branchId
+  );
+
+  const branchName = (id: UUID) => branches.find((branch) => branch.id === id)?.name ?? 'Unidade';
+  const memberName = (id?: UUID) =>
+    id ? (allTeam.find((member) => member.id === id)?.name ?? 'Membro removido') : 'Aplicativo';
+  const revisionName = (id: UUID) => {
+    const revision = revisions.find((item) => item.id === id);
+    return revision ? `${revision.clientName} • ${revision.licensePlate}` : 'Revisão removida';
+  };
+  const orderName = (id: UUID) => {
+    const order = purchaseOrders.find((item) => item.id === id);
+    const supplier = suppliers.find((item) => item.id === order?.supplierId);
+    return order ? (supplier?.company ?? 'Fornecedor removido') : 'Pedido removido';
+  };
+  const counterpartName = (id: UUID) => {
+    const counterpart = allParts.find((item) => item.id === id);
+    return counterpart ? branchName(counterpart.branchId) : 'Peça removida';
+  };
+
+  const handleRecord = async () => {
+    if (!current) {
+      return;
+    }
+    const amount = Number(quantity.replace(',', '.'));
+    if (!quantity.trim() || !Number.isInteger(amount) || amount < 0) {
+      Alert.alert('Quantidade inválida', 'Informe um número inteiro de unidades.');
+      return;
+    }
+    try {
+      if (type === 'transferencia') {
+        await transferStock(current.id, targetId, amount, reason.trim());
+      } else {
+        const change =
+          type === 'ajuste' ? amount - current.quantity : type === 'saida' ? -amount : amount;
+        await recordStockMovement(current.id, { type, quantity: change, reason: reason.trim() });
+      }
+      setQuantity('');
+      setReason('');
+    } catch (error) {
+      if (
+        error instanceof EntityValidationError ||
+        error instanceof InsufficientStockError ||
+        error instanceof PermissionDeniedError
+      ) {
+        Alert.alert('Movimentação não registrada', error.message);
+        return;
+      }
+      logger.error('storage', 'Erro ao registrar movimentação', error);
+    }
+  };
+
+  const handleReconcile = () => {
+    if (!current) {
+      return;
+    }
+    Alert.alert(
+      'Ajustar histórico',
+      `Será registrado um ajuste de ${signed(difference)} unidade(s), para que as ` +
+        `movimentações somem as ${current.quantity} de ${current.name} em estoque.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Ajustar',
+          onPress: () =>
+            void reconcileStock(current.id).catch((error) => {
+              if (
+                error instanceof EntityValidationError ||
+                error instanceof PermissionDeniedError
+              ) {
+                Alert.alert('Ajuste não registrado', error.message);
+                return;
+              }
+              logger.error('storage', 'Erro ao ajustar o histórico', error);
+            }),
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal transparent visible={!!part} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalTitle}>
+              <ThemedText type="subtitle">Movimentações</ThemedText>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                {current?.name} • {current?.code} • {current?.quantity} em estoque
+              </ThemedText>
+            </View>
+            <Pressable onPress={onClose}>
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Fechar
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            {difference !== 0 ? (
+              <View style={[styles.warning, { borderColor: colors.warning }]}>
+                <ThemedText type="caption" style={{ color: colors.warning }}>
+                  O estoque registrado difere da soma das movimentações em {signed(difference)}{' '}
+                  unidade(s).
+                </ThemedText>
+                {can('stockMovements.edit') ? (
+                  <Button title="Registrar ajuste" variant="secondary" onPress={handleReconcile} />
+                ) : null}
+              </View>
+            ) : null}
+
+            {can('stockMovements.edit') ? (
+              <View style={styles.form}>
+                <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                  <Picker selectedValue={type} onValueChange={setType}>
+                    {STOCK_MOVEMENT_TYPES.filter(
+                      (item) => item !== 'transferencia' || transferTargets.length > 0
+                    ).map((item) => (
+                      <Picker.Item key={item} label={STOCK_MOVEMENT_LABELS[item]} value={item} />
+                    ))}
+                  </Picker>
+                </View>
+                {type === 'transferencia' ? (
+                  <View style={[styles.pickerContainer, { borderColor: colors.border }]}>
+                    <Picker selectedValue={targetId} onValueChange={setTargetId}>
+                      <Picker.Item label="Unidade de destino..." value="" />
+                      {transferTargets.map((item) => (
+                        <Picker.Item
+                          key={item.id}
+                          label={`${branchName(item.branchId)} • ${item.quantity} em estoque`}
+                          value={item.id}
+                        />
+                      ))}
+                    </Picker>
+                  </View>
+                ) : null}
+                <TextField
+                  label={type === 'ajuste' ? 'Quantidade contada' : 'Quantidade'}
+                  placeholder="0"
+                  keyboardType="numeric"
+                  value={quantity}
+                  onChangeText={setQuantity}
+                />
+                <TextField
+                  label="Motivo"
+                  placeholder="Ex: Nota fiscal 1234, inventário mensal"
+                  value={reason}
+                  onChangeText={setReason}
+                />
+                <Button title="Registrar" onPress={() => void handleRecord()} />
+              </View>
+            ) : null}
+
+            {movements.length === 0 ? (
+              <ThemedText type="caption" style={{ color: colors.muted }}>
+                Nenhuma movimentação registrada.
+              </ThemedText>
+            ) : (
+              movements.map((movement) => (
+                <View key={movement.id} style={[styles.entry, { borderColor: colors.border }]}>
+                  <View style={styles.entryHeader}>
+                    <ThemedText type="defaultSemiBold">
+                      {STOCK_MOVEMENT_LABELS[movement.type]} {signed(movement.quantity)}
+                    </ThemedText>
+                    <ThemedText type="caption" style={{ color: colors.muted }}>
+                      {new Date(movement.createdAt).toLocaleString('pt-BR')}
+                    </ThemedText>
+                  </View>
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    {movement.reason} • Saldo: {movement.balance}
+                  </ThemedText>
+                  {movement.revisionId ? (
+                    <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                      Revisão: {revisionName(movement.revisionId)}
+                    </ThemedText>
+                  ) : null}
+                  {movement.purchaseOrderId ? (
+                    <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                      Pedido de compra: {orderName(movement.purchaseOrderId)}
+                    </ThemedText>
+                  ) : null}
+                  {movement.counterpartId ? (
+                    <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                      {movement.quantity < 0 ? 'Para' : 'De'}:{' '}
+                      {counterpartName(movement.counterpartId)}
+                    </ThemedText>
+                  ) : null}
+                  <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                    Por: {memberName(movement.memberId)}
+                  </ThemedText>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 24,
+    padding: 24,
+    gap: 16,
+    maxHeight: '92%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  list: {
+    gap: 12,
+    paddingBottom: 16,
+  },
+  warning: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+  },
+  form: {
+    gap: 12,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderRadius: 14,
+  },
+  entry: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    gap: 4,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
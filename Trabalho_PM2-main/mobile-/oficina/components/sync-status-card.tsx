@@ -0,0 +1,84 @@
+import { StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { SyncStatus } from '@/storage/sync';
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: 'Servidor não configurado',
+  idle: 'Sincronizado',
+  syncing: 'Sincronizando...',
+  offline: 'Sem conexão — alterações aguardando envio',
+  error: 'Falha ao sincronizar',
+};
+
+export function SyncStatusCard() {
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { syncStatus, pendingSyncCount, lastSyncedAt, syncError, syncNow, syncConflicts } =
+    useData();
+
+  const statusColor =
+    syncStatus === 'error'
+      ? colors.destructive
+      : syncStatus === 'offline'
+        ? colors.warning
+        : syncStatus === 'idle'
+          ? colors.success
+          : colors.muted;
+
+  return (
+    <Card>
+      <ThemedText type="subtitle">Sincronização</ThemedText>
+      <View style={styles.status}>
+        <View style={[styles.dot, { backgroundColor: statusColor }]} />
+        <ThemedText type="defaultSemiBold">{SYNC_STATUS_LABELS[syncStatus]}</ThemedText>
+      </View>
+      {syncStatus === 'error' && syncError ? (
+        <ThemedText type="caption" style={{ color: colors.destructive }}>
+          {syncError}
+        </ThemedText>
+      ) : null}
+      <ThemedText type="caption" style={{ color: colors.muted }}>
+        {pendingSyncCount
+          ? `${pendingSyncCount} alteração(ões) aguardando envio.`
+          : 'Nenhuma alteração pendente.'}
+        {lastSyncedAt
+          ? ` Última sincronização em ${new Date(lastSyncedAt).toLocaleString('pt-BR')}.`
+          : ''}
+      </ThemedText>
+      {syncConflicts.length ? (
+        <>
+          <ThemedText type="caption" style={{ color: colors.warning }}>
+            {syncConflicts.length} registro(s) editado(s) em outro aparelho ao mesmo tempo.
+          </ThemedText>
+          <Button
+            title="Revisar conflitos"
+            variant="secondary"
+            onPress={() => router.navigate('/sync-conflicts')}
+          />
+        </>
+      ) : null}
+      {syncStatus !== 'disabled' ? (
+        <Button title="Sincronizar agora" variant="ghost" onPress={() => void syncNow()} />
+      ) : null}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+});
@@ -49,13 +49,7 @@ export function Button({ title, onPress, variant = 'primary', icon, style }: But
     variant === 'primary' ? '#ffffff' : variant === 'secondary' ? colors.accent : colors.text;
 
   return (
-    <Pressable 
-      onPress={() => {
-        console.log('🔘 Button onPress chamado para:', title);
-        onPress();
-      }} 
-      style={getStyles}
-    >
+    <Pressable onPress={onPress} style={getStyles}>
       <Text style={[styles.text, { color: textColor }]}>
         {icon}
         {icon ? ' ' : ''}
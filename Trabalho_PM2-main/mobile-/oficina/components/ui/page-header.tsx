@@ -7,13 +7,23 @@ export type PageHeaderProps = PropsWithChildren<{
   title: string;
   subtitle?: string;
   rightElement?: ReactNode;
+  /** Hidden shortcut: nothing hints that the title can be pressed. */
+  onTitleLongPress?: () => void;
 }>;
 
-export function PageHeader({ title, subtitle, rightElement, children }: PageHeaderProps) {
+export function PageHeader({
+  title,
+  subtitle,
+  rightElement,
+  onTitleLongPress,
+  children,
+}: PageHeaderProps) {
   return (
     <View style={styles.wrapper}>
       <View style={styles.textContent}>
-        <ThemedText type="title">{title}</ThemedText>
+        <ThemedText type="title" onLongPress={onTitleLongPress}>
+          {title}
+        </ThemedText>
         {subtitle ? (
           <ThemedText type="default" style={styles.subtitle}>
             {subtitle}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useData } from '@/providers/data-provider';
+import { useAppTheme } from '@/providers/theme-provider';
+import { EntityValidationError } from '@/schemas/entities';
+import { StaleHistoryError } from '@/storage/history';
+import { ReferentialIntegrityError } from '@/storage/integrity';
+import { PermissionDeniedError } from '@/storage/permissions';
+import { InsufficientStockError } from '@/storage/stock';
+import { logger } from '@/utils/logger';
+
+const VISIBLE_FOR_MS = 5000;
+
+const showHistoryError = (title: string, error: unknown) => {
+  if (
+    error instanceof StaleHistoryError ||
+    error instanceof EntityValidationError ||
+    error instanceof PermissionDeniedError ||
+    error instanceof ReferentialIntegrityError ||
+    error instanceof InsufficientStockError
+  ) {
+    Alert.alert(title, error.message);
+    return;
+  }
+  logger.error('storage', title, error);
+};
+
+type Notice = {
+  message: string;
+  actionLabel: 'Desfazer' | 'Refazer';
+};
+
+/** Offers to revert the latest change for a few seconds after it is saved. */
+export function UndoSnackbar() {
+  const { colors } = useAppTheme();
+  const { changeCount, undo, redo, undoDescription, redoDescription } = useData();
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const lastChangeCount = useRef(changeCount);
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const show = useCallback((next: Notice) => {
+    if (hideTimer.current) {
+      clearTimeout(hideTimer.current);
+    }
+    setNotice(next);
+    hideTimer.current = setTimeout(() => setNotice(null), VISIBLE_FOR_MS);
+  }, []);
+
+  useEffect(() => {
+    if (changeCount === lastChangeCount.current) {
+      return;
+    }
+    lastChangeCount.current = changeCount;
+    if (undoDescription) {
+      show({ message: undoDescription, actionLabel: 'Desfazer' });
+    }
+  }, [changeCount, show, undoDescription]);
+
+  useEffect(
+    () => () => {
+      if (hideTimer.current) {
+        clearTimeout(hideTimer.current);
+      }
+    },
+    []
+  );
+
+  const handleAction = async () => {
+    if (notice?.actionLabel === 'Desfazer') {
+      const description = undoDescription;
+      try {
+        await undo();
+        show({ message: `Desfeito: ${description}`, actionLabel: 'Refazer' });
+      } catch (error) {
+        setNotice(null);
+        showHistoryError('Não foi possível desfazer', error);
+      }
+    } else if (redoDescription) {
+      setNotice(null);
+      try {
+        await redo();
+      } catch (error) {
+        showHistoryError('Não foi possível refazer', error);
+      }
+    }
+  };
+
+  if (!notice) {
+    return null;
+  }
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.text, borderColor: colors.border }]}
+      pointerEvents="box-none">
+      <ThemedText type="caption" style={[styles.message, { color: colors.background }]}>
+        {notice.message}
+      </ThemedText>
+      <Pressable onPress={() => void handleAction()}>
+        <ThemedText type="defaultSemiBold" style={{ color: colors.accent }}>
+          {notice.actionLabel}
+        </ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 84,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  message: {
+    flex: 1,
+  },
+});
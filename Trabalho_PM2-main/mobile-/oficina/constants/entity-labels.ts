@@ -0,0 +1,96 @@
+import { EntityName } from '@/storage/repository';
+import { StockMovementType, TeamRole } from '@/types/entities';
+
+export const ENTITY_LABELS: Record<EntityName, string> = {
+  branches: 'Unidade',
+  parts: 'Peça',
+  revisions: 'Revisão',
+  team: 'Colaborador',
+  clients: 'Cliente',
+  suppliers: 'Fornecedor',
+  stockMovements: 'Movimentação de estoque',
+  purchaseOrders: 'Pedido de compra',
+};
+
+/** Display names of record fields, shared by every entity; unknown fields show as is. */
+export const FIELD_LABELS: Record<string, string> = {
+  branchId: 'Unidade',
+  address: 'Endereço',
+  name: 'Nome',
+  code: 'Código',
+  quantity: 'Quantidade',
+  minStock: 'Estoque mínimo',
+  location: 'Localização',
+  suppliers: 'Fornecedores',
+  category: 'Categoria',
+  unitCost: 'Custo unitário',
+  clientId: 'Cliente',
+  clientName: 'Nome do cliente',
+  clientPhone: 'Telefone do cliente',
+  vehicleModel: 'Modelo do veículo',
+  licensePlate: 'Placa',
+  serviceDescription: 'Serviço',
+  scheduledDate: 'Data',
+  scheduledTime: 'Horário',
+  status: 'Status',
+  priority: 'Prioridade',
+  assignedTo: 'Responsável',
+  notes: 'Observações',
+  remindersEnabled: 'Lembretes',
+  partItems: 'Peças utilizadas',
+  laborItems: 'Mão de obra',
+  discount: 'Desconto',
+  role: 'Função',
+  phone: 'Telefone',
+  email: 'E-mail',
+  active: 'Ativo',
+  expertiseLevel: 'Nível',
+  certificationExpiry: 'Validade da certificação',
+  hiredAt: 'Contratação',
+  hourlyRate: 'Valor da hora',
+  vehicle: 'Veículo',
+  lastVisit: 'Última visita',
+  tier: 'Categoria',
+  preferredAdvisor: 'Consultor preferencial',
+  marketingConsent: 'Aceita marketing',
+  whatsappConsent: 'Aceita contato por WhatsApp',
+  consentUpdatedAt: 'Consentimento registrado em',
+  anonymizedAt: 'Anonimizado em',
+  company: 'Empresa',
+  contactName: 'Contato',
+  leadTimeDays: 'Prazo de entrega',
+  preferred: 'Preferencial',
+  rating: 'Avaliação',
+  lastOrderDate: 'Último pedido',
+  partId: 'Peça',
+  type: 'Tipo',
+  balance: 'Saldo',
+  reason: 'Motivo',
+  revisionId: 'Revisão',
+  purchaseOrderId: 'Pedido de compra',
+  counterpartId: 'Peça da outra unidade',
+  memberId: 'Colaborador',
+  createdAt: 'Data',
+  supplierId: 'Fornecedor',
+  items: 'Itens',
+  sentAt: 'Enviado em',
+  expectedAt: 'Previsão de entrega',
+  receivedAt: 'Recebido em',
+  deletedAt: 'Excluído em',
+};
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  Mecanico: 'Mecânico',
+  Eletricista: 'Eletricista',
+  Diagnostico: 'Diagnóstico',
+  Pintor: 'Pintor',
+  Atendimento: 'Atendimento',
+};
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  entrada: 'Entrada',
+  saida: 'Saída',
+  ajuste: 'Ajuste',
+  devolucao: 'Devolução',
+  transferencia: 'Transferência',
+};
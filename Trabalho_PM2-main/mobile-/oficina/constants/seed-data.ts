@@ -0,0 +1,257 @@
+import {
+  Branch,
+  Client,
+  Part,
+  Revision,
+  StockMovement,
+  Supplier,
+  TeamMember,
+} from '@/types/entities';
+import { generateId, nowIso } from '@/utils/id';
+
+export const defaultBranches: Branch[] = [
+  {
+    id: generateId(),
+    name: 'Matriz',
+    address: 'Av. Paulista, 1200 - São Paulo',
+    phone: '(11) 3333-1200',
+  },
+  {
+    id: generateId(),
+    name: 'Unidade Campinas',
+    address: 'Av. Norte-Sul, 450 - Campinas',
+    phone: '(19) 3222-0450',
+  },
+];
+
+export const defaultTeam: TeamMember[] = [
+  {
+    id: generateId(),
+    branchId: defaultBranches[0].id,
+    name: 'Renato Albuquerque',
+    role: 'Mecanico',
+    phone: '(11) 95555-2901',
+    email: 'renato.albuquerque@redcar.com',
+    active: true,
+    expertiseLevel: 'Senior',
+    certificationExpiry: new Date(Date.now() + 90 * 86_400_000).toISOString(),
+    hiredAt: new Date('2020-03-10').toISOString(),
+    hourlyRate: 120,
+  },
+  {
+    id: generateId(),
+    branchId: defaultBranches[1].id,
+    name: 'Isabela Monteiro',
+    role: 'Diagnostico',
+    phone: '(11) 98888-4412',
+    email: 'isabela.monteiro@redcar.com',
+    active: true,
+    expertiseLevel: 'Pleno',
+    certificationExpiry: new Date(Date.now() + 45 * 86_400_000).toISOString(),
+    hiredAt: new Date('2021-08-22').toISOString(),
+    hourlyRate: 95,
+  },
+];
+
+export const defaultSuppliers: Supplier[] = [
+  {
+    id: generateId(),
+    company: 'AutoParts Brasil',
+    contactName: 'Luciana Reis',
+    phone: '(11) 94221-7800',
+    email: 'luciana.reis@autoparts.com',
+    category: 'Pecas originais',
+    leadTimeDays: 3,
+    preferred: true,
+    rating: 4.8,
+    lastOrderDate: new Date(Date.now() - 12 * 86_400_000).toISOString(),
+  },
+  {
+    id: generateId(),
+    company: 'PneusMax',
+    contactName: 'Eduardo Lima',
+    phone: '(11) 93011-9022',
+    email: 'eduardo@pneusmax.com',
+    category: 'Pneus',
+    leadTimeDays: 5,
+    preferred: false,
+    rating: 4.3,
+    lastOrderDate: new Date(Date.now() - 40 * 86_400_000).toISOString(),
+  },
+];
+
+export const defaultParts: Part[] = [
+  {
+    id: generateId(),
+    branchId: defaultBranches[0].id,
+    name: 'Filtro de oleo sintetico',
+    code: 'RC-FO-900',
+    quantity: 18,
+    minStock: 6,
+    location: 'Corredor B2',
+    suppliers: [
+      { supplierId: defaultSuppliers[0].id, unitCost: 38.9, supplierCode: 'MF-HU719' },
+    ],
+    category: 'Mecanica',
+    unitCost: 38.9,
+    updatedAt: nowIso(),
+  },
+  {
+    id: generateId(),
+    branchId: defaultBranches[1].id,
+    name: 'Pastilha de freio ceramica',
+    code: 'RC-PF-320',
+    quantity: 8,
+    minStock: 12,
+    location: 'Corredor A1',
+    suppliers: [
+      { supplierId: defaultSuppliers[0].id, unitCost: 126.4, supplierCode: 'BO-0986' },
+    ],
+    category: 'Suspensao',
+    unitCost: 126.4,
+    updatedAt: nowIso(),
+  },
+];
+
+export const defaultRevisions: Revision[] = [
+  {
+    id: generateId(),
+    branchId: defaultBranches[1].id,
+    clientName: 'Juliana Souza',
+    clientPhone: '(11) 97123-4001',
+    vehicleModel: 'Toyota Corolla 2022',
+    licensePlate: 'FRT-1023',
+    serviceDescription: 'Revisao de 20.000 km + alinhamento',
+    scheduledDate: nowIso(),
+    scheduledTime: '14:00',
+    status: 'agendada',
+    priority: 'media',
+    assignedTo: defaultTeam[1]?.id,
+    notes: 'Cliente aguarda contato caso haja orcamento adicional.',
+    remindersEnabled: true,
+    partItems: [],
+    laborItems: [],
+    discount: 0,
+  },
+  {
+    id: generateId(),
+    branchId: defaultBranches[0].id,
+    clientName: 'Carlos Henrique',
+    clientPhone: '(11) 97211-8899',
+    vehicleModel: 'Honda Civic 2020',
+    licensePlate: 'HDC-7788',
+    serviceDescription: "Troca de correia dentada e bomba d'agua",
+    scheduledDate: new Date(Date.now() + 86_400_000).toISOString(),
+    scheduledTime: '10:30',
+    status: 'em andamento',
+    priority: 'alta',
+    assignedTo: defaultTeam[0]?.id,
+    notes: 'Pecas separadas, aguardar aprovacao para itens extras.',
+    remindersEnabled: false,
+    partItems: [],
+    laborItems: [
+      {
+        memberId: defaultTeam[0].id,
+        description: "Troca de correia dentada e bomba d'agua",
+        hours: 3,
+        hourlyRate: 120,
+      },
+    ],
+    discount: 0,
+  },
+  {
+    id: generateId(),
+    branchId: defaultBranches[0].id,
+    clientName: 'Maria Silva',
+    clientPhone: '(11) 99999-1234',
+    vehicleModel: 'Volkswagen Golf 2021',
+    licensePlate: 'MSG-4567',
+    serviceDescription: 'Revisao completa + troca de filtros',
+    scheduledDate: new Date(Date.now() - 2 * 86_400_000).toISOString(),
+    scheduledTime: '09:00',
+    status: 'concluida',
+    priority: 'baixa',
+    assignedTo: defaultTeam[0]?.id,
+    notes: 'Servico concluido com sucesso. Cliente satisfeito.',
+    remindersEnabled: false,
+    partItems: [{ partId: defaultParts[0].id, quantity: 1, unitPrice: 59.9 }],
+    laborItems: [
+      {
+        memberId: defaultTeam[0].id,
+        description: 'Revisao completa',
+        hours: 1.5,
+        hourlyRate: 120,
+      },
+    ],
+    discount: 20,
+  },
+];
+
+export const defaultStockMovements: StockMovement[] = [
+  {
+    id: generateId(),
+    branchId: defaultParts[0].branchId,
+    partId: defaultParts[0].id,
+    type: 'entrada',
+    quantity: 19,
+    balance: 19,
+    reason: 'Saldo inicial',
+    createdAt: new Date(Date.now() - 7 * 86_400_000).toISOString(),
+  },
+  {
+    id: generateId(),
+    branchId: defaultParts[0].branchId,
+    partId: defaultParts[0].id,
+    type: 'saida',
+    quantity: -1,
+    balance: 18,
+    reason: 'Revisão concluída',
+    revisionId: defaultRevisions[2].id,
+    memberId: defaultTeam[0].id,
+    createdAt: new Date(Date.now() - 2 * 86_400_000).toISOString(),
+  },
+  {
+    id: generateId(),
+    branchId: defaultParts[1].branchId,
+    partId: defaultParts[1].id,
+    type: 'entrada',
+    quantity: 8,
+    balance: 8,
+    reason: 'Saldo inicial',
+    createdAt: new Date(Date.now() - 7 * 86_400_000).toISOString(),
+  },
+];
+
+export const defaultClients: Client[] = [
+  {
+    id: generateId(),
+    name: 'Fernanda Azevedo',
+    phone: '(11) 96330-1200',
+    email: 'fernanda.azevedo@email.com',
+    vehicle: 'Renault Duster 2019',
+    licensePlate: 'FND-8891',
+    lastVisit: new Date(Date.now() - 30 * 86_400_000).toISOString(),
+    tier: 'Gold',
+    preferredAdvisor: defaultTeam[0]?.id,
+    active: true,
+    notes: 'Prefere agendamentos pela manha.',
+    marketingConsent: true,
+    whatsappConsent: true,
+    consentUpdatedAt: new Date(Date.now() - 30 * 86_400_000).toISOString(),
+  },
+  {
+    id: generateId(),
+    name: 'Tiago Martins',
+    phone: '(11) 97700-1122',
+    email: 'tiago.martins@email.com',
+    vehicle: 'Chevrolet Tracker 2021',
+    licensePlate: 'TMX-3211',
+    lastVisit: new Date(Date.now() - 75 * 86_400_000).toISOString(),
+    tier: 'Standard',
+    active: true,
+    notes: 'Solicitou orcamento para instalacao de acessorios.',
+    marketingConsent: false,
+    whatsappConsent: true,
+    consentUpdatedAt: new Date(Date.now() - 75 * 86_400_000).toISOString(),
+  },
+];
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { CorruptCollectionError, Repository } from '@/storage/repository';
+import { DecryptionError, VaultLockedError } from '@/storage/vault';
+import { PersistenceState, SAVED_STATE, createWriteQueue } from '@/storage/write-queue';
+import { UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+
+export type RejectedRecord = {
+  record: unknown;
+  reason: string;
+};
+
+/**
+ * Keeps a collection in React state mirrored by a repository. The ref always holds
+ * the latest items so mutations can read the current record before changing it.
+ * Mutations update the state right away; the writes follow in batches (see `createWriteQueue`).
+ */
+export type CollectionActions<T extends { id: UUID }> = ReturnType<
+  typeof useCollection<T>
+>['actions'];
+
+export function useCollection<T extends { id: UUID }>(repository: Repository<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const itemsRef = useRef<T[]>([]);
+
+  const commit = useCallback((next: T[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const [persistence, setPersistence] = useState<PersistenceState>(SAVED_STATE);
+  const queue = useMemo(
+    () => createWriteQueue(repository, () => itemsRef.current, setPersistence),
+    [repository]
+  );
+
+  // The app may be closed from the background, so pending writes go out right away.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next !== 'active') {
+        void queue.flush();
+      }
+    });
+    return () => {
+      subscription.remove();
+      void queue.flush();
+    };
+  }, [queue]);
+
+  /**
+   * Loads the stored items, seeding `fallback` on first run. Records rejected by
+   * `validate` (or a whole unreadable collection) are left out and returned so the
+   * caller can quarantine them; storage is not touched until the caller decides.
+   * Encrypted data that cannot be read rejects instead, leaving storage as it is.
+   */
+  const load = useCallback(
+    async (fallback: T[], validate?: (record: unknown) => string | null) => {
+      try {
+        const stored = await repository.getAll();
+        if (!stored) {
+          await repository.replaceAll(fallback);
+          commit(fallback);
+          return [] as RejectedRecord[];
+        }
+        const rejected: RejectedRecord[] = [];
+        const accepted = stored.filter((record) => {
+          const reason = validate ? validate(record) : null;
+          if (reason) {
+            rejected.push({ record, reason });
+          }
+          return !reason;
+        });
+        commit(accepted);
+        return rejected;
+      } catch (error) {
+        if (error instanceof CorruptCollectionError) {
+          commit([]);
+          return [{ record: error.raw, reason: error.message }];
+        }
+        if (error instanceof DecryptionError || error instanceof VaultLockedError) {
+          commit([]);
+          throw error;
+        }
+        logger.error('storage', 'Erro ao carregar coleção', error);
+        commit(fallback);
+        return [];
+      }
+    },
+    [commit, repository]
+  );
+
+  /** Forgets the items in memory only, e.g. when the data is locked again. */
+  const clear = useCallback(() => {
+    queue.discard();
+    commit([]);
+  }, [commit, queue]);
+
+  const replaceAll = useCallback(
+    async (next: T[]) => {
+      commit(next);
+      queue.replaced();
+    },
+    [commit, queue]
+  );
+
+  const insert = useCallback(
+    async (item: T) => {
+      commit([item, ...itemsRef.current]);
+      queue.changed(item.id);
+    },
+    [commit, queue]
+  );
+
+  const update = useCallback(
+    async (id: UUID, build: (current: T) => T) => {
+      const current = itemsRef.current.find((item) => item.id === id);
+      if (!current) {
+        return null;
+      }
+      const next = build(current);
+      commit(itemsRef.current.map((item) => (item.id === id ? next : item)));
+      queue.changed(id);
+      return { before: current, after: next };
+    },
+    [commit, queue]
+  );
+
+  const remove = useCallback(
+    async (id: UUID) => {
+      const current = itemsRef.current.find((item) => item.id === id);
+      commit(itemsRef.current.filter((item) => item.id !== id));
+      queue.changed(id);
+      return current ?? null;
+    },
+    [commit, queue]
+  );
+
+  // `actions` keeps its identity across renders, so callbacks can depend on it safely.
+  const actions = useMemo(
+    () => ({
+      itemsRef,
+      load,
+      clear,
+      replaceAll,
+      insert,
+      update,
+      remove,
+      flush: queue.flush,
+      retryWrites: queue.retry,
+    }),
+    [clear, insert, load, queue, remove, replaceAll, update]
+  );
+
+  return { items, persistence, actions };
+}
@@ -0,0 +1,29 @@
+import { useMemo, useState } from 'react';
+
+import { UUID } from '@/types/entities';
+
+/** Ids picked in a list; `selectedIds` is `null` while the list is not in selection mode. */
+export function useSelection() {
+  const [selectedIds, setSelectedIds] = useState<Set<UUID> | null>(null);
+
+  const actions = useMemo(
+    () => ({
+      start: () => setSelectedIds(new Set()),
+      stop: () => setSelectedIds(null),
+      toggle: (id: UUID) =>
+        setSelectedIds((current) => {
+          if (!current) {
+            return current;
+          }
+          const next = new Set(current);
+          if (!next.delete(id)) {
+            next.add(id);
+          }
+          return next;
+        }),
+    }),
+    []
+  );
+
+  return { selectedIds, actions };
+}
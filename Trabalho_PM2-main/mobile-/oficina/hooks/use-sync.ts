@@ -0,0 +1,314 @@
+import NetInfo from '@react-native-community/netinfo';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { ENTITY_NAMES, EntityName, METADATA_KEYS, MetadataStore } from '@/storage/repository';
+import {
+  PendingChange,
+  PulledRecord,
+  SyncConflict,
+  SyncStatus,
+  SyncedRecord,
+  addConflict,
+  enqueueChange,
+  isSameRecord,
+  mergeRecords,
+  readSyncConflicts,
+  readSyncQueue,
+  writeSyncConflicts,
+  writeSyncQueue,
+} from '@/storage/sync';
+import { SyncApi, SyncConflictError, isNetworkError } from '@/storage/sync-api';
+import { UUID } from '@/types/entities';
+import { generateId, nowIso } from '@/utils/id';
+import { logger } from '@/utils/logger';
+
+export type SyncTarget = {
+  /** Local copy of a record, trashed ones included. */
+  findRecord: (entity: EntityName, id: UUID) => SyncedRecord | undefined;
+  /** Stores what the server sent without queueing it again; `undefined` purges the record. */
+  applyRemote: (entity: EntityName, id: UUID, record: SyncedRecord | undefined) => Promise<void>;
+  /** Sets aside pulled records that could not be stored; resolves with the others. */
+  screenRemote: (pulled: PulledRecord[]) => Promise<PulledRecord[]>;
+};
+
+export type QueuedChange = Omit<PendingChange, 'queuedAt'>;
+
+/** Waits for quick successive edits before sending them. */
+const PUSH_DELAY_MS = 2000;
+/** Pulls changes made on other devices while the app stays open. */
+const PULL_INTERVAL_MS = 60000;
+
+const findPending = (queue: PendingChange[], entity: EntityName, id: UUID) =>
+  queue.find((item) => isSameRecord(item, entity, id));
+
+/**
+ * Keeps local collections in step with the sync server: local changes wait in a persisted
+ * queue and are replayed whenever the server is reachable, then remote changes are pulled.
+ */
+export function useSync(meta: MetadataStore, api: SyncApi | null, target: SyncTarget) {
+  const [status, setStatus] = useState<SyncStatus>(api ? 'idle' : 'disabled');
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const queueRef = useRef<PendingChange[]>([]);
+  const conflictsRef = useRef<SyncConflict[]>([]);
+  const targetRef = useRef(target);
+  const running = useRef<Promise<void> | null>(null);
+  const pushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    targetRef.current = target;
+  }, [target]);
+
+  const saveQueue = useCallback(
+    async (next: PendingChange[]) => {
+      queueRef.current = next;
+      setPendingCount(next.length);
+      try {
+        await writeSyncQueue(meta, next);
+      } catch (error) {
+        logger.error('sync', 'Erro ao salvar fila de sincronização', error);
+      }
+    },
+    [meta]
+  );
+
+  const saveConflicts = useCallback(
+    async (next: SyncConflict[]) => {
+      conflictsRef.current = next;
+      setConflicts(next);
+      try {
+        await writeSyncConflicts(meta, next);
+      } catch (error) {
+        logger.error('sync', 'Erro ao salvar conflitos de sincronização', error);
+      }
+    },
+    [meta]
+  );
+
+  /** Drops a change the server settled, unless the record was edited again meanwhile. */
+  const settle = useCallback(
+    async (change: PendingChange, saved: SyncedRecord | undefined) => {
+      const { findRecord, applyRemote } = targetRef.current;
+      const current = findPending(queueRef.current, change.entity, change.recordId);
+      if (current && current.queuedAt !== change.queuedAt) {
+        const version = saved?.version ?? 0;
+        await saveQueue(
+          queueRef.current.map((item) =>
+            item === current ? { ...item, baseVersion: version } : item
+          )
+        );
+        const local = findRecord(change.entity, change.recordId);
+        if (local && saved) {
+          await applyRemote(change.entity, change.recordId, { ...local, version });
+        }
+        return;
+      }
+      await saveQueue(queueRef.current.filter((item) => item !== current));
+      await applyRemote(change.entity, change.recordId, saved);
+    },
+    [saveQueue]
+  );
+
+  const pushChange = useCallback(
+    async (change: PendingChange, isRetry = false): Promise<void> => {
+      if (!api) {
+        return;
+      }
+      const local = targetRef.current.findRecord(change.entity, change.recordId);
+      try {
+        if (local) {
+          await settle(change, await api.push(change.entity, local, change.baseVersion));
+        } else {
+          await api.remove(change.entity, change.recordId, change.baseVersion);
+          await settle(change, undefined);
+        }
+      } catch (error) {
+        if (!(error instanceof SyncConflictError) || isRetry) {
+          throw error;
+        }
+        // Edits made elsewhere win over a purge made here.
+        if (!local) {
+          await settle(change, error.remote);
+          return;
+        }
+        const { remote } = error;
+        const merged = mergeRecords(change.entity, change.base, local, remote);
+        await targetRef.current.applyRemote(change.entity, change.recordId, merged.record);
+        if (merged.conflicts.length) {
+          await saveConflicts(
+            addConflict(conflictsRef.current, {
+              id: generateId(),
+              entity: change.entity,
+              recordId: change.recordId,
+              fields: merged.conflicts,
+              detectedAt: nowIso(),
+            })
+          );
+        }
+        // The merged record is now based on the server copy.
+        const rebased = { baseVersion: remote.version ?? 0, base: remote };
+        await saveQueue(
+          queueRef.current.map((item) =>
+            isSameRecord(item, change.entity, change.recordId) ? { ...item, ...rebased } : item
+          )
+        );
+        await pushChange({ ...change, ...rebased }, true);
+      }
+    },
+    [api, saveConflicts, saveQueue, settle]
+  );
+
+  const pull = useCallback(async () => {
+    if (!api) {
+      return;
+    }
+    const { findRecord, applyRemote, screenRemote } = targetRef.current;
+    const cursor = (await meta.get(METADATA_KEYS.syncCursor)) || null;
+    let nextCursor: string | null = null;
+    const pulled: PulledRecord[] = [];
+    const purged: { entity: EntityName; id: UUID }[] = [];
+    for (const entity of ENTITY_NAMES) {
+      const result = await api.pull(entity, cursor);
+      // The earliest server time keeps changes made between two pulls from being skipped.
+      if (!nextCursor || result.serverTime < nextCursor) {
+        nextCursor = result.serverTime;
+      }
+      for (const record of result.records) {
+        const local = findRecord(entity, record.id);
+        if (
+          !findPending(queueRef.current, entity, record.id) &&
+          (local?.version ?? -1) < (record.version ?? 0)
+        ) {
+          pulled.push({ entity, record });
+        }
+      }
+      purged.push(...result.deletedIds.map((id) => ({ entity, id })));
+    }
+    // Screened together, since records may point at others pulled after them.
+    for (const { entity, record } of await screenRemote(pulled)) {
+      await applyRemote(entity, record.id, record);
+    }
+    for (const { entity, id } of purged) {
+      if (!findPending(queueRef.current, entity, id) && findRecord(entity, id)) {
+        await applyRemote(entity, id, undefined);
+      }
+    }
+    if (nextCursor) {
+      await meta.set(METADATA_KEYS.syncCursor, nextCursor);
+      setLastSyncedAt(nextCursor);
+    }
+  }, [api, meta]);
+
+  const syncNow = useCallback(() => {
+    if (!api) {
+      return Promise.resolve();
+    }
+    if (!running.current) {
+      running.current = (async () => {
+        setStatus('syncing');
+        try {
+          for (const change of [...queueRef.current]) {
+            await pushChange(change);
+          }
+          await pull();
+          setStatus('idle');
+          setLastError(null);
+        } catch (error) {
+          const offline = isNetworkError(error);
+          if (!offline) {
+            logger.error('sync', 'Erro ao sincronizar', error);
+          }
+          setStatus(offline ? 'offline' : 'error');
+          setLastError(error instanceof Error ? error.message : String(error));
+        } finally {
+          running.current = null;
+        }
+      })();
+    }
+    return running.current;
+  }, [api, pull, pushChange]);
+
+  const load = useCallback(async () => {
+    const queue = await readSyncQueue(meta).catch(() => []);
+    queueRef.current = queue;
+    setPendingCount(queue.length);
+    const stored = await readSyncConflicts(meta).catch(() => []);
+    conflictsRef.current = stored;
+    setConflicts(stored);
+    setLastSyncedAt((await meta.get(METADATA_KEYS.syncCursor).catch(() => null)) || null);
+    setIsLoaded(true);
+  }, [meta]);
+
+  /** Stops syncing until `load` runs again; the queue stays stored. */
+  const unload = useCallback(() => {
+    if (pushTimer.current) {
+      clearTimeout(pushTimer.current);
+      pushTimer.current = null;
+    }
+    setIsLoaded(false);
+  }, []);
+
+  const enqueue = useCallback(
+    async (changes: QueuedChange[]) => {
+      if (!changes.length) {
+        return;
+      }
+      const queuedAt = nowIso();
+      await saveQueue(
+        changes.reduce(
+          (queue, change) => enqueueChange(queue, { ...change, queuedAt }),
+          queueRef.current
+        )
+      );
+      if (api) {
+        if (pushTimer.current) {
+          clearTimeout(pushTimer.current);
+        }
+        pushTimer.current = setTimeout(() => void syncNow(), PUSH_DELAY_MS);
+      }
+    },
+    [api, saveQueue, syncNow]
+  );
+
+  const dismissConflict = useCallback(
+    (id: UUID) => saveConflicts(conflictsRef.current.filter((item) => item.id !== id)),
+    [saveConflicts]
+  );
+
+  useEffect(() => {
+    if (!api || !isLoaded) {
+      return;
+    }
+    // Fires once on subscription too, which gives the first sync after startup.
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        void syncNow();
+      }
+    });
+    const appState = AppState.addEventListener('change', (next) => {
+      if (next === 'active') {
+        void syncNow();
+      }
+    });
+    const interval = setInterval(() => void syncNow(), PULL_INTERVAL_MS);
+    return () => {
+      unsubscribeNetInfo();
+      appState.remove();
+      clearInterval(interval);
+      if (pushTimer.current) {
+        clearTimeout(pushTimer.current);
+      }
+    };
+  }, [api, isLoaded, syncNow]);
+
+  const actions = useMemo(
+    () => ({ load, unload, enqueue, syncNow, dismissConflict }),
+    [dismissConflict, enqueue, load, syncNow, unload]
+  );
+
+  return { status, pendingCount, lastSyncedAt, lastError, conflicts, actions };
+}
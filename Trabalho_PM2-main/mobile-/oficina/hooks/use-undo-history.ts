@@ -0,0 +1,75 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+type Stacks<T> = {
+  past: T[];
+  future: T[];
+  /** Counts pushed entries, so observers can react to each new change. */
+  pushes: number;
+};
+
+/** Bounded undo/redo stacks; the caller decides how an entry is applied. */
+export function useUndoHistory<T>(limit: number) {
+  const [stacks, setStacks] = useState<Stacks<T>>({ past: [], future: [], pushes: 0 });
+  const stacksRef = useRef(stacks);
+
+  const commit = useCallback((next: Stacks<T>) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const push = useCallback(
+    (entry: T) => {
+      const { past, pushes } = stacksRef.current;
+      commit({ past: [...past, entry].slice(-limit), future: [], pushes: pushes + 1 });
+    },
+    [commit, limit]
+  );
+
+  /** Latest entry to undo; it stays in place until `settleUndo` moves it. */
+  const peekUndo = useCallback(() => {
+    const { past } = stacksRef.current;
+    return past[past.length - 1] ?? null;
+  }, []);
+
+  const peekRedo = useCallback(() => {
+    const { future } = stacksRef.current;
+    return future[future.length - 1] ?? null;
+  }, []);
+
+  /** Moves `entry` to the redo stack as `undone`, i.e. as undoing it left things. */
+  const settleUndo = useCallback(
+    (entry: T, undone: T) => {
+      const { past, future, pushes } = stacksRef.current;
+      if (past[past.length - 1] === entry) {
+        commit({ past: past.slice(0, -1), future: [...future, undone], pushes });
+      }
+    },
+    [commit]
+  );
+
+  const settleRedo = useCallback(
+    (entry: T, redone: T) => {
+      const { past, future, pushes } = stacksRef.current;
+      if (future[future.length - 1] === entry) {
+        commit({ past: [...past, redone], future: future.slice(0, -1), pushes });
+      }
+    },
+    [commit]
+  );
+
+  const clear = useCallback(() => {
+    commit({ past: [], future: [], pushes: stacksRef.current.pushes });
+  }, [commit]);
+
+  const actions = useMemo(
+    () => ({ push, peekUndo, peekRedo, settleUndo, settleRedo, clear }),
+    [clear, peekRedo, peekUndo, push, settleRedo, settleUndo]
+  );
+
+  return {
+    nextUndo: stacks.past[stacks.past.length - 1] ?? null,
+    nextRedo: stacks.future[stacks.future.length - 1] ?? null,
+    pushes: stacks.pushes,
+    actions,
+  };
+}
@@ -1,4 +1,3 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   ReactNode,
   createContext,
@@ -6,29 +5,277 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from 'react';
 
-import { Client, Part, Revision, Supplier, TeamMember } from '@/types/entities';
-
-const STORAGE_KEYS = {
-  parts: '@redcar/parts',
-  revisions: '@redcar/revisions',
-  team: '@redcar/team',
-  clients: '@redcar/clients',
-  suppliers: '@redcar/suppliers',
-};
+import {
+  defaultBranches,
+  defaultClients,
+  defaultParts,
+  defaultRevisions,
+  defaultStockMovements,
+  defaultSuppliers,
+  defaultTeam,
+} from '@/constants/seed-data';
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { CollectionActions, useCollection } from '@/hooks/use-collection';
+import { QueuedChange, useSync } from '@/hooks/use-sync';
+import { useUndoHistory } from '@/hooks/use-undo-history';
+import { EntityValidationError, assertValidInput, findStoredRecordIssue } from '@/schemas/entities';
+import {
+  AccountError,
+  AccountSummary,
+  UserAccount,
+  afterFailedSignIn,
+  buildAccount,
+  readAccounts,
+  readSignInLock,
+  verifyPin,
+  withPin,
+  writeAccounts,
+  writeSignInLock,
+} from '@/storage/accounts';
+import { auditActionFor, buildAuditEntry, diffRecords } from '@/storage/audit';
+import {
+  Backup,
+  BackupDiff,
+  RestoreMode,
+  createBackup,
+  diffBackup,
+  restoredRecords,
+} from '@/storage/backup';
+import { createDefaultBackend } from '@/storage/default-backend';
+import { withEncryption, withSyncEncryption } from '@/storage/encrypted-backend';
+import {
+  HistoryStep,
+  STOCK_FIELDS,
+  TRASH_FIELDS,
+  changesOnly,
+  ledgerReversals,
+  projectSteps,
+  stepPermission,
+} from '@/storage/history';
+import {
+  DeletePlan,
+  EntityRecords,
+  ReferentialIntegrityError,
+  findBrokenReferences,
+  findMissingReferences,
+  planDelete,
+  planTrashPurge,
+  unlinkReference,
+} from '@/storage/integrity';
+import { runMigrations } from '@/storage/migrations';
+import {
+  PurchaseOrderError,
+  PurchaseOrderInput,
+  expectedDelivery,
+  receiveItems,
+} from '@/storage/purchase-orders';
+import {
+  Permission,
+  PermissionDeniedError,
+  TrashableEntity,
+  changesPartCost,
+  permissionsFor,
+} from '@/storage/permissions';
+import {
+  CLIENT_PERSONAL_FIELDS,
+  ClientDataExport,
+  REVISION_PERSONAL_FIELDS,
+  anonymizedClient,
+  anonymizedRevision,
+  createClientDataExport,
+  withConsentDate,
+} from '@/storage/privacy';
+import {
+  QuarantinedRecord,
+  addToQuarantine,
+  clearQuarantine,
+  readQuarantine,
+} from '@/storage/quarantine';
+import {
+  ENTITY_NAMES,
+  EntityMap,
+  EntityName,
+  METADATA_KEYS,
+  Repository,
+  StorageBackend,
+  StorageUsage,
+} from '@/storage/repository';
+import { PulledRecord, SyncConflict, SyncStatus, screenPulledRecords } from '@/storage/sync';
+import {
+  InsufficientStockError,
+  StockMovementInput,
+  findShortages,
+  ledgerDifference,
+  ledgerQuantities,
+  reservedQuantities,
+  stockDeductions,
+} from '@/storage/stock';
+import { SyncApi, createDefaultSyncApi } from '@/storage/sync-api';
+import {
+  ENCRYPTED_ENTITIES,
+  VaultKeys,
+  addDataKey,
+  createKey,
+  createVault,
+  hasEncryptedFields,
+  readVaultKeys,
+  unwrapKey,
+  wrapKey,
+  writeVaultKeys,
+} from '@/storage/vault';
+import { PersistenceState, PersistenceStatus, SAVED_STATE } from '@/storage/write-queue';
+import {
+  AuditAction,
+  AuditEntry,
+  Branch,
+  Client,
+  Part,
+  PurchaseOrder,
+  Revision,
+  StockMovement,
+  Supplier,
+  TeamMember,
+  UUID,
+} from '@/types/entities';
+import { ContactEntity } from '@/utils/contacts';
+import { generateId, nowIso } from '@/utils/id';
+import { logger } from '@/utils/logger';
 
 type DataContextValue = {
   isReady: boolean;
+  /** Stored data is encrypted and cannot be read until a member signs in. */
+  isLocked: boolean;
+  bootstrapError: string | null;
+  retryBootstrap: () => void;
+  /** Whether local changes reached storage; writes are batched and retried when they fail. */
+  persistenceStatus: PersistenceStatus;
+  /** Why the latest write failed, until the data is saved. */
+  persistenceError: string | null;
+  /** Tries the failed writes again right away. */
+  retryPersistence: () => Promise<void>;
+  /** Stored records that failed validation on load and were set aside. */
+  quarantine: QuarantinedRecord[];
+  discardQuarantine: () => Promise<void>;
+  /** Team member signed in on this device and credited in the audit trail; `null` shows the login. */
+  currentMember: TeamMember | null;
+  /** Accounts that may sign in on this device; empty until the first one is created. */
+  accounts: AccountSummary[];
+  /** Whether the signed-in member may do `permission`; the mutations below check it too. */
+  can: (permission: Permission) => boolean;
+  /** Throws an `AccountError` on a wrong PIN; repeated failures lock sign-in for a while. */
+  signIn: (memberId: UUID, pin: string) => Promise<void>;
+  /** Also locks the encrypted data again. */
+  signOut: () => void;
+  /** Why the last session ended without the member signing out, for the login screen. */
+  sessionNotice: string | null;
+  /** The first account created on a device is always an administrator. */
+  createAccount: (memberId: UUID, pin: string, isAdmin: boolean) => Promise<void>;
+  /** Members may change their own PIN; other accounts need `accounts.manage`. */
+  changePin: (memberId: UUID, pin: string) => Promise<void>;
+  setAccountAdmin: (memberId: UUID, isAdmin: boolean) => Promise<void>;
+  deleteAccount: (memberId: UUID) => Promise<void>;
+  /** When the key encrypting personal data last changed; `null` until the data is encrypted. */
+  vaultRotatedAt: string | null;
+  /** Re-encrypts personal data with a new key and discards the old one. */
+  rotateDataKey: () => Promise<void>;
+  /** Audit entries of one record, newest first. */
+  getAuditTrail: (entity: EntityName, recordId: UUID) => Promise<AuditEntry[]>;
+  /** Space taken by each collection on this device, for the diagnostics screen. */
+  getStorageUsage: () => Promise<StorageUsage[]>;
+  /** Soft-deleted records, most recently deleted first. Entity lists below exclude them. */
+  trash: TrashedRecord[];
+  /** Rejects with EntityValidationError while a record it must point at is not restored. */
+  restoreRecord: (entity: TrashableEntity, id: UUID) => Promise<void>;
+  purgeRecord: (entity: TrashableEntity, id: UUID) => Promise<void>;
+  /** Trashed records older than this are purged on startup and when it changes. */
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => Promise<void>;
+  /**
+   * Reverts the latest change made through this provider; `undoDescription` names it. Undo
+   * and redo reject with StaleHistoryError when a record changed since, and otherwise with
+   * the errors of a regular change.
+   */
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  undoDescription: string | null;
+  redoDescription: string | null;
+  /** Grows with every new undoable change. */
+  changeCount: number;
+  syncStatus: SyncStatus;
+  /** Local changes not yet accepted by the sync server. */
+  pendingSyncCount: number;
+  lastSyncedAt: string | null;
+  syncError: string | null;
+  syncNow: () => Promise<void>;
+  /** Fields edited on this device and on another one that await review. */
+  syncConflicts: SyncConflict[];
+  /**
+   * Closes a conflict. Fields listed in `keepLocal` get this device's value back, as a new
+   * change; the others keep the server value.
+   */
+  resolveSyncConflict: (conflictId: UUID, keepLocal: string[]) => Promise<void>;
+  branches: Branch[];
+  /** Unit the screens are scoped to; `null` shows every unit together. */
+  activeBranchId: UUID | null;
+  setActiveBranch: (id: UUID | null) => Promise<void>;
+  /** Parts, revisions and team of the active unit. */
   parts: Part[];
   revisions: Revision[];
+  /** Parts of every unit, for transfers between units. */
+  allParts: Part[];
+  /** Units of each part held by revisions that are not concluded yet, across every unit. */
+  reservedStock: Map<UUID, number>;
+  /** Ledger of every quantity change, across every unit; see `recordStockMovement`. */
+  stockMovements: StockMovement[];
+  /** Purchase orders of the active unit. */
+  purchaseOrders: PurchaseOrder[];
   team: TeamMember[];
+  /** Team members of every unit, for references that cross units (advisors, audit authors). */
+  allTeam: TeamMember[];
   clients: Client[];
   suppliers: Supplier[];
+  /** Snapshot of every record, trashed ones included, ready to be saved as a file. */
+  exportBackup: () => Backup;
+  /** How restoring `backup` would change each collection. */
+  previewBackup: (backup: Backup) => BackupDiff;
+  /** Writes the backup into storage. Cannot be undone, so the undo history is cleared. */
+  restoreBackup: (backup: Backup, mode: RestoreMode) => Promise<void>;
+  /** What deleting a record would block or reassign. */
+  planDeletion: (entity: EntityName, id: UUID) => DeletePlan;
+  /**
+   * Create/update mutations reject with EntityValidationError when the input is invalid;
+   * deletes reject with ReferentialIntegrityError when a `block` rule applies.
+   */
+  createBranch: (input: Omit<Branch, 'id'>) => Promise<void>;
+  updateBranch: (id: string, input: Omit<Branch, 'id'>) => Promise<void>;
+  deleteBranch: (id: string) => Promise<void>;
   createPart: (input: Omit<Part, 'id' | 'updatedAt'>) => Promise<void>;
   updatePart: (id: string, input: Omit<Part, 'id'>) => Promise<void>;
   deletePart: (id: string) => Promise<void>;
+  /** Creates or updates parts matched by code, as a single undoable change. */
+  importParts: (inputs: Omit<Part, 'id' | 'updatedAt'>[]) => Promise<void>;
+  /**
+   * Changes the quantity of a part by `input.quantity` and records the movement. Rejects
+   * with InsufficientStockError when the part would go below zero.
+   */
+  recordStockMovement: (partId: UUID, input: StockMovementInput) => Promise<void>;
+  /** Moves units to the part with the same code in another unit. */
+  transferStock: (
+    fromPartId: UUID,
+    toPartId: UUID,
+    quantity: number,
+    reason: string
+  ) => Promise<void>;
+  /** Records the difference between a part's quantity and its ledger as an adjustment. */
+  reconcileStock: (partId: UUID) => Promise<void>;
+  /**
+   * Concluding a revision deducts its parts from the stock, in the same undoable change;
+   * rejects with InsufficientStockError when a part does not have enough units.
+   */
   createRevision: (input: Omit<Revision, 'id'>) => Promise<void>;
   updateRevision: (id: string, input: Omit<Revision, 'id'>) => Promise<void>;
   deleteRevision: (id: string) => Promise<void>;
@@ -38,388 +285,1974 @@ type DataContextValue = {
   createClient: (input: Omit<Client, 'id'>) => Promise<void>;
   updateClient: (id: string, input: Omit<Client, 'id'>) => Promise<void>;
   deleteClient: (id: string) => Promise<void>;
+  /** Everything stored about a client, for a data subject request. */
+  exportClientData: (id: UUID) => ClientDataExport;
+  /**
+   * Erases the personal data of a client and of their revisions, audit trail included.
+   * Cannot be undone, so the undo history is cleared.
+   */
+  anonymizeClient: (id: UUID) => Promise<void>;
   createSupplier: (input: Omit<Supplier, 'id'>) => Promise<void>;
   updateSupplier: (id: string, input: Omit<Supplier, 'id'>) => Promise<void>;
   deleteSupplier: (id: string) => Promise<void>;
+  /**
+   * Orders start as drafts, which are the only ones that may be edited. Status changes
+   * reject with PurchaseOrderError when the current status does not allow them.
+   */
+  createPurchaseOrder: (input: PurchaseOrderInput) => Promise<void>;
+  /** Saves several draft orders, e.g. the reorder suggestions, as one undoable change. */
+  createPurchaseOrders: (inputs: PurchaseOrderInput[]) => Promise<void>;
+  updatePurchaseOrder: (id: UUID, input: PurchaseOrderInput) => Promise<void>;
+  /** Marks the order as sent and works out the delivery date from the supplier lead time. */
+  sendPurchaseOrder: (id: UUID) => Promise<void>;
+  /**
+   * Adds the units received on each line to the stock and to the order, and updates the
+   * last order date of the supplier.
+   */
+  receivePurchaseOrder: (id: UUID, received: number[]) => Promise<void>;
+  cancelPurchaseOrder: (id: UUID) => Promise<void>;
+  deletePurchaseOrder: (id: UUID) => Promise<void>;
+  /**
+   * Registers contacts read from a file as a single undoable change. Imported contacts may
+   * lack fields the forms require, so they are only held to the stored-record rules.
+   */
+  importContacts: <K extends ContactEntity>(
+    entity: K,
+    inputs: Omit<EntityMap[K], 'id'>[]
+  ) => Promise<void>;
 };
 
 const DataContext = createContext<DataContextValue | undefined>(undefined);
 
-const generateId = () =>
-  typeof crypto !== 'undefined' && 'randomUUID' in crypto
-    ? crypto.randomUUID()
-    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-const nowIso = () => new Date().toISOString();
-
-const defaultTeam: TeamMember[] = [
-  {
-    id: generateId(),
-    name: 'Renato Albuquerque',
-    role: 'Mecanico',
-    phone: '(11) 95555-2901',
-    email: 'renato.albuquerque@redcar.com',
-    active: true,
-    expertiseLevel: 'Senior',
-    certificationExpiry: new Date(Date.now() + 90 * 86_400_000).toISOString(),
-    hiredAt: new Date('2020-03-10').toISOString(),
-  },
-  {
-    id: generateId(),
-    name: 'Isabela Monteiro',
-    role: 'Diagnostico',
-    phone: '(11) 98888-4412',
-    email: 'isabela.monteiro@redcar.com',
-    active: true,
-    expertiseLevel: 'Pleno',
-    certificationExpiry: new Date(Date.now() + 45 * 86_400_000).toISOString(),
-    hiredAt: new Date('2021-08-22').toISOString(),
-  },
-];
-
-const defaultParts: Part[] = [
-  {
-    id: generateId(),
-    name: 'Filtro de oleo sintetico',
-    code: 'RC-FO-900',
-    quantity: 18,
-    minStock: 6,
-    location: 'Corredor B2',
-    supplier: 'Mann-Filter',
-    category: 'Mecanica',
-    unitCost: 38.9,
-    updatedAt: nowIso(),
-  },
-  {
-    id: generateId(),
-    name: 'Pastilha de freio ceramica',
-    code: 'RC-PF-320',
-    quantity: 8,
-    minStock: 12,
-    location: 'Corredor A1',
-    supplier: 'Bosch',
-    category: 'Suspensao',
-    unitCost: 126.4,
-    updatedAt: nowIso(),
-  },
-];
-
-const defaultRevisions: Revision[] = [
-  {
-    id: generateId(),
-    clientName: 'Juliana Souza',
-    clientPhone: '(11) 97123-4001',
-    vehicleModel: 'Toyota Corolla 2022',
-    licensePlate: 'FRT-1023',
-    serviceDescription: 'Revisao de 20.000 km + alinhamento',
-    scheduledDate: nowIso(),
-    scheduledTime: '14:00',
-    status: 'agendada',
-    priority: 'media',
-    assignedTo: defaultTeam[1]?.id,
-    notes: 'Cliente aguarda contato caso haja orcamento adicional.',
-    remindersEnabled: true,
-  },
-  {
-    id: generateId(),
-    clientName: 'Carlos Henrique',
-    clientPhone: '(11) 97211-8899',
-    vehicleModel: 'Honda Civic 2020',
-    licensePlate: 'HDC-7788',
-    serviceDescription: "Troca de correia dentada e bomba d'agua",
-    scheduledDate: new Date(Date.now() + 86_400_000).toISOString(),
-    scheduledTime: '10:30',
-    status: 'em andamento',
-    priority: 'alta',
-    assignedTo: defaultTeam[0]?.id,
-    notes: 'Pecas separadas, aguardar aprovacao para itens extras.',
-    remindersEnabled: false,
-  },
-  {
-    id: generateId(),
-    clientName: 'Maria Silva',
-    clientPhone: '(11) 99999-1234',
-    vehicleModel: 'Volkswagen Golf 2021',
-    licensePlate: 'MSG-4567',
-    serviceDescription: 'Revisao completa + troca de filtros',
-    scheduledDate: new Date(Date.now() - 2 * 86_400_000).toISOString(),
-    scheduledTime: '09:00',
-    status: 'concluida',
-    priority: 'baixa',
-    assignedTo: defaultTeam[0]?.id,
-    notes: 'Servico concluido com sucesso. Cliente satisfeito.',
-    remindersEnabled: false,
-  },
-];
-
-const defaultClients: Client[] = [
-  {
-    id: generateId(),
-    name: 'Fernanda Azevedo',
-    phone: '(11) 96330-1200',
-    email: 'fernanda.azevedo@email.com',
-    vehicle: 'Renault Duster 2019',
-    licensePlate: 'FND-8891',
-    lastVisit: new Date(Date.now() - 30 * 86_400_000).toISOString(),
-    tier: 'Gold',
-    preferredAdvisor: defaultTeam[0]?.id,
-    active: true,
-    notes: 'Prefere agendamentos pela manha.',
-  },
-  {
-    id: generateId(),
-    name: 'Tiago Martins',
-    phone: '(11) 97700-1122',
-    email: 'tiago.martins@email.com',
-    vehicle: 'Chevrolet Tracker 2021',
-    licensePlate: 'TMX-3211',
-    lastVisit: new Date(Date.now() - 75 * 86_400_000).toISOString(),
-    tier: 'Standard',
-    active: true,
-    notes: 'Solicitou orcamento para instalacao de acessorios.',
-  },
-];
-
-const defaultSuppliers: Supplier[] = [
-  {
-    id: generateId(),
-    company: 'AutoParts Brasil',
-    contactName: 'Luciana Reis',
-    phone: '(11) 94221-7800',
-    email: 'luciana.reis@autoparts.com',
-    category: 'Pecas originais',
-    leadTimeDays: 3,
-    preferred: true,
-    rating: 4.8,
-    lastOrderDate: new Date(Date.now() - 12 * 86_400_000).toISOString(),
-  },
-  {
-    id: generateId(),
-    company: 'PneusMax',
-    contactName: 'Eduardo Lima',
-    phone: '(11) 93011-9022',
-    email: 'eduardo@pneusmax.com',
-    category: 'Pneus',
-    leadTimeDays: 5,
-    preferred: false,
-    rating: 4.3,
-    lastOrderDate: new Date(Date.now() - 40 * 86_400_000).toISOString(),
-  },
-];
-
-async function loadCollection<T>(key: string, fallback: T[]): Promise<T[]> {
-  try {
-    console.log(`📂 Carregando ${key}...`);
-    const raw = await AsyncStorage.getItem(key);
-    if (!raw) {
-      console.log(`📝 ${key} não encontrado, usando dados padrão`);
-      await AsyncStorage.setItem(key, JSON.stringify(fallback));
-      return fallback;
-    }
-    const parsed = JSON.parse(raw) as T[];
-    console.log(`✅ ${key} carregado:`, parsed.length, 'itens');
-    return parsed;
-  } catch (error) {
-    console.error(`❌ Erro ao carregar ${key}:`, error);
-    return fallback;
-  }
-}
+const defaultBackend = createDefaultBackend();
 
-async function persistCollection<T>(key: string, value: T[]) {
-  try {
-    console.log(`💾 Persistindo ${key}:`, value.length, 'itens');
-    await AsyncStorage.setItem(key, JSON.stringify(value));
-    console.log(`✅ ${key} salvo com sucesso`);
-  } catch (error) {
-    console.error(`❌ Erro ao salvar ${key}:`, error);
-  }
-}
+const defaultSyncApi = createDefaultSyncApi();
+
+const seeds: { [K in EntityName]: EntityMap[K][] } = {
+  branches: defaultBranches,
+  parts: defaultParts,
+  revisions: defaultRevisions,
+  team: defaultTeam,
+  clients: defaultClients,
+  suppliers: defaultSuppliers,
+  stockMovements: defaultStockMovements,
+  // Sample orders would point at parts and suppliers that existing installs do not have.
+  purchaseOrders: [],
+};
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const withoutTrashed = <T extends { deletedAt?: string }>(items: T[]) =>
+  items.filter((item) => !item.deletedAt);
+
+const inBranch = <T extends { branchId: UUID }>(items: T[], branchId: UUID | null) =>
+  branchId ? items.filter((item) => item.branchId === branchId) : items;
+
+/** Stamps a local change; `version` is left alone, only the sync server moves it. */
+const touch = <T extends { updatedAt?: string }>(record: T): T => ({
+  ...record,
+  updatedAt: nowIso(),
+});
+
+export type TrashedRecord = {
+  [K in TrashableEntity]: { entity: K; record: EntityMap[K] };
+}[TrashableEntity];
+
+const UNDO_HISTORY_LIMIT = 50;
+
+type EntityRecord = EntityMap[EntityName];
+
+type RecordChange = {
+  entity: EntityName;
+  id: UUID;
+  before?: EntityRecord;
+  after?: EntityRecord;
+};
+
+type HistoryEntry = {
+  /** Applied in order; undone in reverse. */
+  changes: RecordChange[];
+  description: string;
+};
 
-export function DataProvider({ children }: { children: ReactNode }) {
+const ACTION_LABELS: { [K in AuditAction]: string } = {
+  create: 'Cadastro',
+  update: 'Edição',
+  delete: 'Exclusão',
+  restore: 'Restauração',
+  purge: 'Exclusão definitiva',
+  import: 'Restauração de backup',
+};
+
+const describeChange = (entity: EntityName, action: AuditAction) =>
+  `${ACTION_LABELS[action]}: ${ENTITY_LABELS[entity].toLowerCase()}`;
+
+type CollectionMap = { [K in EntityName]: CollectionActions<EntityMap[K]> };
+
+type DataProviderProps = {
+  children: ReactNode;
+  backend?: StorageBackend;
+  /** `null` keeps every change on this device. */
+  syncApi?: SyncApi | null;
+};
+
+/** A change as queued for sync, with the server copy it was made on. */
+const queuedChangeOf = (change: RecordChange): QueuedChange => ({
+  entity: change.entity,
+  recordId: change.id,
+  baseVersion: (change.before ?? change.after)?.version ?? 0,
+  base: change.before,
+});
+
+export function DataProvider({
+  children,
+  backend: plainBackend = defaultBackend,
+  syncApi = defaultSyncApi,
+}: DataProviderProps) {
+  const vault = useMemo(() => createVault(), []);
+  const backend = useMemo(() => withEncryption(plainBackend, vault), [plainBackend, vault]);
+  const api = useMemo(() => syncApi && withSyncEncryption(syncApi, vault), [syncApi, vault]);
   const [isReady, setIsReady] = useState(false);
-  const [parts, setParts] = useState<Part[]>([]);
-  const [revisions, setRevisions] = useState<Revision[]>([]);
-  const [team, setTeam] = useState<TeamMember[]>([]);
-  const [clients, setClients] = useState<Client[]>([]);
-  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [vaultKeys, setVaultKeys] = useState<VaultKeys | null>(null);
+  const [bootstrapError, setBootstrapError] = useState<string | null>(null);
+  const [bootstrapAttempt, setBootstrapAttempt] = useState(0);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [actingMemberId, setActingMemberId] = useState<UUID | null>(null);
+  const actingMemberRef = useRef<UUID | null>(null);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const [activeBranchId, setActiveBranchId] = useState<UUID | null>(null);
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  // Sign-in may run right after an account is created, before the new list renders.
+  const accountsRef = useRef<UserAccount[]>([]);
+  const permissionsRef = useRef<Permission[]>([]);
+
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const {
+    nextUndo,
+    nextRedo,
+    pushes: changeCount,
+    actions: history,
+  } = useUndoHistory<HistoryEntry>(UNDO_HISTORY_LIMIT);
+
+  const {
+    items: branchRecords,
+    persistence: branchPersistence,
+    actions: branchActions,
+  } = useCollection(backend.branches);
+  const {
+    items: partRecords,
+    persistence: partPersistence,
+    actions: partActions,
+  } = useCollection(backend.parts);
+  const {
+    items: revisionRecords,
+    persistence: revisionPersistence,
+    actions: revisionActions,
+  } = useCollection(backend.revisions);
+  const {
+    items: teamRecords,
+    persistence: teamPersistence,
+    actions: teamActions,
+  } = useCollection(backend.team);
+  const {
+    items: clientRecords,
+    persistence: clientPersistence,
+    actions: clientActions,
+  } = useCollection(backend.clients);
+  const {
+    items: supplierRecords,
+    persistence: supplierPersistence,
+    actions: supplierActions,
+  } = useCollection(backend.suppliers);
+  const {
+    items: movementRecords,
+    persistence: movementPersistence,
+    actions: movementActions,
+  } = useCollection(backend.stockMovements);
+  const {
+    items: orderRecords,
+    persistence: orderPersistence,
+    actions: orderActions,
+  } = useCollection(backend.purchaseOrders);
+
+  // A failure anywhere outweighs writes still going on elsewhere.
+  const persistence = useMemo<PersistenceState>(() => {
+    const states = [
+      branchPersistence,
+      partPersistence,
+      revisionPersistence,
+      teamPersistence,
+      clientPersistence,
+      supplierPersistence,
+      movementPersistence,
+      orderPersistence,
+    ];
+    return (
+      states.find((state) => state.status === 'failed') ??
+      states.find((state) => state.status === 'saving') ??
+      SAVED_STATE
+    );
+  }, [
+    branchPersistence,
+    clientPersistence,
+    movementPersistence,
+    orderPersistence,
+    partPersistence,
+    revisionPersistence,
+    supplierPersistence,
+    teamPersistence,
+  ]);
+
+  const branches = useMemo(() => withoutTrashed(branchRecords), [branchRecords]);
+  const allParts = useMemo(() => withoutTrashed(partRecords), [partRecords]);
+  const parts = useMemo(() => inBranch(allParts, activeBranchId), [activeBranchId, allParts]);
+  const revisions = useMemo(
+    () => inBranch(withoutTrashed(revisionRecords), activeBranchId),
+    [activeBranchId, revisionRecords]
+  );
+  const reservedStock = useMemo(() => reservedQuantities(revisionRecords), [revisionRecords]);
+  const allTeam = useMemo(() => withoutTrashed(teamRecords), [teamRecords]);
+  const team = useMemo(() => inBranch(allTeam, activeBranchId), [activeBranchId, allTeam]);
+  const clients = useMemo(() => withoutTrashed(clientRecords), [clientRecords]);
+  const suppliers = useMemo(() => withoutTrashed(supplierRecords), [supplierRecords]);
+  const stockMovements = useMemo(() => withoutTrashed(movementRecords), [movementRecords]);
+  const purchaseOrders = useMemo(
+    () => inBranch(withoutTrashed(orderRecords), activeBranchId),
+    [activeBranchId, orderRecords]
+  );
+
+  const currentMember = useMemo(
+    () => allTeam.find((member) => member.id === actingMemberId) ?? null,
+    [actingMemberId, allTeam]
+  );
+  const accountSummaries = useMemo(
+    () =>
+      accounts.map(({ memberId, name, isAdmin, createdAt }) => ({
+        memberId,
+        name,
+        isAdmin,
+        createdAt,
+      })),
+    [accounts]
+  );
+  // Derived from the current role, so a role change applies without signing in again.
+  const permissions = useMemo(() => {
+    const account = accounts.find((item) => item.memberId === currentMember?.id);
+    return currentMember && account ? permissionsFor(currentMember.role, account.isAdmin) : [];
+  }, [accounts, currentMember]);
+
+  useEffect(() => {
+    permissionsRef.current = permissions;
+  }, [permissions]);
+
+  const can = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
+  const applyAccounts = useCallback((next: UserAccount[]) => {
+    accountsRef.current = next;
+    setAccounts(next);
+  }, []);
+
+  const assertCan = useCallback((permission: Permission) => {
+    if (!permissionsRef.current.includes(permission)) {
+      throw new PermissionDeniedError(permission);
+    }
+  }, []);
+
+  const trash = useMemo(() => {
+    const records = {
+      branches: branchRecords,
+      parts: partRecords,
+      revisions: revisionRecords,
+      team: teamRecords,
+      clients: clientRecords,
+      suppliers: supplierRecords,
+      purchaseOrders: orderRecords,
+    } as { [K in TrashableEntity]: EntityMap[EntityName][] };
+    return (Object.keys(records) as TrashableEntity[])
+      .flatMap((entity) =>
+        records[entity]
+          .filter((record) => record.deletedAt)
+          .map((record) => ({ entity, record }) as TrashedRecord)
+      )
+      .sort((left, right) => right.record.deletedAt!.localeCompare(left.record.deletedAt!));
+  }, [
+    branchRecords,
+    clientRecords,
+    orderRecords,
+    partRecords,
+    revisionRecords,
+    supplierRecords,
+    teamRecords,
+  ]);
+
+  const collections = useMemo<CollectionMap>(
+    () => ({
+      branches: branchActions,
+      parts: partActions,
+      revisions: revisionActions,
+      team: teamActions,
+      clients: clientActions,
+      suppliers: supplierActions,
+      stockMovements: movementActions,
+      purchaseOrders: orderActions,
+    }),
+    [
+      branchActions,
+      clientActions,
+      movementActions,
+      orderActions,
+      partActions,
+      revisionActions,
+      supplierActions,
+      teamActions,
+    ]
+  );
+
+  const flushWrites = useCallback(
+    () => Promise.all(ENTITY_NAMES.map((name) => collections[name].flush())).then(() => undefined),
+    [collections]
+  );
+
+  const retryPersistence = useCallback(
+    () =>
+      Promise.all(ENTITY_NAMES.map((name) => collections[name].retryWrites())).then(
+        () => undefined
+      ),
+    [collections]
+  );
+
+  const appendAudit = useCallback(
+    async (entry: AuditEntry) => {
+      try {
+        await backend.audit.append(entry);
+      } catch (error) {
+        // A missing audit entry must never undo a change the user already sees.
+        logger.error('storage', 'Erro ao registrar auditoria', error);
+      }
+    },
+    [backend]
+  );
+
+  const recordAudit = useCallback(
+    (
+      entity: EntityName,
+      recordId: UUID,
+      before: EntityRecord | undefined,
+      after: EntityRecord | undefined,
+      // `null` marks changes made by the app itself rather than by the operator.
+      actorId: UUID | null = actingMemberRef.current
+    ) =>
+      appendAudit(
+        buildAuditEntry(
+          entity,
+          recordId,
+          auditActionFor(before, after),
+          before,
+          after,
+          actorId ?? undefined
+        )
+      ),
+    [appendAudit]
+  );
+
+  const findRecord = useCallback(
+    (entity: EntityName, id: UUID) =>
+      (collections[entity].itemsRef.current as EntityRecord[]).find((item) => item.id === id),
+    [collections]
+  );
+
+  const applyRemote = useCallback(
+    async (entity: EntityName, id: UUID, record: EntityRecord | undefined) => {
+      const actions = collections[entity] as CollectionActions<EntityRecord>;
+      const current = findRecord(entity, id);
+      if (!record) {
+        await actions.remove(id);
+      } else if (!(await actions.update(id, () => record))) {
+        await actions.insert(record);
+      }
+      // The server confirming a change made here only moves the revision number.
+      if (diffRecords(current, record).some((change) => change.field !== 'version')) {
+        await recordAudit(entity, id, current, record, null);
+      }
+    },
+    [collections, findRecord, recordAudit]
+  );
+
+  const currentRecords = useCallback(
+    (includeTrashed: boolean) => {
+      const records = {} as EntityRecords;
+      ENTITY_NAMES.forEach((name) => {
+        const items = collections[name].itemsRef.current as EntityRecord[];
+        (records as { [K in EntityName]: EntityRecord[] })[name] = includeTrashed
+          ? items
+          : withoutTrashed(items);
+      });
+      return records;
+    },
+    [collections]
+  );
+
+  /** Pulled records go through the checks of local loads; those that fail are quarantined. */
+  const screenRemote = useCallback(
+    async (pulled: PulledRecord[]) => {
+      const { accepted, rejected } = screenPulledRecords(
+        pulled,
+        currentRecords(true),
+        (entity, record) =>
+          findStoredRecordIssue(entity, record) ??
+          (hasEncryptedFields(entity, record)
+            ? 'Registro criptografado com uma chave que este aparelho não tem'
+            : null)
+      );
+      if (rejected.length) {
+        logger.warn('sync', `${rejected.length} registro(s) recebido(s) isolado(s)`);
+        // Fails the pull when it cannot be saved, so the records are pulled again next time.
+        setQuarantine(
+          await addToQuarantine(
+            backend.meta,
+            rejected.map(({ entity, record, reason }) => ({
+              entity,
+              record,
+              reason,
+              quarantinedAt: nowIso(),
+            }))
+          )
+        );
+      }
+      return accepted;
+    },
+    [backend, currentRecords]
+  );
+
+  const syncTarget = useMemo(
+    () => ({ findRecord, applyRemote, screenRemote }),
+    [applyRemote, findRecord, screenRemote]
+  );
+  const {
+    status: syncStatus,
+    pendingCount: pendingSyncCount,
+    lastSyncedAt,
+    lastError: syncError,
+    conflicts: syncConflicts,
+    actions: sync,
+  } = useSync(backend.meta, api, syncTarget);
+
+  const updateById = useCallback(
+    async (entity: EntityName, id: UUID, build: (current: EntityRecord) => EntityRecord) => {
+      const actions = collections[entity] as CollectionActions<EntityRecord>;
+      const result = await actions.update(id, (current) => touch(build(current)));
+      return result ? { entity, id, ...result } : null;
+    },
+    [collections]
+  );
+
+  const removeById = useCallback(
+    async (entity: EntityName, id: UUID) => {
+      const removed = await collections[entity].remove(id);
+      return removed ? { entity, id, before: removed as EntityRecord } : null;
+    },
+    [collections]
+  );
+
+  const clearReferences = useCallback(
+    async (plan: DeletePlan) => {
+      const changes: (RecordChange | null)[] = [];
+      for (const { relation, targetId, records } of plan.reassigned) {
+        for (const record of records) {
+          changes.push(
+            await updateById(relation.from, record.id, (item) =>
+              unlinkReference(item, relation, targetId)
+            )
+          );
+        }
+      }
+      return changes;
+    },
+    [updateById]
+  );
+
+  /**
+   * Removes a record for good, with the records archived with it, and clears what pointed at
+   * it; the caller tracks the changes.
+   */
+  const purgeById = useCallback(
+    async (entity: EntityName, id: UUID, plan: DeletePlan) => {
+      const changes: (RecordChange | null)[] = [await removeById(entity, id)];
+      if (!changes[0]) {
+        return [];
+      }
+      for (const { relation, records } of plan.archived) {
+        for (const record of records) {
+          changes.push(await removeById(relation.from, record.id));
+        }
+      }
+      changes.push(...(await clearReferences(plan)));
+      return changes;
+    },
+    [clearReferences, removeById]
+  );
+
+  /** Purges records trashed before the retention period, under the same rules as `purgeRecord`. */
+  const purgeExpiredTrash = useCallback(
+    async (retentionDays: number) => {
+      const targets = planTrashPurge(currentRecords(true), Date.now() - retentionDays * DAY_IN_MS);
+      const changes: (RecordChange | null)[] = [];
+      for (const { entity, id } of targets) {
+        const plan = planDelete(entity, id, currentRecords(true));
+        if (!plan.blockers.length) {
+          changes.push(...(await purgeById(entity, id, plan)));
+        }
+      }
+      const applied = changes.filter((change): change is RecordChange => change !== null);
+      for (const change of applied) {
+        await recordAudit(change.entity, change.id, change.before, change.after, null);
+      }
+      await sync.enqueue(applied.map(queuedChangeOf));
+    },
+    [currentRecords, purgeById, recordAudit, sync]
+  );
 
   useEffect(() => {
     const bootstrap = async () => {
-      const [storedParts, storedRevisions, storedTeam, storedClients, storedSuppliers] =
-        await Promise.all([
-          loadCollection(STORAGE_KEYS.parts, defaultParts),
-          loadCollection(STORAGE_KEYS.revisions, defaultRevisions),
-          loadCollection(STORAGE_KEYS.team, defaultTeam),
-          loadCollection(STORAGE_KEYS.clients, defaultClients),
-          loadCollection(STORAGE_KEYS.suppliers, defaultSuppliers),
-        ]);
-
-      setParts(storedParts);
-      setRevisions(storedRevisions);
-      setTeam(storedTeam);
-      setClients(storedClients);
-      setSuppliers(storedSuppliers);
+      setIsReady(false);
+      history.clear();
+      setBootstrapError(null);
+      applyAccounts(await readAccounts(backend.meta).catch(() => []));
+      let storedKeys: VaultKeys | null;
+      try {
+        storedKeys = await readVaultKeys(backend.meta);
+      } catch (error) {
+        logger.error('auth', 'Erro ao ler chaves de criptografia', error);
+        setBootstrapError('As chaves de criptografia deste aparelho estão corrompidas.');
+        return;
+      }
+      setVaultKeys(storedKeys);
+      // Encrypted data waits for a member to sign in and unlock it.
+      if (storedKeys && !vault.isUnlocked()) {
+        vault.lock();
+        setIsLocked(true);
+        return;
+      }
+
+      try {
+        // Records must match the current entity types before they reach the screens.
+        await runMigrations(backend);
+      } catch (error) {
+        logger.error('storage', 'Erro ao migrar dados', error);
+        setBootstrapError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      let rejected: QuarantinedRecord[][];
+      try {
+        rejected = await Promise.all(
+          ENTITY_NAMES.map(async (name) => {
+            const actions = collections[name] as CollectionActions<EntityMap[EntityName]>;
+            const records = await actions.load(seeds[name], (record) =>
+              findStoredRecordIssue(name, record)
+            );
+            return records.map<QuarantinedRecord>(({ record, reason }) => ({
+              entity: name,
+              record,
+              reason,
+              quarantinedAt: nowIso(),
+            }));
+          })
+        );
+      } catch (error) {
+        // Unreadable encrypted data is left in storage untouched, so a fix or backup can recover it.
+        logger.error('storage', 'Erro ao descriptografar dados', error);
+        setBootstrapError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+
+      const quarantined = rejected.flat();
+      if (quarantined.length) {
+        logger.warn('storage', `${quarantined.length} registro(s) inválido(s) isolado(s)`);
+        try {
+          setQuarantine(await addToQuarantine(backend.meta, quarantined));
+          // Only drop the bad records from storage once they are safe in quarantine.
+          await Promise.all(
+            ENTITY_NAMES.filter((name) => quarantined.some((entry) => entry.entity === name)).map(
+              (name) => {
+                const actions = collections[name] as CollectionActions<EntityMap[EntityName]>;
+                return actions.replaceAll(actions.itemsRef.current);
+              }
+            )
+          );
+        } catch (error) {
+          logger.error('storage', 'Erro ao isolar registros inválidos', error);
+        }
+      } else {
+        setQuarantine(await readQuarantine(backend.meta).catch(() => []));
+      }
+
+      const storedBranch =
+        (await backend.meta.get(METADATA_KEYS.activeBranch).catch(() => null)) || null;
+      const branchExists = branchActions.itemsRef.current.some(
+        (branch) => branch.id === storedBranch && !branch.deletedAt
+      );
+      setActiveBranchId(branchExists ? storedBranch : null);
+
+      const storedRetention = Number(
+        await backend.meta.get(METADATA_KEYS.trashRetentionDays).catch(() => null)
+      );
+      const retentionDays = storedRetention > 0 ? storedRetention : DEFAULT_TRASH_RETENTION_DAYS;
+      setTrashRetentionDaysState(retentionDays);
+      await sync.load();
+      await purgeExpiredTrash(retentionDays);
       setIsReady(true);
+      logger.info('app', 'Dados carregados');
     };
 
     bootstrap();
+  }, [
+    applyAccounts,
+    backend,
+    bootstrapAttempt,
+    branchActions,
+    collections,
+    history,
+    purgeExpiredTrash,
+    sync,
+    vault,
+  ]);
+
+  const retryBootstrap = useCallback(() => {
+    setBootstrapAttempt((previous) => previous + 1);
   }, []);
 
-  useEffect(() => {
-    if (isReady) {
-      void persistCollection(STORAGE_KEYS.parts, parts);
+  const discardQuarantine = useCallback(async () => {
+    assertCan('data.manage');
+    await clearQuarantine(backend.meta);
+    setQuarantine([]);
+  }, [assertCan, backend]);
+
+  /** Runs the form rules and checks that referenced records exist among `records`. */
+  const validateInput = useCallback(
+    async (entity: EntityName, input: object, records = currentRecords(false)) => {
+      await assertValidInput(entity, input);
+      const issues = findBrokenReferences(entity, input, records);
+      if (Object.keys(issues).length) {
+        throw new EntityValidationError(entity, issues);
+      }
+    },
+    [currentRecords]
+  );
+
+  /** Audits changes made by the operator and records them as one undoable step. */
+  const trackChanges = useCallback(
+    async (changes: (RecordChange | null)[], description?: string) => {
+      const applied = changes.filter((change): change is RecordChange => change !== null);
+      if (!applied.length) {
+        return;
+      }
+      const [primary] = applied;
+      history.push({
+        changes: applied,
+        description:
+          description ??
+          describeChange(primary.entity, auditActionFor(primary.before, primary.after)),
+      });
+      for (const change of applied) {
+        await recordAudit(change.entity, change.id, change.before, change.after);
+      }
+      await sync.enqueue(applied.map(queuedChangeOf));
+    },
+    [history, recordAudit, sync]
+  );
+
+  const insertRecord = useCallback(
+    async <K extends EntityName>(entity: K, item: EntityMap[K]) => {
+      assertCan(`${entity}.edit`);
+      const record = touch(item);
+      await collections[entity].insert(record);
+      await trackChanges([{ entity, id: item.id, after: record }]);
+    },
+    [assertCan, collections, trackChanges]
+  );
+
+  const updateRecord = useCallback(
+    async <K extends EntityName>(
+      entity: K,
+      id: UUID,
+      build: (current: EntityMap[K]) => EntityMap[K]
+    ) => {
+      assertCan(`${entity}.edit`);
+      const result = await collections[entity].update(id, (current) => touch(build(current)));
+      await trackChanges([result ? { entity, id, ...result } : null]);
+    },
+    [assertCan, collections, trackChanges]
+  );
+
+  /** Runs the ledger rules on a movement of `part`, before the part or the ledger is written. */
+  const validateMovement = useCallback(
+    (part: Part, movement: StockMovementInput, balance = part.quantity + movement.quantity) =>
+      validateInput('stockMovements', {
+        branchId: part.branchId,
+        partId: part.id,
+        ...movement,
+        balance,
+        createdAt: nowIso(),
+      }),
+    [validateInput]
+  );
+
+  /** Checks movements of several parts, all of them before the first one is written. */
+  const validateMovements = useCallback(
+    async (movements: { partId: UUID; movement: StockMovementInput }[]) => {
+      for (const { partId, movement } of movements) {
+        const part = partActions.itemsRef.current.find((item) => item.id === partId);
+        if (part) {
+          await validateMovement(part, movement);
+        }
+      }
+    },
+    [partActions, validateMovement]
+  );
+
+  /** Adds an entry to the stock ledger for a part already saved with `balance` units. */
+  const appendMovement = useCallback(
+    async (part: Part, movement: StockMovementInput, balance = part.quantity) => {
+      const record = touch<StockMovement>({
+        id: generateId(),
+        branchId: part.branchId,
+        partId: part.id,
+        ...movement,
+        balance,
+        memberId: actingMemberRef.current ?? undefined,
+        createdAt: nowIso(),
+      });
+      await movementActions.insert(record);
+      return { entity: 'stockMovements', id: record.id, after: record } satisfies RecordChange;
+    },
+    [movementActions]
+  );
+
+  /** Changes the quantity of a part and records why; the caller tracks both changes. */
+  const moveStock = useCallback(
+    async (partId: UUID, movement: StockMovementInput) => {
+      const change = await updateById('parts', partId, (item) => ({
+        ...item,
+        quantity: (item as Part).quantity + movement.quantity,
+      }));
+      return change ? [change, await appendMovement(change.after as Part, movement)] : [];
+    },
+    [appendMovement, updateById]
+  );
+
+  // Deleting only moves the record to the trash; `purgeRecord` removes it for good.
+  const removeRecord = useCallback(
+    async (entity: TrashableEntity, id: UUID) => {
+      assertCan(`${entity}.delete`);
+      const plan = planDelete(entity, id, currentRecords(false));
+      if (plan.blockers.length) {
+        throw new ReferentialIntegrityError(entity, plan.blockers);
+      }
+      const deletedAt = nowIso();
+      const changes: (RecordChange | null)[] = [
+        await updateById(entity, id, (item) => ({ ...item, deletedAt })),
+      ];
+      if (!changes[0]) {
+        return;
+      }
+      // Archived records share the deletedAt of their record, which is how restoring finds them.
+      for (const { relation, records } of plan.archived) {
+        for (const record of records) {
+          changes.push(
+            await updateById(relation.from, record.id, (item) => ({ ...item, deletedAt }))
+          );
+        }
+      }
+      changes.push(...(await clearReferences(plan)));
+      await trackChanges(changes);
+    },
+    [assertCan, clearReferences, currentRecords, trackChanges, updateById]
+  );
+
+  /**
+   * References to records deleted meanwhile are cleared where a delete would clear them;
+   * otherwise the restore is refused until those records are restored first.
+   */
+  const restoreRecord = useCallback(
+    async (entity: TrashableEntity, id: UUID) => {
+      assertCan(`${entity}.delete`);
+      const record = findRecord(entity, id);
+      if (!record?.deletedAt) {
+        return;
+      }
+      const missing = findMissingReferences(entity, record, currentRecords(false));
+      const blocking = missing.filter(({ relation }) => relation.onDelete === 'block');
+      if (blocking.length) {
+        throw new EntityValidationError(
+          entity,
+          Object.fromEntries(
+            blocking.map(({ relation }) => [
+              relation.field,
+              `${ENTITY_LABELS[relation.to]} vinculado está na lixeira ou foi excluído.`,
+            ])
+          )
+        );
+      }
+      const changes: (RecordChange | null)[] = [
+        await updateById(entity, id, (item) =>
+          missing.reduce(
+            (next, { relation, targetId }) => unlinkReference(next, relation, targetId),
+            { ...item, deletedAt: undefined }
+          )
+        ),
+      ];
+      for (const { relation, records } of planDelete(entity, id, currentRecords(true)).archived) {
+        for (const archived of records.filter((item) => item.deletedAt === record.deletedAt)) {
+          changes.push(
+            await updateById(relation.from, archived.id, (item) => ({
+              ...item,
+              deletedAt: undefined,
+            }))
+          );
+        }
+      }
+      await trackChanges(changes);
+    },
+    [assertCan, currentRecords, findRecord, trackChanges, updateById]
+  );
+
+  const purgeRecord = useCallback(
+    async (entity: TrashableEntity, id: UUID) => {
+      assertCan('data.manage');
+      // Trashed records count too: they may be restored and must not point at nothing.
+      const plan = planDelete(entity, id, currentRecords(true));
+      if (plan.blockers.length) {
+        throw new ReferentialIntegrityError(entity, plan.blockers);
+      }
+      await trackChanges(await purgeById(entity, id, plan));
+    },
+    [assertCan, currentRecords, purgeById, trackChanges]
+  );
+
+  const planDeletion = useCallback(
+    (entity: EntityName, id: UUID) => planDelete(entity, id, currentRecords(false)),
+    [currentRecords]
+  );
+
+  const exportBackup = useCallback(() => {
+    assertCan('data.manage');
+    return createBackup(currentRecords(true), nowIso());
+  }, [assertCan, currentRecords]);
+
+  const previewBackup = useCallback(
+    (backup: Backup) => diffBackup(currentRecords(true), backup),
+    [currentRecords]
+  );
+
+  const restoreBackup = useCallback(
+    async (backup: Backup, mode: RestoreMode) => {
+      assertCan('data.manage');
+      const current = currentRecords(true);
+      const next = restoredRecords(current, backup, mode);
+      const changes: QueuedChange[] = [];
+      for (const name of ENTITY_NAMES) {
+        const actions = collections[name] as CollectionActions<EntityRecord>;
+        const records = next[name] as EntityRecord[];
+        const previous = new Map(
+          (current[name] as EntityRecord[]).map((record) => [record.id, record])
+        );
+        await actions.replaceAll(records);
+        records.forEach((record) => {
+          changes.push(
+            queuedChangeOf({ entity: name, id: record.id, before: previous.get(record.id), after: record })
+          );
+          previous.delete(record.id);
+        });
+        previous.forEach((record) =>
+          changes.push(queuedChangeOf({ entity: name, id: record.id, before: record }))
+        );
+        await appendAudit(
+          buildAuditEntry(
+            name,
+            name,
+            'import',
+            { records: current[name].length },
+            { records: records.length },
+            actingMemberRef.current ?? undefined
+          )
+        );
+      }
+      history.clear();
+      await sync.enqueue(changes);
+    },
+    [appendAudit, assertCan, collections, currentRecords, history, sync]
+  );
+
+  /**
+   * Applies an undo or redo with the checks of a regular change. Records changed since are
+   * left alone, and movements leave the ledger through a reversal rather than being erased.
+   */
+  const applySteps = useCallback(
+    async (steps: HistoryStep[]) => {
+      const projected = projectSteps(currentRecords(true), steps);
+      const live = Object.fromEntries(
+        ENTITY_NAMES.map((name) => [name, withoutTrashed(projected[name] as EntityRecord[])])
+      ) as unknown as EntityRecords;
+      const reversals = ledgerReversals(steps, projected);
+      const reversed = new Set(reversals.map((reversal) => reversal.step));
+      const kept = steps.filter((_, index) => !reversed.has(index));
+      for (const step of kept) {
+        const { entity, id, from, to } = step;
+        const permission = stepPermission(step);
+        if (permission) {
+          assertCan(permission);
+        }
+        if (entity === 'parts' && to && changesPartCost(from as Part | undefined, to as Part)) {
+          assertCan('parts.cost');
+        }
+        if (to && !to.deletedAt) {
+          // Leaving the trash or moving stock keeps the record as it was saved.
+          if (changesOnly(step, TRASH_FIELDS) || changesOnly(step, STOCK_FIELDS)) {
+            const issues = findBrokenReferences(entity, to, live);
+            if (Object.keys(issues).length) {
+              throw new EntityValidationError(entity, issues);
+            }
+          } else {
+            await validateInput(entity, to, live);
+          }
+        } else if (entity !== 'stockMovements' && !from?.deletedAt) {
+          const plan = planDelete(entity, id, to ? live : projected);
+          const impacts = [...plan.blockers, ...plan.reassigned, ...plan.archived];
+          if (impacts.length) {
+            throw new ReferentialIntegrityError(entity, impacts);
+          }
+        }
+      }
+      for (const { part, movement, balance } of reversals) {
+        if (!movement.revisionId && !movement.purchaseOrderId) {
+          assertCan('stockMovements.edit');
+        }
+        await validateMovement(part, movement, balance);
+      }
+
+      const applied: RecordChange[] = [];
+      for (const { entity, id, to } of kept) {
+        const actions = collections[entity] as CollectionActions<EntityRecord>;
+        const current = findRecord(entity, id);
+        const next = to && { ...touch(to), version: current?.version ?? to.version };
+        if (!next) {
+          await actions.remove(id);
+        } else if (!(await actions.update(id, () => next))) {
+          await actions.insert(next);
+        }
+        applied.push({ entity, id, before: current, after: next });
+      }
+      for (const { part, movement, balance } of reversals) {
+        applied.push(await appendMovement(part, movement, balance));
+      }
+      for (const change of applied) {
+        await recordAudit(change.entity, change.id, change.before, change.after);
+      }
+      await sync.enqueue(applied.map(queuedChangeOf));
+      return applied;
+    },
+    [
+      appendMovement,
+      assertCan,
+      collections,
+      currentRecords,
+      findRecord,
+      recordAudit,
+      sync,
+      validateInput,
+      validateMovement,
+    ]
+  );
+
+  const undo = useCallback(async () => {
+    const entry = history.peekUndo();
+    if (!entry) {
+      return;
     }
-  }, [isReady, parts]);
+    const applied = await applySteps(
+      [...entry.changes]
+        .reverse()
+        .map(({ entity, id, before, after }) => ({ entity, id, from: after, to: before }))
+    );
+    // Kept the way undoing left the records, so redo checks against what is stored now.
+    history.settleUndo(entry, {
+      ...entry,
+      changes: [...applied]
+        .reverse()
+        .map(({ entity, id, before, after }) => ({ entity, id, before: after, after: before })),
+    });
+  }, [applySteps, history]);
 
-  useEffect(() => {
-    if (isReady) {
-      console.log('💾 Salvando revisões no AsyncStorage:', revisions.length);
-      void persistCollection(STORAGE_KEYS.revisions, revisions);
+  const redo = useCallback(async () => {
+    const entry = history.peekRedo();
+    if (!entry) {
+      return;
     }
-  }, [isReady, revisions]);
+    const applied = await applySteps(
+      entry.changes.map(({ entity, id, before, after }) => ({
+        entity,
+        id,
+        from: before,
+        to: after,
+      }))
+    );
+    history.settleRedo(entry, { ...entry, changes: applied });
+  }, [applySteps, history]);
 
-  useEffect(() => {
-    if (isReady) {
-      void persistCollection(STORAGE_KEYS.team, team);
+  const resolveSyncConflict = useCallback(
+    async (conflictId: UUID, keepLocal: string[]) => {
+      const conflict = syncConflicts.find((item) => item.id === conflictId);
+      if (!conflict) {
+        return;
+      }
+      const restored = conflict.fields.filter((field) => keepLocal.includes(field.field));
+      if (restored.length) {
+        await updateRecord(conflict.entity, conflict.recordId, (current) => ({
+          ...current,
+          ...Object.fromEntries(restored.map((field) => [field.field, field.local])),
+        }));
+      }
+      await sync.dismissConflict(conflictId);
+    },
+    [sync, syncConflicts, updateRecord]
+  );
+
+  const setTrashRetentionDays = useCallback(
+    async (days: number) => {
+      assertCan('data.manage');
+      setTrashRetentionDaysState(days);
+      await backend.meta.set(METADATA_KEYS.trashRetentionDays, String(days));
+      await purgeExpiredTrash(days);
+    },
+    [assertCan, backend, purgeExpiredTrash]
+  );
+
+  const getAuditTrail = useCallback(
+    (entity: EntityName, recordId: UUID) => backend.audit.findByRecord(entity, recordId),
+    [backend]
+  );
+
+  const getStorageUsage = useCallback(() => backend.usage(), [backend]);
+
+  const saveAccounts = useCallback(
+    async (next: UserAccount[]) => {
+      await writeAccounts(backend.meta, next);
+      applyAccounts(next);
+    },
+    [applyAccounts, backend]
+  );
+
+  /** Writes the encrypted collections again, so they all use the vault's current key. */
+  const rewriteEncrypted = useCallback(async () => {
+    for (const name of ENCRYPTED_ENTITIES) {
+      await (backend[name] as Repository<EntityRecord>).replaceAll(
+        collections[name].itemsRef.current as EntityRecord[]
+      );
     }
-  }, [isReady, team]);
+  }, [backend, collections]);
 
+  /**
+   * Data saved before encryption existed is encrypted when an administrator first signs in.
+   * Other accounts get their copy of the master key when they are created or their PIN is
+   * reset, while the vault is unlocked.
+   */
+  const enableEncryption = useCallback(
+    async (account: UserAccount, pin: string) => {
+      const masterKey = createKey();
+      const keys = addDataKey(masterKey);
+      const sealed = await wrapKey(pin, masterKey);
+      await saveAccounts(
+        accountsRef.current.map((item) =>
+          item.memberId === account.memberId ? { ...item, masterKey: sealed } : item
+        )
+      );
+      // Plain values still read fine, so being interrupted from here on loses nothing.
+      await writeVaultKeys(backend.meta, keys);
+      vault.unlock(masterKey, keys);
+      setVaultKeys(keys);
+      await rewriteEncrypted();
+    },
+    [backend, rewriteEncrypted, saveAccounts, vault]
+  );
+
+  /** The master key sealed with `pin`; missing while there is no vault to share. */
+  const sealMasterKey = useCallback(
+    async (pin: string) => (vault.isUnlocked() ? wrapKey(pin, vault.masterKey()) : undefined),
+    [vault]
+  );
+
+  const unlockVault = useCallback(
+    async (account: UserAccount, pin: string) => {
+      if (!account.masterKey) {
+        throw new AccountError(
+          'Este acesso precisa de um novo PIN. Peça a um administrador para redefini-lo.'
+        );
+      }
+      const masterKey = await unwrapKey(pin, account.masterKey);
+      const keys = await readVaultKeys(backend.meta).catch(() => null);
+      try {
+        if (!masterKey || !keys) {
+          throw new Error('Chave ausente');
+        }
+        vault.unlock(masterKey, keys);
+      } catch (error) {
+        logger.error('auth', 'Erro ao abrir chave de criptografia', error);
+        throw new AccountError('Não foi possível abrir a chave de criptografia deste aparelho.');
+      }
+      setVaultKeys(keys);
+    },
+    [backend, vault]
+  );
+
+  const signIn = useCallback(
+    async (memberId: UUID, pin: string) => {
+      const lock = await readSignInLock(backend.meta);
+      if (lock.until > Date.now()) {
+        const seconds = Math.ceil((lock.until - Date.now()) / 1000);
+        throw new AccountError(`Muitas tentativas. Aguarde ${seconds} segundos.`);
+      }
+      const account = accountsRef.current.find((item) => item.memberId === memberId);
+      // While the data is locked the member record is only read after unlocking it.
+      const member = allTeam.find((item) => item.id === memberId);
+      if (!account || (!isLocked && !member)) {
+        throw new AccountError('Acesso não encontrado.');
+      }
+      if (member && !member.active) {
+        throw new AccountError(`${member.name} está inativo e não pode entrar.`);
+      }
+      if (!(await verifyPin(account, pin))) {
+        await writeSignInLock(backend.meta, afterFailedSignIn(lock, Date.now()));
+        logger.warn('auth', 'PIN incorreto', { memberId });
+        throw new AccountError('PIN incorreto.');
+      }
+      if (lock.failures) {
+        await writeSignInLock(backend.meta, { failures: 0, until: 0 });
+      }
+      if (isLocked) {
+        await unlockVault(account, pin);
+      } else if (!vault.isUnlocked() && account.isAdmin) {
+        await enableEncryption(account, pin);
+      }
+      // Undo only ever reverts changes of the member signed in.
+      history.clear();
+      setSessionNotice(null);
+      actingMemberRef.current = memberId;
+      setActingMemberId(memberId);
+      logger.info('auth', 'Sessão iniciada', { memberId });
+      if (isLocked) {
+        setIsLocked(false);
+        setBootstrapAttempt((previous) => previous + 1);
+      }
+    },
+    [allTeam, backend, enableEncryption, history, isLocked, unlockVault, vault]
+  );
+
+  const endSession = useCallback(
+    async (notice: string | null) => {
+      logger.info('auth', notice ? 'Sessão encerrada pelo app' : 'Sessão encerrada');
+      history.clear();
+      actingMemberRef.current = null;
+      setActingMemberId(null);
+      setSessionNotice(notice);
+      // Decrypted records leave memory with the keys; the next sign-in reads them again.
+      if (vault.isUnlocked()) {
+        sync.unload();
+        setIsReady(false);
+        // Pending writes still need the keys.
+        await flushWrites();
+        vault.lock();
+        ENTITY_NAMES.forEach((name) => collections[name].clear());
+        setIsLocked(true);
+      }
+    },
+    [collections, flushWrites, history, sync, vault]
+  );
+
+  const signOut = useCallback(() => void endSession(null), [endSession]);
+
+  // Deactivating a member or removing their account ends their session.
   useEffect(() => {
-    if (isReady) {
-      void persistCollection(STORAGE_KEYS.clients, clients);
+    if (!actingMemberId || !isReady) {
+      return;
     }
-  }, [isReady, clients]);
+    if (!accounts.some((item) => item.memberId === actingMemberId)) {
+      void endSession('Seu acesso foi removido deste aparelho.');
+    } else if (!currentMember?.active) {
+      void endSession(
+        currentMember
+          ? `${currentMember.name} está inativo e não pode entrar.`
+          : 'Seu cadastro de colaborador foi removido.'
+      );
+    }
+  }, [accounts, actingMemberId, currentMember, endSession, isReady]);
 
+  // The login screen reads names from the accounts while the team is still encrypted.
   useEffect(() => {
-    if (isReady) {
-      void persistCollection(STORAGE_KEYS.suppliers, suppliers);
+    if (!isReady) {
+      return;
+    }
+    const renamed = accounts.map((item) => {
+      const member = allTeam.find((entry) => entry.id === item.memberId);
+      return member && member.name !== item.name ? { ...item, name: member.name } : item;
+    });
+    if (renamed.some((item, index) => item !== accounts[index])) {
+      saveAccounts(renamed).catch((error) =>
+        logger.error('auth', 'Erro ao atualizar nomes dos acessos', error)
+      );
     }
-  }, [isReady, suppliers]);
+  }, [accounts, allTeam, isReady, saveAccounts]);
 
-  const createPart = useCallback(async (input: Omit<Part, 'id' | 'updatedAt'>) => {
-    setParts((previous) => [
-      {
-        id: generateId(),
-        updatedAt: nowIso(),
-        ...input,
-      },
-      ...previous,
-    ]);
-  }, []);
+  const createAccount = useCallback(
+    async (memberId: UUID, pin: string, isAdmin: boolean) => {
+      if (accounts.length) {
+        assertCan('accounts.manage');
+      }
+      if (accounts.some((item) => item.memberId === memberId)) {
+        throw new AccountError('Este colaborador já possui acesso.');
+      }
+      const member = allTeam.find((item) => item.id === memberId);
+      if (!member) {
+        throw new AccountError('Colaborador não encontrado.');
+      }
+      const account = await buildAccount(memberId, member.name, pin, isAdmin || !accounts.length);
+      account.masterKey = await sealMasterKey(pin);
+      await saveAccounts([...accounts, account]);
+    },
+    [accounts, allTeam, assertCan, saveAccounts, sealMasterKey]
+  );
 
-  const updatePart = useCallback(async (id: string, input: Omit<Part, 'id'>) => {
-    setParts((previous) =>
-      previous.map((item) =>
-        item.id === id
-          ? {
-              ...item,
-              ...input,
-              updatedAt: nowIso(),
-              id,
-            }
-          : item
-      )
-    );
-  }, []);
+  const changePin = useCallback(
+    async (memberId: UUID, pin: string) => {
+      if (memberId !== actingMemberRef.current) {
+        assertCan('accounts.manage');
+      }
+      const account = accounts.find((item) => item.memberId === memberId);
+      if (!account) {
+        throw new AccountError('Acesso não encontrado.');
+      }
+      const updated = await withPin(account, pin);
+      updated.masterKey = await sealMasterKey(pin);
+      await saveAccounts(accounts.map((item) => (item.memberId === memberId ? updated : item)));
+    },
+    [accounts, assertCan, saveAccounts, sealMasterKey]
+  );
 
-  const deletePart = useCallback(async (id: string) => {
-    setParts((previous) => previous.filter((item) => item.id !== id));
-  }, []);
+  const replaceAccounts = useCallback(
+    async (next: UserAccount[]) => {
+      assertCan('accounts.manage');
+      if (!next.some((item) => item.isAdmin)) {
+        throw new AccountError('O aparelho precisa de ao menos um administrador.');
+      }
+      await saveAccounts(next);
+    },
+    [assertCan, saveAccounts]
+  );
 
-  const createRevision = useCallback(async (input: Omit<Revision, 'id'>) => {
-    setRevisions((previous) => [
-      {
-        id: generateId(),
+  const setAccountAdmin = useCallback(
+    (memberId: UUID, isAdmin: boolean) =>
+      replaceAccounts(
+        accounts.map((item) => (item.memberId === memberId ? { ...item, isAdmin } : item))
+      ),
+    [accounts, replaceAccounts]
+  );
+
+  const deleteAccount = useCallback(
+    (memberId: UUID) => replaceAccounts(accounts.filter((item) => item.memberId !== memberId)),
+    [accounts, replaceAccounts]
+  );
+
+  const rotateDataKey = useCallback(async () => {
+    assertCan('accounts.manage');
+    const masterKey = vault.masterKey();
+    const previous = await readVaultKeys(backend.meta);
+    // The old key stays until every record is written with the new one.
+    const rotating = addDataKey(masterKey, previous ?? undefined);
+    await writeVaultKeys(backend.meta, rotating);
+    vault.unlock(masterKey, rotating);
+    await rewriteEncrypted();
+    const rotated = {
+      ...rotating,
+      keys: rotating.keys.filter((key) => key.id === rotating.currentKeyId),
+    };
+    await writeVaultKeys(backend.meta, rotated);
+    vault.unlock(masterKey, rotated);
+    setVaultKeys(rotated);
+  }, [assertCan, backend, rewriteEncrypted, vault]);
+
+  const setActiveBranch = useCallback(
+    async (id: UUID | null) => {
+      setActiveBranchId(id);
+      // An empty value shows every unit.
+      await backend.meta.set(METADATA_KEYS.activeBranch, id ?? '');
+    },
+    [backend]
+  );
+
+  const createBranch = useCallback(
+    async (input: Omit<Branch, 'id'>) => {
+      await validateInput('branches', input);
+      await insertRecord('branches', { id: generateId(), ...input });
+    },
+    [insertRecord, validateInput]
+  );
+
+  const updateBranch = useCallback(
+    async (id: string, input: Omit<Branch, 'id'>) => {
+      await validateInput('branches', input);
+      await updateRecord('branches', id, (item) => ({ ...item, ...input, id }));
+    },
+    [updateRecord, validateInput]
+  );
+
+  const deleteBranch = useCallback(
+    async (id: string) => {
+      await removeRecord('branches', id);
+      if (id === activeBranchId) {
+        await setActiveBranch(null);
+      }
+    },
+    [activeBranchId, removeRecord, setActiveBranch]
+  );
+
+  /** Opening stock of a new part, so the ledger adds up from its first day. */
+  const insertPart = useCallback(
+    async (part: Part, reason: string) => {
+      const opening: StockMovementInput = { type: 'entrada', quantity: part.quantity, reason };
+      if (part.quantity > 0) {
+        await validateMovement(part, opening, part.quantity);
+      }
+      await partActions.insert(part);
+      const changes: RecordChange[] = [{ entity: 'parts', id: part.id, after: part }];
+      if (part.quantity > 0) {
+        changes.push(await appendMovement(part, opening));
+      }
+      return changes;
+    },
+    [appendMovement, partActions, validateMovement]
+  );
+
+  /** Saves `input` over a part, recording any change of quantity as an adjustment. */
+  const overwritePart = useCallback(
+    async (current: Part, input: Omit<Part, 'id' | 'updatedAt'>, reason: string) => {
+      const adjustment: StockMovementInput = {
+        type: 'ajuste',
+        quantity: input.quantity - current.quantity,
+        reason,
+      };
+      if (adjustment.quantity !== 0) {
+        await validateMovement({ ...current, ...input }, adjustment, input.quantity);
+      }
+      const change = await updateById('parts', current.id, (item) => ({
+        ...item,
         ...input,
-      },
-      ...previous,
-    ]);
-  }, []);
+        updatedAt: nowIso(),
+        id: current.id,
+      }));
+      if (!change || adjustment.quantity === 0) {
+        return [change];
+      }
+      return [change, await appendMovement(change.after as Part, adjustment)];
+    },
+    [appendMovement, updateById, validateMovement]
+  );
 
-  const updateRevision = useCallback(async (id: string, input: Omit<Revision, 'id'>) => {
-    setRevisions((previous) =>
-      previous.map((item) => (item.id === id ? { ...item, ...input, id } : item))
-    );
-  }, []);
+  const createPart = useCallback(
+    async (input: Omit<Part, 'id' | 'updatedAt'>) => {
+      assertCan('parts.edit');
+      if (changesPartCost(undefined, input)) {
+        assertCan('parts.cost');
+      }
+      await validateInput('parts', input);
+      const part: Part = { id: generateId(), updatedAt: nowIso(), ...input };
+      await trackChanges(await insertPart(part, 'Saldo inicial'));
+    },
+    [assertCan, insertPart, trackChanges, validateInput]
+  );
 
-  const deleteRevision = useCallback(async (id: string) => {
-    console.log('🗑️ deleteRevision chamado com ID:', id);
-    setRevisions((previous) => {
-      const beforeCount = previous.length;
-      const filtered = previous.filter((item) => item.id !== id);
-      const afterCount = filtered.length;
-      console.log('📊 Revisões antes:', beforeCount, 'Depois:', afterCount, 'Removidas:', beforeCount - afterCount);
-      return filtered;
-    });
-  }, []);
+  const updatePart = useCallback(
+    async (id: string, input: Omit<Part, 'id'>) => {
+      assertCan('parts.edit');
+      const current = partActions.itemsRef.current.find((part) => part.id === id);
+      if (!current) {
+        return;
+      }
+      if (changesPartCost(current, input)) {
+        assertCan('parts.cost');
+      }
+      await validateInput('parts', input);
+      await trackChanges(await overwritePart(current, input, 'Correção no cadastro da peça'));
+    },
+    [assertCan, overwritePart, partActions, trackChanges, validateInput]
+  );
+
+  const deletePart = useCallback(
+    async (id: string) => {
+      await removeRecord('parts', id);
+    },
+    [removeRecord]
+  );
+
+  const importParts = useCallback(
+    async (inputs: Omit<Part, 'id' | 'updatedAt'>[]) => {
+      assertCan('parts.edit');
+      const findExisting = (input: Omit<Part, 'id' | 'updatedAt'>) =>
+        partActions.itemsRef.current.find(
+          (part) =>
+            !part.deletedAt &&
+            part.branchId === input.branchId &&
+            part.code.toUpperCase() === input.code.toUpperCase()
+        );
+      for (const input of inputs) {
+        if (changesPartCost(findExisting(input), input)) {
+          assertCan('parts.cost');
+        }
+        await validateInput('parts', input);
+      }
+      const changes: (RecordChange | null)[] = [];
+      for (const input of inputs) {
+        const existing = findExisting(input);
+        if (existing) {
+          changes.push(...(await overwritePart(existing, input, 'Importação de planilha')));
+        } else {
+          const part: Part = { id: generateId(), updatedAt: nowIso(), ...input };
+          changes.push(...(await insertPart(part, 'Importação de planilha')));
+        }
+      }
+      await trackChanges(changes, `Importação: ${inputs.length} peça(s)`);
+    },
+    [assertCan, insertPart, overwritePart, partActions, trackChanges, validateInput]
+  );
+
+  const recordStockMovement = useCallback(
+    async (partId: UUID, input: StockMovementInput) => {
+      assertCan('stockMovements.edit');
+      const part = partActions.itemsRef.current.find((item) => item.id === partId);
+      if (!part) {
+        return;
+      }
+      const balance = part.quantity + input.quantity;
+      if (balance < 0) {
+        throw new InsufficientStockError([{ part, missing: -balance }]);
+      }
+      await validateMovement(part, input, balance);
+      await trackChanges(await moveStock(partId, input));
+    },
+    [assertCan, moveStock, partActions, trackChanges, validateMovement]
+  );
+
+  const transferStock = useCallback(
+    async (fromPartId: UUID, toPartId: UUID, quantity: number, reason: string) => {
+      assertCan('stockMovements.edit');
+      const [from, to] = [fromPartId, toPartId].map((id) =>
+        partActions.itemsRef.current.find((part) => part.id === id && !part.deletedAt)
+      );
+      if (!from || !to || from.branchId === to.branchId || from.code !== to.code) {
+        throw new EntityValidationError('stockMovements', {
+          counterpartId: 'Selecione a mesma peça em outra unidade',
+        });
+      }
+      if (from.quantity < quantity) {
+        throw new InsufficientStockError([{ part: from, missing: quantity - from.quantity }]);
+      }
+      const outgoing: StockMovementInput = {
+        type: 'transferencia',
+        quantity: -quantity,
+        reason,
+        counterpartId: toPartId,
+      };
+      const incoming: StockMovementInput = {
+        type: 'transferencia',
+        quantity,
+        reason,
+        counterpartId: fromPartId,
+      };
+      await validateMovement(from, outgoing);
+      await validateMovement(to, incoming);
+      await trackChanges(
+        [...(await moveStock(fromPartId, outgoing)), ...(await moveStock(toPartId, incoming))],
+        `Transferência: ${quantity} ${from.name}`
+      );
+    },
+    [assertCan, moveStock, partActions, trackChanges, validateMovement]
+  );
+
+  const reconcileStock = useCallback(
+    async (partId: UUID) => {
+      assertCan('stockMovements.edit');
+      const part = partActions.itemsRef.current.find((item) => item.id === partId);
+      if (!part) {
+        return;
+      }
+      const ledger = ledgerQuantities(movementActions.itemsRef.current);
+      const total = ledger.get(partId) ?? 0;
+      // Movements that add up to less than nothing are missing entries; an adjustment would hide it.
+      if (total < 0) {
+        throw new EntityValidationError('stockMovements', {
+          quantity:
+            `As movimentações de ${part.name} somam ${total} unidade(s). ` +
+            'Confira o histórico antes de ajustar.',
+        });
+      }
+      const adjustment: StockMovementInput = {
+        type: 'ajuste',
+        quantity: ledgerDifference(part, ledger),
+        reason: 'Conciliação com o estoque registrado',
+      };
+      if (adjustment.quantity === 0) {
+        return;
+      }
+      await validateMovement(part, adjustment, part.quantity);
+      await trackChanges(
+        [await appendMovement(part, adjustment)],
+        'Histórico conciliado com o estoque'
+      );
+    },
+    [appendMovement, assertCan, movementActions, partActions, trackChanges, validateMovement]
+  );
+
+  /**
+   * Saves a revision together with the stock it takes or gives back, so undoing it restores
+   * both. Parts move with the revision, even for members who may not edit parts.
+   */
+  const saveRevision = useCallback(
+    async (id: UUID, input: Omit<Revision, 'id'>) => {
+      assertCan('revisions.edit');
+      await validateInput('revisions', input);
+      const current = revisionActions.itemsRef.current.find((revision) => revision.id === id);
+      const deductions = stockDeductions(current, { ...input, id });
+      const shortages = findShortages(deductions, partActions.itemsRef.current);
+      if (shortages.length) {
+        throw new InsufficientStockError(shortages);
+      }
+      const reason =
+        current?.status === 'concluida'
+          ? input.status === 'concluida'
+            ? 'Itens da revisão alterados'
+            : 'Revisão reaberta'
+          : 'Revisão concluída';
+      const movements = [...deductions].map(([partId, quantity]) => ({
+        partId,
+        movement: {
+          type: quantity > 0 ? 'saida' : 'devolucao',
+          quantity: -quantity,
+          reason,
+          revisionId: id,
+        } satisfies StockMovementInput,
+      }));
+      await validateMovements(movements);
+      const changes: (RecordChange | null)[] = [];
+      if (current) {
+        changes.push(await updateById('revisions', id, (item) => ({ ...item, ...input, id })));
+      } else {
+        const revision = touch({ id, ...input });
+        await revisionActions.insert(revision);
+        changes.push({ entity: 'revisions', id, after: revision });
+      }
+      for (const { partId, movement } of movements) {
+        changes.push(...(await moveStock(partId, movement)));
+      }
+      await trackChanges(changes);
+    },
+    [
+      assertCan,
+      moveStock,
+      partActions,
+      revisionActions,
+      trackChanges,
+      updateById,
+      validateInput,
+      validateMovements,
+    ]
+  );
+
+  const createRevision = useCallback(
+    async (input: Omit<Revision, 'id'>) => {
+      await saveRevision(generateId(), input);
+    },
+    [saveRevision]
+  );
+
+  const updateRevision = useCallback(
+    async (id: string, input: Omit<Revision, 'id'>) => {
+      await saveRevision(id, input);
+    },
+    [saveRevision]
+  );
 
-  const createTeamMember = useCallback(async (input: Omit<TeamMember, 'id'>) => {
-    setTeam((previous) => [
-      {
+  const deleteRevision = useCallback(
+    async (id: string) => {
+      await removeRecord('revisions', id);
+    },
+    [removeRecord]
+  );
+
+  const createTeamMember = useCallback(
+    async (input: Omit<TeamMember, 'id'>) => {
+      await validateInput('team', input);
+      await insertRecord('team', {
         id: generateId(),
         ...input,
-      },
-      ...previous,
-    ]);
-  }, []);
+      });
+    },
+    [insertRecord, validateInput]
+  );
 
-  const updateTeamMember = useCallback(async (id: string, input: Omit<TeamMember, 'id'>) => {
-    setTeam((previous) => previous.map((item) => (item.id === id ? { ...item, ...input, id } : item)));
-  }, []);
+  const updateTeamMember = useCallback(
+    async (id: string, input: Omit<TeamMember, 'id'>) => {
+      await validateInput('team', input);
+      await updateRecord('team', id, (item) => ({ ...item, ...input, id }));
+    },
+    [updateRecord, validateInput]
+  );
 
-  const deleteTeamMember = useCallback(async (id: string) => {
-    setTeam((previous) => previous.filter((item) => item.id !== id));
-  }, []);
+  const deleteTeamMember = useCallback(
+    async (id: string) => {
+      await removeRecord('team', id);
+    },
+    [removeRecord]
+  );
+
+  const createClient = useCallback(
+    async (input: Omit<Client, 'id'>) => {
+      await validateInput('clients', input);
+      await insertRecord('clients', withConsentDate(undefined, { id: generateId(), ...input }));
+    },
+    [insertRecord, validateInput]
+  );
+
+  const updateClient = useCallback(
+    async (id: string, input: Omit<Client, 'id'>) => {
+      await validateInput('clients', input);
+      await updateRecord('clients', id, (item) =>
+        withConsentDate(item, { ...item, ...input, id })
+      );
+    },
+    [updateRecord, validateInput]
+  );
 
-  const createClient = useCallback(async (input: Omit<Client, 'id'>) => {
-    setClients((previous) => [
-      {
+  const deleteClient = useCallback(
+    async (id: string) => {
+      await removeRecord('clients', id);
+    },
+    [removeRecord]
+  );
+
+  const exportClientData = useCallback(
+    (id: UUID) => {
+      assertCan('privacy.manage');
+      const client = clientActions.itemsRef.current.find((item) => item.id === id);
+      if (!client) {
+        throw new Error('Cliente não encontrado.');
+      }
+      return createClientDataExport(client, revisionActions.itemsRef.current, nowIso());
+    },
+    [assertCan, clientActions, revisionActions]
+  );
+
+  const anonymizeClient = useCallback(
+    async (id: UUID) => {
+      assertCan('privacy.manage');
+      const anonymizedAt = nowIso();
+      const client = await updateById('clients', id, (item) =>
+        anonymizedClient(item as Client, anonymizedAt)
+      );
+      if (!client) {
+        return;
+      }
+      const changes: (RecordChange | null)[] = [client];
+      for (const revision of revisionActions.itemsRef.current) {
+        if (revision.clientId === id) {
+          changes.push(
+            await updateById('revisions', revision.id, (item) =>
+              anonymizedRevision(item as Revision)
+            )
+          );
+        }
+      }
+      const applied = changes.filter((change): change is RecordChange => change !== null);
+      for (const change of applied) {
+        await recordAudit(change.entity, change.id, change.before, change.after);
+        await backend.audit.redact(
+          change.entity,
+          change.id,
+          change.entity === 'clients' ? CLIENT_PERSONAL_FIELDS : REVISION_PERSONAL_FIELDS
+        );
+      }
+      await sync.enqueue(applied.map(queuedChangeOf));
+      // Undo would bring the erased values back.
+      history.clear();
+    },
+    [assertCan, backend, history, recordAudit, revisionActions, sync, updateById]
+  );
+
+  const createSupplier = useCallback(
+    async (input: Omit<Supplier, 'id'>) => {
+      await validateInput('suppliers', input);
+      await insertRecord('suppliers', {
         id: generateId(),
         ...input,
-      },
-      ...previous,
-    ]);
-  }, []);
+      });
+    },
+    [insertRecord, validateInput]
+  );
 
-  const updateClient = useCallback(async (id: string, input: Omit<Client, 'id'>) => {
-    setClients((previous) => previous.map((item) => (item.id === id ? { ...item, ...input, id } : item)));
-  }, []);
+  const updateSupplier = useCallback(
+    async (id: string, input: Omit<Supplier, 'id'>) => {
+      await validateInput('suppliers', input);
+      await updateRecord('suppliers', id, (item) => ({ ...item, ...input, id }));
+    },
+    [updateRecord, validateInput]
+  );
 
-  const deleteClient = useCallback(async (id: string) => {
-    setClients((previous) => previous.filter((item) => item.id !== id));
-  }, []);
+  const deleteSupplier = useCallback(
+    async (id: string) => {
+      await removeRecord('suppliers', id);
+    },
+    [removeRecord]
+  );
+
+  const importContacts = useCallback(
+    async <K extends ContactEntity>(entity: K, inputs: Omit<EntityMap[K], 'id'>[]) => {
+      assertCan(`${entity}.edit`);
+      const records = inputs.map((input) => touch({ ...input, id: generateId() }) as EntityMap[K]);
+      for (const record of records) {
+        const issue = findStoredRecordIssue(entity, record);
+        if (issue) {
+          throw new EntityValidationError(entity, { '': issue });
+        }
+      }
+      const changes: RecordChange[] = [];
+      for (const record of records) {
+        await collections[entity].insert(record);
+        changes.push({ entity, id: record.id, after: record });
+      }
+      await trackChanges(
+        changes,
+        `Importação: ${records.length} ${ENTITY_LABELS[entity].toLowerCase()}(s)`
+      );
+    },
+    [assertCan, collections, trackChanges]
+  );
+
+  /** Finds an order whose status is one of `statuses`, or explains why it cannot change. */
+  const findOrderIn = useCallback(
+    (id: UUID, statuses: PurchaseOrder['status'][], message: string) => {
+      const order = orderActions.itemsRef.current.find((item) => item.id === id);
+      if (!order || order.deletedAt) {
+        throw new PurchaseOrderError('Pedido de compra não encontrado.');
+      }
+      if (!statuses.includes(order.status)) {
+        throw new PurchaseOrderError(message);
+      }
+      return order;
+    },
+    [orderActions]
+  );
 
-  const createSupplier = useCallback(async (input: Omit<Supplier, 'id'>) => {
-    setSuppliers((previous) => [
-      {
+  const createPurchaseOrder = useCallback(
+    async (input: PurchaseOrderInput) => {
+      await validateInput('purchaseOrders', input);
+      await insertRecord('purchaseOrders', {
         id: generateId(),
         ...input,
-      },
-      ...previous,
-    ]);
-  }, []);
+        items: input.items.map((item) => ({ ...item, receivedQuantity: 0 })),
+        status: 'rascunho',
+        createdAt: nowIso(),
+      });
+    },
+    [insertRecord, validateInput]
+  );
 
-  const updateSupplier = useCallback(async (id: string, input: Omit<Supplier, 'id'>) => {
-    setSuppliers((previous) =>
-      previous.map((item) => (item.id === id ? { ...item, ...input, id } : item))
-    );
-  }, []);
+  const createPurchaseOrders = useCallback(
+    async (inputs: PurchaseOrderInput[]) => {
+      assertCan('purchaseOrders.edit');
+      for (const input of inputs) {
+        await validateInput('purchaseOrders', input);
+      }
+      const changes: RecordChange[] = [];
+      for (const input of inputs) {
+        const record = touch<PurchaseOrder>({
+          id: generateId(),
+          ...input,
+          items: input.items.map((item) => ({ ...item, receivedQuantity: 0 })),
+          status: 'rascunho',
+          createdAt: nowIso(),
+        });
+        await orderActions.insert(record);
+        changes.push({ entity: 'purchaseOrders', id: record.id, after: record });
+      }
+      await trackChanges(changes, 'Pedidos gerados pelas sugestões de compra');
+    },
+    [assertCan, orderActions, trackChanges, validateInput]
+  );
 
-  const deleteSupplier = useCallback(async (id: string) => {
-    setSuppliers((previous) => previous.filter((item) => item.id !== id));
-  }, []);
+  const updatePurchaseOrder = useCallback(
+    async (id: UUID, input: PurchaseOrderInput) => {
+      findOrderIn(id, ['rascunho'], 'Somente rascunhos podem ser editados.');
+      await validateInput('purchaseOrders', input);
+      await updateRecord('purchaseOrders', id, (item) => ({
+        ...item,
+        ...input,
+        items: input.items.map((line) => ({ ...line, receivedQuantity: 0 })),
+        id,
+      }));
+    },
+    [findOrderIn, updateRecord, validateInput]
+  );
+
+  const sendPurchaseOrder = useCallback(
+    async (id: UUID) => {
+      const order = findOrderIn(id, ['rascunho'], 'Este pedido já foi enviado.');
+      const supplier = supplierActions.itemsRef.current.find(
+        (item) => item.id === order.supplierId
+      );
+      const sentAt = nowIso();
+      await updateRecord('purchaseOrders', id, (item) => ({
+        ...item,
+        status: 'enviado',
+        sentAt,
+        expectedAt: expectedDelivery(sentAt, supplier?.leadTimeDays ?? 0),
+      }));
+    },
+    [findOrderIn, supplierActions, updateRecord]
+  );
+
+  const receivePurchaseOrder = useCallback(
+    async (id: UUID, received: number[]) => {
+      assertCan('purchaseOrders.edit');
+      const order = findOrderIn(
+        id,
+        ['enviado', 'parcialmente recebido'],
+        'Este pedido não está aguardando entrega.'
+      );
+      const receivedOrder = receiveItems(order, received, nowIso());
+      const movements = order.items
+        .map((item, index) => ({
+          partId: item.partId,
+          movement: {
+            type: 'entrada',
+            quantity: received[index],
+            reason: 'Recebimento de pedido de compra',
+            purchaseOrderId: id,
+          } satisfies StockMovementInput,
+        }))
+        .filter(({ movement }) => movement.quantity > 0);
+      await validateMovements(movements);
+      const changes: (RecordChange | null)[] = [
+        await updateById('purchaseOrders', id, () => receivedOrder),
+      ];
+      for (const { partId, movement } of movements) {
+        changes.push(...(await moveStock(partId, movement)));
+      }
+      const orderedAt = order.sentAt ?? order.createdAt;
+      changes.push(
+        await updateById('suppliers', order.supplierId, (item) => {
+          const supplier = item as Supplier;
+          return supplier.lastOrderDate < orderedAt
+            ? { ...supplier, lastOrderDate: orderedAt }
+            : supplier;
+        })
+      );
+      await trackChanges(changes, 'Recebimento de pedido de compra');
+    },
+    [assertCan, findOrderIn, moveStock, trackChanges, updateById, validateMovements]
+  );
+
+  const cancelPurchaseOrder = useCallback(
+    async (id: UUID) => {
+      findOrderIn(
+        id,
+        ['rascunho', 'enviado', 'parcialmente recebido'],
+        'Pedidos recebidos ou cancelados não podem ser cancelados.'
+      );
+      await updateRecord('purchaseOrders', id, (item) => ({ ...item, status: 'cancelado' }));
+    },
+    [findOrderIn, updateRecord]
+  );
+
+  const deletePurchaseOrder = useCallback(
+    async (id: UUID) => {
+      await removeRecord('purchaseOrders', id);
+    },
+    [removeRecord]
+  );
 
   const value = useMemo<DataContextValue>(
     () => ({
       isReady,
+      isLocked,
+      bootstrapError,
+      retryBootstrap,
+      persistenceStatus: persistence.status,
+      persistenceError: persistence.error,
+      retryPersistence,
+      quarantine,
+      discardQuarantine,
+      currentMember,
+      accounts: accountSummaries,
+      can,
+      signIn,
+      signOut,
+      sessionNotice,
+      createAccount,
+      changePin,
+      setAccountAdmin,
+      deleteAccount,
+      vaultRotatedAt: vaultKeys?.rotatedAt ?? null,
+      rotateDataKey,
+      getAuditTrail,
+      getStorageUsage,
+      trash,
+      restoreRecord,
+      purgeRecord,
+      trashRetentionDays,
+      setTrashRetentionDays,
+      exportBackup,
+      previewBackup,
+      restoreBackup,
+      planDeletion,
+      undo,
+      redo,
+      undoDescription: nextUndo?.description ?? null,
+      redoDescription: nextRedo?.description ?? null,
+      changeCount,
+      syncStatus,
+      pendingSyncCount,
+      lastSyncedAt,
+      syncError,
+      syncNow: sync.syncNow,
+      syncConflicts,
+      resolveSyncConflict,
+      branches,
+      activeBranchId,
+      setActiveBranch,
       parts,
       revisions,
+      allParts,
+      reservedStock,
+      stockMovements,
+      purchaseOrders,
       team,
+      allTeam,
       clients,
       suppliers,
+      createBranch,
+      updateBranch,
+      deleteBranch,
       createPart,
       updatePart,
       deletePart,
+      importParts,
+      recordStockMovement,
+      transferStock,
+      reconcileStock,
       createRevision,
       updateRevision,
       deleteRevision,
@@ -429,32 +2262,109 @@ export function DataProvider({ children }: { children: ReactNode }) {
       createClient,
       updateClient,
       deleteClient,
+      exportClientData,
+      anonymizeClient,
       createSupplier,
       updateSupplier,
       deleteSupplier,
+      createPurchaseOrder,
+      createPurchaseOrders,
+      updatePurchaseOrder,
+      sendPurchaseOrder,
+      receivePurchaseOrder,
+      cancelPurchaseOrder,
+      deletePurchaseOrder,
+      importContacts,
     }),
     [
+      accountSummaries,
+      activeBranchId,
+      allParts,
+      anonymizeClient,
+      allTeam,
+      bootstrapError,
+      branches,
+      can,
+      cancelPurchaseOrder,
+      changeCount,
+      changePin,
       clients,
+      createAccount,
+      createBranch,
       createClient,
       createPart,
+      createPurchaseOrder,
+      createPurchaseOrders,
       createRevision,
       createSupplier,
       createTeamMember,
+      currentMember,
+      deleteAccount,
+      deleteBranch,
       deleteClient,
       deletePart,
+      deletePurchaseOrder,
       deleteRevision,
       deleteSupplier,
       deleteTeamMember,
+      discardQuarantine,
+      exportBackup,
+      exportClientData,
+      getAuditTrail,
+      getStorageUsage,
+      importContacts,
+      importParts,
+      isLocked,
       isReady,
+      lastSyncedAt,
+      nextRedo,
+      nextUndo,
       parts,
+      pendingSyncCount,
+      persistence,
+      planDeletion,
+      previewBackup,
+      purchaseOrders,
+      purgeRecord,
+      quarantine,
+      receivePurchaseOrder,
+      reconcileStock,
+      recordStockMovement,
+      redo,
+      reservedStock,
+      resolveSyncConflict,
+      restoreBackup,
+      restoreRecord,
+      retryBootstrap,
+      retryPersistence,
       revisions,
+      rotateDataKey,
+      sendPurchaseOrder,
+      sessionNotice,
+      setAccountAdmin,
+      setActiveBranch,
+      setTrashRetentionDays,
+      signIn,
+      signOut,
+      stockMovements,
       suppliers,
+      sync.syncNow,
+      syncConflicts,
+      syncError,
+      syncStatus,
       team,
+      transferStock,
+      trash,
+      trashRetentionDays,
+      undo,
+      updateBranch,
       updateClient,
       updatePart,
+      updatePurchaseOrder,
       updateRevision,
       updateSupplier,
       updateTeamMember,
+      vaultKeys,
     ]
   );
 
@@ -468,4 +2378,3 @@ export function useData() {
   }
   return context;
 }
-
@@ -0,0 +1,531 @@
+import * as yup from 'yup';
+
+import { EntityName } from '@/storage/repository';
+import {
+  ClientTier,
+  ExpertiseLevel,
+  Part,
+  PurchaseOrderStatus,
+  RevisionPriority,
+  RevisionStatus,
+  StockMovement,
+  StockMovementType,
+  SupplierCategory,
+  TeamRole,
+} from '@/types/entities';
+import { workOrderTotals } from '@/utils/work-order';
+
+export const PART_CATEGORIES: Part['category'][] = [
+  'Mecanica',
+  'Eletrica',
+  'Suspensao',
+  'Lataria',
+  'Outros',
+];
+export const REVISION_STATUSES: RevisionStatus[] = ['agendada', 'em andamento', 'concluida'];
+export const REVISION_PRIORITIES: RevisionPriority[] = ['alta', 'media', 'baixa'];
+export const TEAM_ROLES: TeamRole[] = [
+  'Mecanico',
+  'Eletricista',
+  'Diagnostico',
+  'Pintor',
+  'Atendimento',
+];
+export const EXPERTISE_LEVELS: ExpertiseLevel[] = ['Junior', 'Pleno', 'Senior'];
+export const CLIENT_TIERS: ClientTier[] = ['Standard', 'Gold', 'Platinum'];
+export const SUPPLIER_CATEGORIES: SupplierCategory[] = [
+  'Pecas originais',
+  'Pecas paralelas',
+  'Pneus',
+  'Tintas',
+  'Servicos terceirizados',
+];
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'rascunho',
+  'enviado',
+  'parcialmente recebido',
+  'recebido',
+  'cancelado',
+];
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = [
+  'entrada',
+  'saida',
+  'ajuste',
+  'devolucao',
+  'transferencia',
+];
+
+/**
+ * Number field of a form, kept as the text being typed; screens convert it when submitting.
+ * `number` holds the rules, so the form shows the same messages as the saved record.
+ */
+const typedNumber = (number: yup.NumberSchema<number>) =>
+  yup
+    .string()
+    .defined()
+    .test('typed-number', function (value) {
+      try {
+        number.validateSync(value === '' ? undefined : value);
+        return true;
+      } catch (error) {
+        return this.createError({ message: (error as yup.ValidationError).message });
+      }
+    });
+
+const partSupplierSchema = yup.object({
+  supplierId: yup.string().required('Selecione o fornecedor'),
+  unitCost: yup
+    .number()
+    .typeError('Custo inválido')
+    .min(0, 'Custo inválido')
+    .required('Informe o custo do fornecedor'),
+  supplierCode: yup.string().optional(),
+});
+
+const partItemQuantitySchema = yup
+  .number()
+  .typeError('Quantidade inválida')
+  .integer('Quantidade inválida')
+  .moreThan(0, 'Quantidade inválida')
+  .required('Informe a quantidade');
+
+const partItemPriceSchema = yup
+  .number()
+  .typeError('Preço inválido')
+  .min(0, 'Preço inválido')
+  .required('Informe o preço');
+
+const revisionPartItemSchema = yup.object({
+  partId: yup.string().required('Selecione a peça'),
+  quantity: partItemQuantitySchema,
+  unitPrice: partItemPriceSchema,
+});
+
+const laborHoursSchema = yup
+  .number()
+  .typeError('Horas inválidas')
+  .moreThan(0, 'Horas inválidas')
+  .required('Informe as horas');
+
+const laborRateSchema = yup
+  .number()
+  .typeError('Valor inválido')
+  .min(0, 'Valor inválido')
+  .required('Informe o valor da hora');
+
+const revisionLaborItemSchema = yup.object({
+  memberId: yup.string().required('Selecione o colaborador'),
+  description: yup.string().required('Descreva o serviço'),
+  hours: laborHoursSchema,
+  hourlyRate: laborRateSchema,
+});
+
+const discountSchema = yup
+  .number()
+  .typeError('Desconto inválido')
+  .min(0, 'Desconto inválido')
+  .required('Informe o desconto');
+
+/** Amounts of the items of a revision, as saved or as typed on the form. */
+type ItemAmounts = {
+  partItems?: { quantity: number | string; unitPrice: number | string }[];
+  laborItems?: { hours: number | string; hourlyRate: number | string }[];
+};
+
+const amountOf = (value: number | string | undefined) => Number(value) || 0;
+
+/** The discount may not exceed the items; amounts still being typed count as zero. */
+function isWithinSubtotal(this: yup.TestContext, discount: number | string | undefined) {
+  const { partItems = [], laborItems = [] } = this.parent as ItemAmounts;
+  const { subtotal } = workOrderTotals({
+    partItems: partItems.map((item) => ({
+      quantity: amountOf(item.quantity),
+      unitPrice: amountOf(item.unitPrice),
+    })),
+    laborItems: laborItems.map((item) => ({
+      hours: amountOf(item.hours),
+      hourlyRate: amountOf(item.hourlyRate),
+    })),
+    discount: 0,
+  });
+  return amountOf(discount) <= subtotal;
+}
+
+export const branchSchema = yup.object({
+  name: yup.string().required('Informe o nome da unidade'),
+  address: yup.string().required('Informe o endereço'),
+  phone: yup.string().required('Informe o telefone'),
+});
+
+export const partSchema = yup.object({
+  branchId: yup.string().required('Selecione a unidade'),
+  name: yup.string().required('Informe a descrição'),
+  code: yup.string().required('Informe o código'),
+  quantity: yup
+    .number()
+    .typeError('Quantidade inválida')
+    .integer('Quantidade inválida')
+    .min(0, 'Mínimo zero')
+    .required('Quantidade obrigatória'),
+  minStock: yup
+    .number()
+    .typeError('Estoque mínimo inválido')
+    .min(0, 'Mínimo zero')
+    .required('Informe o estoque mínimo'),
+  location: yup.string().required('Informe a localização'),
+  suppliers: yup
+    .array()
+    .of(partSupplierSchema)
+    .min(1, 'Selecione ao menos um fornecedor')
+    .required(),
+  category: yup.mixed<Part['category']>().oneOf(PART_CATEGORIES).required(),
+  unitCost: yup
+    .number()
+    .typeError('Valor inválido')
+    .min(0, 'Valor inválido')
+    .required('Informe o custo unitário'),
+});
+
+export const revisionSchema = yup.object({
+  branchId: yup.string().required('Selecione a unidade'),
+  clientId: yup.string().nullable(),
+  clientName: yup.string().required('Informe o cliente'),
+  clientPhone: yup.string().required('Informe o telefone'),
+  vehicleModel: yup.string().required('Informe o veiculo'),
+  licensePlate: yup.string().required('Informe a placa'),
+  serviceDescription: yup.string().required('Descreva o servico'),
+  scheduledDate: yup.string().required('Selecione a data'),
+  scheduledTime: yup.string().required('Selecione o horario'),
+  status: yup.mixed<RevisionStatus>().oneOf(REVISION_STATUSES).required(),
+  priority: yup.mixed<RevisionPriority>().oneOf(REVISION_PRIORITIES).required(),
+  assignedTo: yup.string().nullable(),
+  notes: yup.string().nullable(),
+  remindersEnabled: yup.boolean().default(false),
+  partItems: yup.array().of(revisionPartItemSchema).defined(),
+  laborItems: yup.array().of(revisionLaborItemSchema).defined(),
+  discount: discountSchema.test(
+    'within-subtotal',
+    'O desconto é maior que o valor dos itens',
+    isWithinSubtotal
+  ),
+});
+
+export const revisionFormSchema = revisionSchema.shape({
+  partItems: yup
+    .array()
+    .of(
+      revisionPartItemSchema.shape({
+        quantity: typedNumber(partItemQuantitySchema),
+        unitPrice: typedNumber(partItemPriceSchema),
+      })
+    )
+    .defined(),
+  laborItems: yup
+    .array()
+    .of(
+      revisionLaborItemSchema.shape({
+        hours: typedNumber(laborHoursSchema),
+        hourlyRate: typedNumber(laborRateSchema),
+      })
+    )
+    .defined(),
+  discount: typedNumber(discountSchema).test(
+    'within-subtotal',
+    'O desconto é maior que o valor dos itens',
+    isWithinSubtotal
+  ),
+});
+
+const hourlyRateSchema = yup
+  .number()
+  .typeError('Valor inválido')
+  .min(0, 'Valor inválido')
+  .required('Informe o valor da hora');
+
+export const teamMemberSchema = yup.object({
+  branchId: yup.string().required('Selecione a unidade'),
+  name: yup.string().required('Informe o nome'),
+  role: yup.mixed<TeamRole>().oneOf(TEAM_ROLES).required(),
+  phone: yup.string().required('Informe o telefone'),
+  email: yup.string().email('E-mail inválido').required('Informe o e-mail'),
+  expertiseLevel: yup.mixed<ExpertiseLevel>().oneOf(EXPERTISE_LEVELS).required(),
+  certificationExpiry: yup.string().required('Informe o vencimento'),
+  hiredAt: yup.string().required('Informe a data de contratação'),
+  hourlyRate: hourlyRateSchema,
+  active: yup.boolean().default(true),
+});
+
+export const teamMemberFormSchema = teamMemberSchema.shape({
+  hourlyRate: typedNumber(hourlyRateSchema),
+});
+
+export const clientSchema = yup.object({
+  name: yup.string().required('Informe o nome'),
+  phone: yup.string().required('Informe o telefone'),
+  email: yup.string().email('E-mail invalido').required('Informe o e-mail'),
+  vehicle: yup.string().required('Informe o veiculo'),
+  licensePlate: yup.string().required('Informe a placa'),
+  lastVisit: yup.string().required('Informe a Ultima visita'),
+  tier: yup.mixed<ClientTier>().oneOf(CLIENT_TIERS).required(),
+  preferredAdvisor: yup.string().nullable(),
+  active: yup.boolean().default(true),
+  notes: yup.string().nullable(),
+  marketingConsent: yup.boolean().default(false),
+  whatsappConsent: yup.boolean().default(false),
+});
+
+export const supplierSchema = yup.object({
+  company: yup.string().required('Informe a empresa'),
+  contactName: yup.string().required('Informe o contato'),
+  phone: yup.string().required('Informe o telefone'),
+  email: yup.string().email('E-mail inválido').required('Informe o e-mail'),
+  category: yup.mixed<SupplierCategory>().oneOf(SUPPLIER_CATEGORIES).required(),
+  leadTimeDays: yup
+    .number()
+    .typeError('Informe o prazo em dias')
+    .min(0)
+    .required('Informe o prazo'),
+  preferred: yup.boolean().default(false),
+  rating: yup
+    .number()
+    .typeError('Informe a avaliação')
+    .min(0)
+    .max(5)
+    .required('Informe a avaliação'),
+  lastOrderDate: yup.string().required('Informe a data do último pedido'),
+});
+
+export const stockMovementSchema = yup.object({
+  branchId: yup.string().required('Selecione a unidade'),
+  partId: yup.string().required('Selecione a peça'),
+  type: yup.mixed<StockMovementType>().oneOf(STOCK_MOVEMENT_TYPES).required(),
+  quantity: yup
+    .number()
+    .typeError('Quantidade inválida')
+    .integer('Quantidade inválida')
+    .required('Informe a quantidade')
+    .test('matches-type', 'Quantidade não confere com o tipo', function (quantity) {
+      const { type } = this.parent as Partial<StockMovement>;
+      if (type === 'entrada' || type === 'devolucao') {
+        return quantity > 0;
+      }
+      return type === 'saida' ? quantity < 0 : quantity !== 0;
+    }),
+  balance: yup.number().integer().min(0, 'O estoque não pode ficar negativo').required(),
+  reason: yup.string().required('Informe o motivo'),
+  revisionId: yup.string().optional(),
+  purchaseOrderId: yup.string().optional(),
+  counterpartId: yup.string().optional(),
+  memberId: yup.string().optional(),
+  createdAt: yup.string().required(),
+});
+
+const orderQuantitySchema = yup
+  .number()
+  .typeError('Quantidade inválida')
+  .integer('Quantidade inválida')
+  .moreThan(0, 'Quantidade inválida')
+  .required('Informe a quantidade');
+
+const orderUnitCostSchema = yup
+  .number()
+  .typeError('Custo inválido')
+  .min(0, 'Custo inválido')
+  .required('Informe o custo');
+
+const purchaseOrderItemSchema = yup.object({
+  partId: yup.string().required('Selecione a peça'),
+  quantity: orderQuantitySchema,
+  unitCost: orderUnitCostSchema,
+});
+
+/** What is filled in on the order; status and dates move with sending and receiving. */
+export const purchaseOrderSchema = yup.object({
+  branchId: yup.string().required('Selecione a unidade'),
+  supplierId: yup.string().required('Selecione o fornecedor'),
+  items: yup.array().of(purchaseOrderItemSchema).min(1, 'Adicione ao menos uma peça').required(),
+  notes: yup.string().nullable(),
+});
+
+export const purchaseOrderFormSchema = purchaseOrderSchema.shape({
+  items: yup
+    .array()
+    .of(
+      purchaseOrderItemSchema.shape({
+        quantity: typedNumber(orderQuantitySchema),
+        unitCost: typedNumber(orderUnitCostSchema),
+      })
+    )
+    .min(1, 'Adicione ao menos uma peça')
+    .required(),
+  notes: yup.string().defined(),
+});
+
+export const entitySchemas = {
+  branches: branchSchema,
+  parts: partSchema,
+  revisions: revisionSchema,
+  team: teamMemberSchema,
+  clients: clientSchema,
+  suppliers: supplierSchema,
+  stockMovements: stockMovementSchema,
+  purchaseOrders: purchaseOrderSchema,
+} satisfies Record<EntityName, yup.AnyObjectSchema>;
+
+// Stored records only need structurally sound values: older versions and migrations may
+// leave text fields empty, which the form rules above would reject.
+const storedText = () => yup.string().defined();
+
+export const storedEntitySchemas = {
+  branches: branchSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    address: storedText(),
+    phone: storedText(),
+  }),
+  parts: partSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    name: storedText(),
+    code: storedText(),
+    location: storedText(),
+    // Placeholder or unlinked parts may have no supplier at all.
+    suppliers: yup.array().of(partSupplierSchema).defined(),
+    updatedAt: storedText(),
+  }),
+  revisions: revisionSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    clientName: storedText(),
+    clientPhone: storedText(),
+    vehicleModel: storedText(),
+    licensePlate: storedText(),
+    serviceDescription: storedText(),
+    scheduledDate: storedText(),
+    scheduledTime: storedText(),
+    remindersEnabled: yup.boolean().defined(),
+    // Keeping the discount within the items is a rule of the form only.
+    discount: yup.number().min(0).defined(),
+  }),
+  team: teamMemberSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    name: storedText(),
+    phone: storedText(),
+    email: storedText(),
+    certificationExpiry: storedText(),
+    hiredAt: storedText(),
+    active: yup.boolean().defined(),
+  }),
+  clients: clientSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    name: storedText(),
+    phone: storedText(),
+    email: storedText(),
+    vehicle: storedText(),
+    licensePlate: storedText(),
+    lastVisit: storedText(),
+    active: yup.boolean().defined(),
+    marketingConsent: yup.boolean().defined(),
+    whatsappConsent: yup.boolean().defined(),
+    consentUpdatedAt: yup.string().optional(),
+    anonymizedAt: yup.string().optional(),
+  }),
+  suppliers: supplierSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    company: storedText(),
+    contactName: storedText(),
+    phone: storedText(),
+    email: storedText(),
+    lastOrderDate: storedText(),
+    preferred: yup.boolean().defined(),
+  }),
+  stockMovements: stockMovementSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    // Synced movements may have been recorded against a count that was already off.
+    balance: yup.number().integer().defined(),
+    reason: storedText(),
+  }),
+  purchaseOrders: purchaseOrderSchema.shape({
+    id: yup.string().required(),
+    deletedAt: yup.string().optional(),
+    updatedAt: yup.string().optional(),
+    version: yup.number().integer().min(0).optional(),
+    status: yup.mixed<PurchaseOrderStatus>().oneOf(PURCHASE_ORDER_STATUSES).required(),
+    items: yup
+      .array()
+      .of(
+        purchaseOrderItemSchema.shape({
+          receivedQuantity: yup.number().integer().min(0).defined(),
+        })
+      )
+      .defined(),
+    createdAt: yup.string().required(),
+    sentAt: yup.string().optional(),
+    expectedAt: yup.string().optional(),
+    receivedAt: yup.string().optional(),
+  }),
+} satisfies Record<EntityName, yup.AnyObjectSchema>;
+
+export class EntityValidationError extends Error {
+  constructor(
+    public readonly entity: EntityName,
+    /** Field path mapped to the first message reported for it. */
+    public readonly issues: Record<string, string>
+  ) {
+    super(Object.values(issues).join('\n') || 'Dados inválidos');
+    this.name = 'EntityValidationError';
+  }
+}
+
+const collectIssues = (error: yup.ValidationError) => {
+  const issues: Record<string, string> = {};
+  (error.inner.length ? error.inner : [error]).forEach((item) => {
+    const path = item.path ?? '';
+    if (!issues[path]) {
+      issues[path] = item.message;
+    }
+  });
+  return issues;
+};
+
+/** Rejects with EntityValidationError when the input breaks the entity rules. */
+export async function assertValidInput(entity: EntityName, input: unknown) {
+  try {
+    await entitySchemas[entity].validate(input, { strict: true, abortEarly: false });
+  } catch (error) {
+    if (error instanceof yup.ValidationError) {
+      throw new EntityValidationError(entity, collectIssues(error));
+    }
+    throw error;
+  }
+}
+
+/** Returns the validation message for a stored record, or null when it is sound. */
+export function findStoredRecordIssue(entity: EntityName, record: unknown) {
+  try {
+    storedEntitySchemas[entity].validateSync(record, { strict: true });
+    return null;
+  } catch (error) {
+    if (error instanceof yup.ValidationError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
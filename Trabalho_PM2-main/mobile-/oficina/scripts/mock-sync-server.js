@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+/**
+ * In-memory sync server for development, implementing the contract in storage/sync-api.ts.
+ * Data is lost when the process stops. Run with `npm run sync-server` and point the app at it
+ * with EXPO_PUBLIC_SYNC_URL (e.g. http://<your-ip>:4000).
+ */
+
+const http = require("http");
+
+const port = Number(process.env.PORT) || 4000;
+const entities = [
+  "branches",
+  "parts",
+  "revisions",
+  "team",
+  "clients",
+  "suppliers",
+  "stockMovements",
+  "purchaseOrders",
+];
+
+// entity -> id -> { record, changedAt }
+const records = Object.fromEntries(entities.map((entity) => [entity, new Map()]));
+// entity -> id -> purge time
+const tombstones = Object.fromEntries(entities.map((entity) => [entity, new Map()]));
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const [, prefix, entity, id] = url.pathname.split("/");
+  if (prefix !== "sync" || !entities.includes(entity)) {
+    return send(res, 404, { message: "Not found" });
+  }
+  const stored = records[entity];
+
+  if (req.method === "GET" && !id) {
+    const since = url.searchParams.get("since") || "";
+    const changed = [...stored.values()].filter((entry) => entry.changedAt > since);
+    const deletedIds = [...tombstones[entity].entries()]
+      .filter(([, purgedAt]) => purgedAt > since)
+      .map(([deletedId]) => deletedId);
+    return send(res, 200, {
+      records: changed.map((entry) => entry.record),
+      deletedIds,
+      serverTime: new Date().toISOString(),
+    });
+  }
+
+  if (req.method === "PUT" && id) {
+    const { record, baseVersion } = await readBody(req);
+    const current = stored.get(id);
+    if (current && current.record.version !== baseVersion) {
+      return send(res, 409, { record: current.record });
+    }
+    const saved = { ...record, id, version: baseVersion + 1 };
+    stored.set(id, { record: saved, changedAt: new Date().toISOString() });
+    tombstones[entity].delete(id);
+    return send(res, 200, { record: saved });
+  }
+
+  if (req.method === "DELETE" && id) {
+    const current = stored.get(id);
+    const baseVersion = Number(url.searchParams.get("baseVersion") || 0);
+    if (current && current.record.version !== baseVersion) {
+      return send(res, 409, { record: current.record });
+    }
+    stored.delete(id);
+    tombstones[entity].set(id, new Date().toISOString());
+    return send(res, 204);
+  }
+
+  return send(res, 405, { message: "Method not allowed" });
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      send(res, 400, { message: String(error) });
+    });
+  })
+  .listen(port, () => {
+    console.log(`Mock sync server listening on http://localhost:${port}`);
+  });
@@ -0,0 +1,58 @@
+import {
+  AccountError,
+  MAX_SIGN_IN_ATTEMPTS,
+  SIGN_IN_LOCK_MS,
+  SignInLock,
+  afterFailedSignIn,
+  buildAccount,
+  readSignInLock,
+  verifyPin,
+  writeSignInLock,
+} from '@/storage/accounts';
+import { createMemoryBackend } from '@/storage/memory-backend';
+import { METADATA_KEYS } from '@/storage/repository';
+import { KDF_ITERATIONS } from '@/utils/kdf';
+
+describe('buildAccount', () => {
+  it('stores a salted hash of the PIN and checks PINs against it', async () => {
+    const account = await buildAccount('member-1', 'Ana', '1234', true);
+    expect(account).toMatchObject({ memberId: 'member-1', pinIterations: KDF_ITERATIONS });
+    expect(account.pinHash).not.toContain('1234');
+    expect(await verifyPin(account, '1234')).toBe(true);
+    expect(await verifyPin(account, '4321')).toBe(false);
+  });
+
+  it('uses a new salt for every PIN', async () => {
+    const [first, second] = await Promise.all([
+      buildAccount('member-1', 'Ana', '1234', false),
+      buildAccount('member-2', 'Bia', '1234', false),
+    ]);
+    expect(first.pinHash).not.toBe(second.pinHash);
+  });
+
+  it('refuses short PINs', async () => {
+    await expect(buildAccount('member-1', 'Ana', '12', false)).rejects.toThrow(AccountError);
+  });
+});
+
+describe('afterFailedSignIn', () => {
+  it('locks sign-ins after too many wrong PINs in a row', () => {
+    let lock: SignInLock = { failures: 0, until: 0 };
+    for (let attempt = 1; attempt < MAX_SIGN_IN_ATTEMPTS; attempt += 1) {
+      lock = afterFailedSignIn(lock, 1000);
+      expect(lock).toEqual({ failures: attempt, until: 0 });
+    }
+    expect(afterFailedSignIn(lock, 1000)).toEqual({ failures: 0, until: 1000 + SIGN_IN_LOCK_MS });
+  });
+});
+
+describe('readSignInLock', () => {
+  it('keeps the lock across restarts and ignores unreadable values', async () => {
+    const { meta } = createMemoryBackend();
+    expect(await readSignInLock(meta)).toEqual({ failures: 0, until: 0 });
+    await writeSignInLock(meta, { failures: 2, until: 0 });
+    expect(await readSignInLock(meta)).toEqual({ failures: 2, until: 0 });
+    await meta.set(METADATA_KEYS.signInLock, '{');
+    expect(await readSignInLock(meta)).toEqual({ failures: 0, until: 0 });
+  });
+});
@@ -0,0 +1,113 @@
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+import { METADATA_KEYS, MetadataStore } from '@/storage/repository';
+import { WrappedKey } from '@/storage/vault';
+import { UUID } from '@/types/entities';
+import { generateId, nowIso } from '@/utils/id';
+import { KDF_ITERATIONS, deriveKey } from '@/utils/kdf';
+
+/** Login of a team member on this device; accounts stay local and are never synced or backed up. */
+export type UserAccount = {
+  memberId: UUID;
+  /** Copy of the member's name for the login screen, which is shown before the team is decrypted. */
+  name: string;
+  /** PIN stretched with PBKDF2; the PIN itself is never stored. */
+  pinHash: string;
+  salt: string;
+  /** PBKDF2 rounds `pinHash` was made with, so the default can grow without locking anyone out. */
+  pinIterations: number;
+  /** Administrators have every permission, whatever their role. */
+  isAdmin: boolean;
+  createdAt: string;
+  /** Vault master key sealed with the PIN; missing until the account signs in with a vault. */
+  masterKey?: WrappedKey;
+};
+
+export type AccountSummary = Omit<UserAccount, 'pinHash' | 'salt' | 'pinIterations' | 'masterKey'>;
+
+export const MIN_PIN_LENGTH = 4;
+
+export const MAX_SIGN_IN_ATTEMPTS = 5;
+
+export const SIGN_IN_LOCK_MS = 30 * 1000;
+
+/** Failed sign-ins on this device; stored so that restarting the app does not reset them. */
+export type SignInLock = {
+  failures: number;
+  /** Time, in ms, until which sign-ins are refused. */
+  until: number;
+};
+
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export async function readAccounts(meta: MetadataStore): Promise<UserAccount[]> {
+  const raw = await meta.get(METADATA_KEYS.accounts);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function writeAccounts(meta: MetadataStore, accounts: UserAccount[]) {
+  await meta.set(METADATA_KEYS.accounts, JSON.stringify(accounts));
+}
+
+const hashPin = async (pin: string, salt: string, iterations: number) =>
+  bytesToHex(await deriveKey(pin, utf8ToBytes(salt), iterations));
+
+/** Returns the account with a freshly salted hash of `pin`. */
+export async function withPin<T extends AccountSummary>(
+  account: T,
+  pin: string
+): Promise<UserAccount> {
+  if (pin.length < MIN_PIN_LENGTH) {
+    throw new AccountError(`O PIN deve ter ao menos ${MIN_PIN_LENGTH} caracteres.`);
+  }
+  const salt = generateId();
+  return {
+    ...account,
+    salt,
+    pinHash: await hashPin(pin, salt, KDF_ITERATIONS),
+    pinIterations: KDF_ITERATIONS,
+  };
+}
+
+export const buildAccount = (memberId: UUID, name: string, pin: string, isAdmin: boolean) =>
+  withPin({ memberId, name, isAdmin, createdAt: nowIso() }, pin);
+
+export async function verifyPin(account: UserAccount, pin: string) {
+  return (await hashPin(pin, account.salt, account.pinIterations)) === account.pinHash;
+}
+
+export async function readSignInLock(meta: MetadataStore): Promise<SignInLock> {
+  const raw = await meta.get(METADATA_KEYS.signInLock);
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      failures: Number(parsed?.failures) || 0,
+      until: Number(parsed?.until) || 0,
+    };
+  } catch {
+    return { failures: 0, until: 0 };
+  }
+}
+
+export async function writeSignInLock(meta: MetadataStore, lock: SignInLock) {
+  await meta.set(METADATA_KEYS.signInLock, JSON.stringify(lock));
+}
+
+/** Counts a wrong PIN, locking sign-ins once there were too many in a row. */
+export const afterFailedSignIn = ({ failures }: SignInLock, now: number): SignInLock =>
+  failures + 1 >= MAX_SIGN_IN_ATTEMPTS
+    ? { failures: 0, until: now + SIGN_IN_LOCK_MS }
+    : { failures: failures + 1, until: 0 };
@@ -0,0 +1,176 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { redactEntry } from '@/storage/audit';
+import {
+  AuditLog,
+  CorruptCollectionError,
+  ENTITY_NAMES,
+  EntityName,
+  METADATA_KEYS,
+  Repository,
+  StorageBackend,
+  StorageUsage,
+} from '@/storage/repository';
+import { AuditEntry, UUID } from '@/types/entities';
+
+export const STORAGE_KEYS: Record<EntityName, string> = {
+  branches: '@redcar/branches',
+  parts: '@redcar/parts',
+  revisions: '@redcar/revisions',
+  team: '@redcar/team',
+  clients: '@redcar/clients',
+  suppliers: '@redcar/suppliers',
+  stockMovements: '@redcar/stock-movements',
+  purchaseOrders: '@redcar/purchase-orders',
+};
+
+function createAsyncStorageRepository<T extends { id: UUID }>(key: string): Repository<T> {
+  let cache: T[] = [];
+  let pending: Promise<void> = Promise.resolve();
+
+  // AsyncStorage only stores whole values, so every write serializes the cached
+  // collection. Writes are chained to keep them in the order they were issued.
+  const write = (next: T[]) => {
+    cache = next;
+    pending = pending
+      .catch(() => undefined)
+      .then(() => AsyncStorage.setItem(key, JSON.stringify(next)));
+    return pending;
+  };
+
+  return {
+    getAll: async () => {
+      const raw = await AsyncStorage.getItem(key);
+      if (!raw) {
+        return null;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        throw new CorruptCollectionError(raw, `JSON inválido em ${key}: ${String(error)}`);
+      }
+      if (!Array.isArray(parsed)) {
+        throw new CorruptCollectionError(raw, `${key} não contém uma lista`);
+      }
+      cache = parsed as T[];
+      return cache;
+    },
+    replaceAll: (items) => write(items),
+    upsert: (item) =>
+      write(
+        cache.some((current) => current.id === item.id)
+          ? cache.map((current) => (current.id === item.id ? item : current))
+          : [item, ...cache]
+      ),
+    remove: (id) => write(cache.filter((current) => current.id !== id)),
+    findBy: async (field, value) => cache.filter((current) => current[field] === value),
+    drop: async () => {
+      cache = [];
+      pending = pending.catch(() => undefined).then(() => AsyncStorage.removeItem(key));
+      await pending;
+    },
+  };
+}
+
+const metadataKey = (key: string) => `@redcar/${key}`;
+
+export const AUDIT_STORAGE_KEY = '@redcar/audit';
+
+function createAsyncStorageAuditLog(): AuditLog {
+  let entries: Promise<AuditEntry[]> | null = null;
+  let pending: Promise<void> = Promise.resolve();
+
+  const read = () => {
+    if (!entries) {
+      entries = AsyncStorage.getItem(AUDIT_STORAGE_KEY).then((raw) => {
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? (parsed as AuditEntry[]) : [];
+      });
+      entries.catch(() => {
+        entries = null;
+      });
+    }
+    return entries;
+  };
+
+  /** Writes run one after another, so a change never overwrites one still in flight. */
+  const update = (change: (current: AuditEntry[]) => void) => {
+    pending = pending
+      .catch(() => undefined)
+      .then(async () => {
+        const current = await read();
+        change(current);
+        await AsyncStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(current));
+      });
+    return pending;
+  };
+
+  return {
+    append: (entry) => update((current) => current.push(entry)),
+    findByRecord: async (entity, recordId) => {
+      await pending.catch(() => undefined);
+      const current = await read();
+      return current
+        .filter((entry) => entry.entity === entity && entry.recordId === recordId)
+        .reverse();
+    },
+    redact: (entity, recordId, fields) =>
+      update((current) =>
+        current.forEach((entry, index) => {
+          if (entry.entity === entity && entry.recordId === recordId) {
+            current[index] = redactEntry(entry, fields);
+          }
+        })
+      ),
+  };
+}
+
+const countRecords = (raw: string | null) => {
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.length : 0;
+  } catch {
+    return 0;
+  }
+};
+
+async function readUsage(): Promise<StorageUsage[]> {
+  const names = [...ENTITY_NAMES, 'audit' as const];
+  const keys = names.map((name) => (name === 'audit' ? AUDIT_STORAGE_KEY : STORAGE_KEYS[name]));
+  const values = await AsyncStorage.multiGet(keys);
+  const metadata = (
+    await AsyncStorage.multiGet(Object.values(METADATA_KEYS).map(metadataKey))
+  ).filter(([, value]) => value !== null);
+  return [
+    ...values.map(([, raw], index) => ({
+      name: names[index],
+      records: countRecords(raw),
+      bytes: raw?.length ?? 0,
+    })),
+    {
+      name: 'meta' as const,
+      records: metadata.length,
+      bytes: metadata.reduce((total, [, value]) => total + (value?.length ?? 0), 0),
+    },
+  ];
+}
+
+export function createAsyncStorageBackend(): StorageBackend {
+  return {
+    usage: readUsage,
+    meta: {
+      get: (key) => AsyncStorage.getItem(metadataKey(key)),
+      set: (key, value) => AsyncStorage.setItem(metadataKey(key), value),
+    },
+    audit: createAsyncStorageAuditLog(),
+    branches: createAsyncStorageRepository(STORAGE_KEYS.branches),
+    parts: createAsyncStorageRepository(STORAGE_KEYS.parts),
+    revisions: createAsyncStorageRepository(STORAGE_KEYS.revisions),
+    team: createAsyncStorageRepository(STORAGE_KEYS.team),
+    clients: createAsyncStorageRepository(STORAGE_KEYS.clients),
+    suppliers: createAsyncStorageRepository(STORAGE_KEYS.suppliers),
+    stockMovements: createAsyncStorageRepository(STORAGE_KEYS.stockMovements),
+    purchaseOrders: createAsyncStorageRepository(STORAGE_KEYS.purchaseOrders),
+  };
+}
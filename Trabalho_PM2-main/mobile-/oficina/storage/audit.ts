@@ -0,0 +1,75 @@
+import { EntityName } from '@/storage/repository';
+import { AuditAction, AuditChange, AuditEntry, UUID } from '@/types/entities';
+import { generateId, nowIso } from '@/utils/id';
+
+const isSameValue = (left: unknown, right: unknown) =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+/** Field-level differences between two versions of a record; `id` is never reported. */
+export function diffRecords(before?: object, after?: object): AuditChange[] {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  fields.delete('id');
+
+  return [...fields]
+    .filter((field) => !isSameValue(previous[field], next[field]))
+    .sort()
+    .map((field) => ({ field, before: previous[field], after: next[field] }));
+}
+
+/** Stands in for values erased from the trail; the entry still shows that the field changed. */
+export const REDACTED_VALUE = '[removido]';
+
+export function redactEntry<T extends Pick<AuditEntry, 'changes'>>(entry: T, fields: string[]): T {
+  return {
+    ...entry,
+    changes: entry.changes.map((change) =>
+      fields.includes(change.field)
+        ? {
+            field: change.field,
+            before: change.before === undefined ? undefined : REDACTED_VALUE,
+            after: change.after === undefined ? undefined : REDACTED_VALUE,
+          }
+        : change
+    ),
+  };
+}
+
+type Versioned = { deletedAt?: string };
+
+/** Infers what a change did from the record before and after it. */
+export function auditActionFor(before?: Versioned, after?: Versioned): AuditAction {
+  if (!before) {
+    return 'create';
+  }
+  if (!after) {
+    return 'purge';
+  }
+  if (!before.deletedAt && after.deletedAt) {
+    return 'delete';
+  }
+  if (before.deletedAt && !after.deletedAt) {
+    return 'restore';
+  }
+  return 'update';
+}
+
+export function buildAuditEntry(
+  entity: EntityName,
+  recordId: UUID,
+  action: AuditAction,
+  before: object | undefined,
+  after: object | undefined,
+  actorId?: UUID
+): AuditEntry {
+  return {
+    id: generateId(),
+    entity,
+    recordId,
+    action,
+    changes: diffRecords(before, after),
+    timestamp: nowIso(),
+    actorId,
+  };
+}
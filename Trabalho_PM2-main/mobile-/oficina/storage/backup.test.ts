@@ -0,0 +1,89 @@
+import {
+  BACKUP_FORMAT,
+  BackupError,
+  createBackup,
+  diffBackup,
+  parseBackup,
+  restoredRecords,
+} from '@/storage/backup';
+import { EntityRecords } from '@/storage/integrity';
+import { SCHEMA_VERSION } from '@/storage/migrations';
+import { ENTITY_NAMES } from '@/storage/repository';
+import { Supplier } from '@/types/entities';
+
+const supplier = (id: string, company: string): Supplier => ({
+  id,
+  company,
+  contactName: 'Carlos',
+  phone: '(11) 3333-0000',
+  email: 'compras@fornecedor.com',
+  category: 'Pecas paralelas',
+  leadTimeDays: 3,
+  preferred: false,
+  rating: 4,
+  lastOrderDate: '2026-01-01T00:00:00.000Z',
+});
+
+const recordsWith = (suppliers: Supplier[]) =>
+  ({
+    ...Object.fromEntries(ENTITY_NAMES.map((name) => [name, []])),
+    suppliers,
+  }) as unknown as EntityRecords;
+
+const EXPORTED_AT = '2026-03-01T10:00:00.000Z';
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote', () => {
+    const backup = createBackup(recordsWith([supplier('s1', 'Auto Center')]), EXPORTED_AT);
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it('refuses files that are not backups or come from a newer version', () => {
+    expect(() => parseBackup('{')).toThrow(BackupError);
+    expect(() => parseBackup(JSON.stringify({ format: 'outro', data: {} }))).toThrow(BackupError);
+    expect(() =>
+      parseBackup(
+        JSON.stringify({ format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION + 1, data: {} })
+      )
+    ).toThrow('versão mais nova');
+  });
+
+  it('refuses the whole file when a record is invalid or repeated', () => {
+    const backup = createBackup(
+      recordsWith([supplier('s1', 'Auto Center'), supplier('s1', 'Outro')]),
+      EXPORTED_AT
+    );
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('identificador repetido');
+  });
+});
+
+describe('restoredRecords', () => {
+  const current = recordsWith([supplier('s1', 'Auto Center'), supplier('s2', 'Peças Sul')]);
+  const backup = createBackup(
+    recordsWith([supplier('s1', 'Auto Center Ltda'), supplier('s3', 'Norte')]),
+    EXPORTED_AT
+  );
+
+  it('counts what each mode would change', () => {
+    expect(diffBackup(current, backup).suppliers).toEqual({
+      added: 1,
+      updated: 1,
+      unchanged: 0,
+      removed: 1,
+    });
+  });
+
+  it('replaces everything or merges by id', () => {
+    expect(restoredRecords(current, backup, 'replace').suppliers.map(({ id }) => id)).toEqual([
+      's1',
+      's3',
+    ]);
+    expect(
+      restoredRecords(current, backup, 'merge').suppliers.map(({ id, company }) => [id, company])
+    ).toEqual([
+      ['s1', 'Auto Center Ltda'],
+      ['s2', 'Peças Sul'],
+      ['s3', 'Norte'],
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { findStoredRecordIssue } from '@/schemas/entities';
+import { EntityRecords } from '@/storage/integrity';
+import { SCHEMA_VERSION, StoredData, upgradeData } from '@/storage/migrations';
+import { ENTITY_NAMES, EntityName } from '@/storage/repository';
+
+export const BACKUP_FORMAT = 'oficina-backup';
+
+export const BACKUP_MIME_TYPE = 'application/json';
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  /** Every record, trashed ones included. */
+  data: EntityRecords;
+};
+
+/**
+ * - `replace`: the backup becomes the whole database;
+ * - `merge`: backup records are added, overwriting current records with the same id.
+ */
+export type RestoreMode = 'replace' | 'merge';
+
+export type CollectionDiff = {
+  added: number;
+  updated: number;
+  unchanged: number;
+  /** Current records missing from the backup; only dropped by `replace`. */
+  removed: number;
+};
+
+export type BackupDiff = Record<EntityName, CollectionDiff>;
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function createBackup(records: EntityRecords, exportedAt: string): Backup {
+  return { format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION, exportedAt, data: records };
+}
+
+export const backupFileName = (backup: Backup) =>
+  `oficina-backup-${backup.exportedAt.slice(0, 10)}.json`;
+
+const MAX_REPORTED_ISSUES = 3;
+
+/**
+ * Reads a backup file, upgrading records written by older app versions. Rejects with
+ * BackupError when the file is not a backup or any record is invalid, so a bad file
+ * never reaches storage.
+ */
+export function parseBackup(text: string): Backup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('O arquivo não é um JSON válido.');
+  }
+  const file = parsed as Partial<Backup> | null;
+  if (!file || file.format !== BACKUP_FORMAT || typeof file.data !== 'object' || !file.data) {
+    throw new BackupError('O arquivo não é um backup da oficina.');
+  }
+  const schemaVersion = Number(file.schemaVersion);
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    throw new BackupError('O backup não informa uma versão de dados válida.');
+  }
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError('O backup foi gerado por uma versão mais nova do aplicativo.');
+  }
+
+  const stored: StoredData = {};
+  ENTITY_NAMES.forEach((name) => {
+    const records = (file.data as Record<string, unknown>)[name];
+    if (records !== undefined && !Array.isArray(records)) {
+      throw new BackupError(`A coleção "${ENTITY_LABELS[name]}" do backup está corrompida.`);
+    }
+    stored[name] = (records ?? []) as StoredData[EntityName];
+  });
+
+  const upgraded = upgradeData(stored, schemaVersion);
+  const issues: string[] = [];
+  ENTITY_NAMES.forEach((name) => {
+    const ids = new Set<string>();
+    upgraded[name]!.forEach((record, index) => {
+      const issue =
+        findStoredRecordIssue(name, record) ??
+        (ids.has(record.id) ? 'identificador repetido' : null);
+      ids.add(record.id);
+      if (issue) {
+        issues.push(`${ENTITY_LABELS[name]} #${index + 1}: ${issue}`);
+      }
+    });
+  });
+  if (issues.length) {
+    const reported = issues.slice(0, MAX_REPORTED_ISSUES).join('\n');
+    const hidden = issues.length - MAX_REPORTED_ISSUES;
+    throw new BackupError(
+      `O backup possui ${issues.length} registro(s) inválido(s):\n${reported}${
+        hidden > 0 ? `\n... e mais ${hidden}.` : ''
+      }`
+    );
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    data: upgraded as unknown as EntityRecords,
+  };
+}
+
+export function diffBackup(current: EntityRecords, backup: Backup) {
+  const diff = {} as BackupDiff;
+  ENTITY_NAMES.forEach((name) => {
+    const existing = new Map<string, object>(current[name].map((record) => [record.id, record]));
+    const incoming = new Set<string>();
+    const counts: CollectionDiff = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+    backup.data[name].forEach((record) => {
+      incoming.add(record.id);
+      const match = existing.get(record.id);
+      if (!match) {
+        counts.added += 1;
+      } else if (JSON.stringify(match) === JSON.stringify(record)) {
+        counts.unchanged += 1;
+      } else {
+        counts.updated += 1;
+      }
+    });
+    counts.removed = current[name].filter((record) => !incoming.has(record.id)).length;
+    diff[name] = counts;
+  });
+  return diff;
+}
+
+/** One line per collection the restore would change. */
+export function describeBackupDiff(diff: BackupDiff, mode: RestoreMode) {
+  return ENTITY_NAMES.flatMap((name) => {
+    const { added, updated, removed } = diff[name];
+    const parts = [
+      added ? `${added} novo(s)` : '',
+      updated ? `${updated} alterado(s)` : '',
+      mode === 'replace' && removed ? `${removed} removido(s)` : '',
+    ].filter(Boolean);
+    return parts.length ? [`${ENTITY_LABELS[name]}: ${parts.join(', ')}`] : [];
+  });
+}
+
+/** The records each collection holds once the backup is restored. */
+export function restoredRecords(current: EntityRecords, backup: Backup, mode: RestoreMode) {
+  if (mode === 'replace') {
+    return backup.data;
+  }
+  const merged = {} as { [K in EntityName]: EntityRecords[EntityName] };
+  ENTITY_NAMES.forEach((name) => {
+    const incoming = new Map<string, object>(
+      backup.data[name].map((record) => [record.id, record])
+    );
+    merged[name] = [
+      ...current[name].map((record) => incoming.get(record.id) ?? record),
+      ...backup.data[name].filter(
+        (record) => !current[name].some((existing) => existing.id === record.id)
+      ),
+    ] as EntityRecords[EntityName];
+  });
+  return merged as EntityRecords;
+}
@@ -0,0 +1,16 @@
+import { Platform } from 'react-native';
+
+import { createAsyncStorageBackend } from '@/storage/async-storage-backend';
+import { StorageBackend } from '@/storage/repository';
+import { createSQLiteBackend } from '@/storage/sqlite-backend';
+
+/**
+ * SQLite on devices, AsyncStorage on web (expo-sqlite needs extra wasm setup there).
+ * Data saved by older versions under the AsyncStorage keys is imported on first launch.
+ */
+export function createDefaultBackend(): StorageBackend {
+  if (Platform.OS === 'web') {
+    return createAsyncStorageBackend();
+  }
+  return createSQLiteBackend({ legacy: createAsyncStorageBackend() });
+}
@@ -0,0 +1,131 @@
+import { EntityMap, EntityName, Repository, StorageBackend } from '@/storage/repository';
+import { SyncedRecord } from '@/storage/sync';
+import { SyncApi, SyncConflictError } from '@/storage/sync-api';
+import {
+  DecryptionError,
+  ENCRYPTED_ENTITIES,
+  ENCRYPTED_FIELDS,
+  Vault,
+  VaultLockedError,
+} from '@/storage/vault';
+import { UUID } from '@/types/entities';
+
+type StoredRecord = { id: UUID } & Record<string, unknown>;
+
+/** Copy of `record` with each of its encrypted fields passed through `apply`. */
+function transformFields<T>(entity: EntityName, record: T, apply: (value: unknown) => unknown) {
+  const next: StoredRecord = { ...(record as unknown as StoredRecord) };
+  ((ENCRYPTED_FIELDS[entity] ?? []) as string[]).forEach((field) => {
+    if (field in next) {
+      next[field] = apply(next[field]);
+    }
+  });
+  return next as unknown as T;
+}
+
+function encryptedRepository<T extends { id: UUID }>(
+  entity: EntityName,
+  repository: Repository<T>,
+  vault: Vault
+): Repository<T> {
+  const fields = (ENCRYPTED_FIELDS[entity] ?? []) as string[];
+
+  const transform = (record: T, apply: (value: unknown) => unknown) =>
+    transformFields(entity, record, apply);
+
+  const encrypt = (record: T) => transform(record, vault.encrypt);
+
+  /** Fails as a whole when any record cannot be read, so nothing is saved over it. */
+  const decryptAll = (records: T[]) => {
+    let failures = 0;
+    const decrypted = records.map((record) => {
+      try {
+        return transform(record, vault.decrypt);
+      } catch (error) {
+        if (error instanceof VaultLockedError) {
+          throw error;
+        }
+        failures += 1;
+        return record;
+      }
+    });
+    if (failures) {
+      throw new DecryptionError(entity, failures);
+    }
+    return decrypted;
+  };
+
+  return {
+    getAll: async () => {
+      const stored = await repository.getAll();
+      return stored ? decryptAll(stored) : stored;
+    },
+    replaceAll: (items) => repository.replaceAll(items.map(encrypt)),
+    upsert: (item) => repository.upsert(encrypt(item)),
+    remove: (id) => repository.remove(id),
+    findBy: async (field, value) => {
+      // Ciphertext differs on every write, so encrypted fields can only be matched after reading.
+      if (fields.includes(field)) {
+        const all = (await repository.getAll()) ?? [];
+        return decryptAll(all).filter((item) => item[field] === value);
+      }
+      return decryptAll(await repository.findBy(field, value));
+    },
+    drop: () => repository.drop(),
+  };
+}
+
+/** Encrypts the personal fields of `ENCRYPTED_FIELDS` on their way to `backend`. */
+export function withEncryption(backend: StorageBackend, vault: Vault): StorageBackend {
+  const wrapped = { ...backend } as StorageBackend;
+  ENCRYPTED_ENTITIES.forEach((entity) => {
+    (wrapped as Record<EntityName, Repository<EntityMap[EntityName]>>)[entity] =
+      encryptedRepository(entity, backend[entity] as Repository<EntityMap[EntityName]>, vault);
+  });
+  return wrapped;
+}
+
+/**
+ * Sends records to the sync server as they are stored, with their personal fields encrypted,
+ * and decrypts what comes back. Records this device has no key for come back as they are.
+ */
+export function withSyncEncryption(api: SyncApi, vault: Vault): SyncApi {
+  const encrypt = (entity: EntityName, record: SyncedRecord) =>
+    transformFields(entity, record, vault.encrypt);
+
+  const decrypt = (entity: EntityName, record: SyncedRecord) => {
+    try {
+      return transformFields(entity, record, vault.decrypt);
+    } catch {
+      return record;
+    }
+  };
+
+  const decryptConflict = (entity: EntityName, error: unknown): never => {
+    if (error instanceof SyncConflictError) {
+      throw new SyncConflictError(entity, error.recordId, decrypt(entity, error.remote));
+    }
+    throw error;
+  };
+
+  return {
+    pull: async (entity, since) => {
+      const result = await api.pull(entity, since);
+      return { ...result, records: result.records.map((record) => decrypt(entity, record)) };
+    },
+    push: async (entity, record, baseVersion) => {
+      try {
+        return decrypt(entity, await api.push(entity, encrypt(entity, record), baseVersion));
+      } catch (error) {
+        return decryptConflict(entity, error);
+      }
+    },
+    remove: async (entity, id, baseVersion) => {
+      try {
+        await api.remove(entity, id, baseVersion);
+      } catch (error) {
+        decryptConflict(entity, error);
+      }
+    },
+  };
+}
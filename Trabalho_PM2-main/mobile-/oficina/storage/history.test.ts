@@ -0,0 +1,98 @@
+import {
+  HistoryStep,
+  StaleHistoryError,
+  ledgerReversals,
+  projectSteps,
+  stepPermission,
+} from '@/storage/history';
+import { EntityRecords } from '@/storage/integrity';
+import { ENTITY_NAMES, EntityMap, EntityName } from '@/storage/repository';
+import { Part, StockMovement } from '@/types/entities';
+
+const recordsOf = (records: { [K in EntityName]?: Partial<EntityMap[K]>[] }) =>
+  Object.fromEntries(
+    ENTITY_NAMES.map((name) => [name, records[name] ?? []])
+  ) as unknown as EntityRecords;
+
+const part = (quantity: number, updatedAt = '2026-01-02T00:00:00.000Z') =>
+  ({ id: 'part-1', name: 'Filtro', quantity, updatedAt }) as Part;
+
+const movement = (id: string, quantity: number): StockMovement => ({
+  id,
+  branchId: 'branch-1',
+  partId: 'part-1',
+  type: quantity > 0 ? 'entrada' : 'saida',
+  quantity,
+  balance: 0,
+  reason: 'Compra',
+  createdAt: '2026-01-02T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+});
+
+describe('projectSteps', () => {
+  it('applies the steps in order', () => {
+    const records = recordsOf({ parts: [part(5)] });
+    const projected = projectSteps(records, [
+      { entity: 'parts', id: 'part-1', from: part(5), to: part(3, 'a') },
+      { entity: 'parts', id: 'part-1', from: part(3, 'a'), to: undefined },
+    ]);
+    expect(projected.parts).toEqual([]);
+  });
+
+  it('refuses records changed since the history was written', () => {
+    const records = recordsOf({ parts: [part(4, '2026-01-03T00:00:00.000Z')] });
+    expect(() =>
+      projectSteps(records, [{ entity: 'parts', id: 'part-1', from: part(5), to: part(2) }])
+    ).toThrow(StaleHistoryError);
+    expect(() => projectSteps(records, [{ entity: 'parts', id: 'part-1', to: part(2) }])).toThrow(
+      StaleHistoryError
+    );
+  });
+});
+
+describe('stepPermission', () => {
+  const step = (from?: Partial<Part>, to?: Partial<Part>): HistoryStep => ({
+    entity: 'parts',
+    id: 'part-1',
+    from: from && { ...part(5), ...from },
+    to: to && { ...part(5), ...to },
+  });
+
+  it('asks for the permission the change would need', () => {
+    expect(stepPermission(step({}, { name: 'Filtro de ar' }))).toBe('parts.edit');
+    expect(stepPermission(step({}, undefined))).toBe('parts.delete');
+    expect(stepPermission(step({}, { deletedAt: 'x' }))).toBe('parts.delete');
+    expect(stepPermission(step({ deletedAt: 'x' }, {}))).toBe('parts.delete');
+    expect(stepPermission(step({ deletedAt: 'x' }, undefined))).toBe('data.manage');
+  });
+
+  it('lets stock follow the movement that explains it', () => {
+    expect(stepPermission(step({}, { quantity: 2, updatedAt: 'b' }))).toBeNull();
+    expect(
+      stepPermission({ entity: 'stockMovements', id: 'm', from: movement('m', 2) })
+    ).toBeNull();
+  });
+});
+
+describe('ledgerReversals', () => {
+  it('cancels the movements taken out while their part stays', () => {
+    const steps: HistoryStep[] = [
+      { entity: 'stockMovements', id: 'm2', from: movement('m2', -2) },
+      { entity: 'stockMovements', id: 'm1', from: movement('m1', 5) },
+      { entity: 'parts', id: 'part-1', from: part(3), to: part(0) },
+    ];
+    const reversals = ledgerReversals(steps, recordsOf({ parts: [part(0)] }));
+    expect(reversals.map(({ step, movement: input, balance }) => [step, input, balance])).toEqual([
+      [0, expect.objectContaining({ type: 'ajuste', quantity: 2, reason: 'Estorno: Compra' }), 5],
+      [1, expect.objectContaining({ type: 'ajuste', quantity: -5 }), 0],
+    ]);
+  });
+
+  it('erases the movements of a part that goes away with them', () => {
+    const steps: HistoryStep[] = [
+      { entity: 'stockMovements', id: 'm1', from: movement('m1', 5) },
+      { entity: 'parts', id: 'part-1', from: part(5) },
+    ];
+    expect(ledgerReversals(steps, recordsOf({}))).toEqual([]);
+  });
+});
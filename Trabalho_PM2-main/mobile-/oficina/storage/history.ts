@@ -0,0 +1,116 @@
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { diffRecords } from '@/storage/audit';
+import { EntityRecords } from '@/storage/integrity';
+import { Permission } from '@/storage/permissions';
+import { EntityMap, EntityName } from '@/storage/repository';
+import { StockMovementInput } from '@/storage/stock';
+import { Part, StockMovement, UUID } from '@/types/entities';
+
+type AnyRecord = EntityMap[EntityName];
+
+/** One record of an undo or redo: from the state the history left it in to `to`. */
+export type HistoryStep = {
+  entity: EntityName;
+  id: UUID;
+  from?: AnyRecord;
+  to?: AnyRecord;
+};
+
+/** Thrown when undoing or redoing would overwrite a record changed since. */
+export class StaleHistoryError extends Error {
+  constructor(public readonly entity: EntityName) {
+    super(
+      `${ENTITY_LABELS[entity]} foi alterado(a) depois desta ação, que não pode mais ser desfeita ` +
+        'nem refeita.'
+    );
+    this.name = 'StaleHistoryError';
+  }
+}
+
+const findIn = (records: EntityRecords, entity: EntityName, id: UUID) =>
+  (records[entity] as AnyRecord[]).find((record) => record.id === id);
+
+/**
+ * Records as they will be once `steps` are applied in order. Throws StaleHistoryError when a
+ * record is no longer in the state the history left it, so no change made since is lost.
+ */
+export function projectSteps(records: EntityRecords, steps: HistoryStep[]): EntityRecords {
+  return steps.reduce((projected, { entity, id, from, to }) => {
+    const current = findIn(projected, entity, id);
+    if (!current !== !from || current?.updatedAt !== from?.updatedAt) {
+      throw new StaleHistoryError(entity);
+    }
+    const others = (projected[entity] as AnyRecord[]).filter((record) => record.id !== id);
+    return { ...projected, [entity]: to ? [...others, to] : others };
+  }, records);
+}
+
+/** Fields that only move a record in or out of the trash. */
+export const TRASH_FIELDS = ['deletedAt', 'updatedAt', 'version'];
+
+/** Fields a stock movement changes on its part. */
+export const STOCK_FIELDS = ['quantity', 'updatedAt', 'version'];
+
+/** Whether a step changes no field of its record but `fields`. */
+export const changesOnly = ({ from, to }: HistoryStep, fields: string[]) =>
+  !!from && !!to && diffRecords(from, to).every((change) => fields.includes(change.field));
+
+/**
+ * What the operator must be allowed to do for a step, or null when it follows another one:
+ * stock movements follow their part, and a change of quantity alone follows its movement.
+ */
+export function stepPermission(step: HistoryStep): Permission | null {
+  const { entity, from, to } = step;
+  if ((from?.deletedAt && !to) || (!from && to?.deletedAt)) {
+    return 'data.manage';
+  }
+  if (entity === 'stockMovements' || (entity === 'parts' && changesOnly(step, STOCK_FIELDS))) {
+    return null;
+  }
+  return !to || !from?.deletedAt !== !to.deletedAt ? `${entity}.delete` : `${entity}.edit`;
+}
+
+/** Movements leave the ledger through an entry that cancels them, never by being erased. */
+export type LedgerReversal = {
+  /** Index of the step that would have erased the movement. */
+  step: number;
+  part: Part;
+  movement: StockMovementInput;
+  balance: number;
+};
+
+/**
+ * Reversals for the steps that take live movements out of the ledger while their part stays.
+ * Balances count back from the quantity each part ends with, in the order of the steps.
+ */
+export function ledgerReversals(steps: HistoryStep[], projected: EntityRecords) {
+  const reversals: LedgerReversal[] = [];
+  steps.forEach(({ entity, from, to }, step) => {
+    if (entity !== 'stockMovements' || to || !from || from.deletedAt) {
+      return;
+    }
+    const movement = from as StockMovement;
+    const part = projected.parts.find((item) => item.id === movement.partId);
+    if (part) {
+      reversals.push({
+        step,
+        part,
+        movement: {
+          type: 'ajuste',
+          quantity: -movement.quantity,
+          reason: `Estorno: ${movement.reason}`,
+          revisionId: movement.revisionId,
+          purchaseOrderId: movement.purchaseOrderId,
+        },
+        balance: part.quantity,
+      });
+    }
+  });
+  const later = new Map<UUID, number>();
+  [...reversals].reverse().forEach((reversal) => {
+    const { id } = reversal.part;
+    reversal.balance -= later.get(id) ?? 0;
+    later.set(id, (later.get(id) ?? 0) + reversal.movement.quantity);
+  });
+  return reversals;
+}
@@ -0,0 +1,163 @@
+import {
+  EntityRecords,
+  RELATIONS,
+  describeDeletePlan,
+  findMissingReferences,
+  planDelete,
+  planTrashPurge,
+  unlinkReference,
+} from '@/storage/integrity';
+import { ENTITY_NAMES, EntityMap, EntityName } from '@/storage/repository';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z').getTime();
+const EXPIRED = '2026-01-01T00:00:00.000Z';
+const RECENT = '2026-02-28T00:00:00.000Z';
+
+// Only the fields the relations look at matter here.
+const recordsOf = (records: { [K in EntityName]?: Partial<EntityMap[K]>[] }) =>
+  Object.fromEntries(
+    ENTITY_NAMES.map((name) => [name, records[name] ?? []])
+  ) as unknown as EntityRecords;
+
+describe('planDelete', () => {
+  it('blocks deleting records that others depend on', () => {
+    const records = recordsOf({
+      clients: [{ id: 'client-1' }],
+      revisions: [
+        { id: 'revision-1', clientId: 'client-1' },
+        { id: 'revision-2', clientId: 'client-2' },
+      ],
+    });
+    const plan = planDelete('clients', 'client-1', records);
+    expect(plan.blockers).toHaveLength(1);
+    expect(plan.blockers[0].records.map((record) => record.id)).toEqual(['revision-1']);
+    expect(plan.reassigned).toEqual([]);
+  });
+
+  it('finds references held in lists of items', () => {
+    const records = recordsOf({
+      revisions: [
+        { id: 'revision-1', partItems: [{ partId: 'part-1', quantity: 1, unitPrice: 1 }] },
+      ],
+    });
+    expect(planDelete('parts', 'part-1', records).blockers[0].relation.field).toBe('partItems');
+  });
+
+  it('plans to clear references that can be reassigned', () => {
+    const records = recordsOf({
+      revisions: [{ id: 'revision-1', assignedTo: 'member-1' }],
+      clients: [{ id: 'client-1', preferredAdvisor: 'member-1' }],
+    });
+    const plan = planDelete('team', 'member-1', records);
+    expect(plan.blockers).toEqual([]);
+    expect(describeDeletePlan(plan)).toEqual([
+      '1 revisão(ões) atribuída(s): o vínculo será removido.',
+      '1 cliente(s) com este consultor: o vínculo será removido.',
+    ]);
+  });
+
+  it('plans to archive the stock movements of a part with it', () => {
+    const records = recordsOf({
+      stockMovements: [
+        { id: 'movement-1', partId: 'part-1' },
+        { id: 'movement-2', partId: 'part-2' },
+      ],
+    });
+    const plan = planDelete('parts', 'part-1', records);
+    expect(plan.blockers).toEqual([]);
+    expect(plan.archived[0].records.map((record) => record.id)).toEqual(['movement-1']);
+    expect(describeDeletePlan(plan)).toEqual([
+      '1 movimentação(ões) de estoque da peça: vão para a lixeira junto.',
+    ]);
+  });
+});
+
+describe('unlinkReference', () => {
+  it('clears a field or drops the items pointing at the record', () => {
+    const plan = planDelete(
+      'suppliers',
+      'supplier-1',
+      recordsOf({
+        parts: [
+          {
+            id: 'part-1',
+            suppliers: [
+              { supplierId: 'supplier-1', unitCost: 1 },
+              { supplierId: 'supplier-2', unitCost: 2 },
+            ],
+          },
+        ],
+      })
+    );
+    const [impact] = plan.reassigned;
+    expect(unlinkReference(impact.records[0], impact.relation, 'supplier-1')).toMatchObject({
+      suppliers: [{ supplierId: 'supplier-2', unitCost: 2 }],
+    });
+    const advisor = RELATIONS.find((relation) => relation.field === 'preferredAdvisor')!;
+    expect(
+      unlinkReference({ id: 'client-1', preferredAdvisor: 'member-1' }, advisor, 'member-1')
+    ).toEqual({ id: 'client-1', preferredAdvisor: undefined });
+  });
+});
+
+describe('planTrashPurge', () => {
+  it('purges expired trash only', () => {
+    const records = recordsOf({
+      suppliers: [
+        { id: 'old', deletedAt: EXPIRED },
+        { id: 'new', deletedAt: RECENT },
+        { id: 'live' },
+      ],
+    });
+    expect(planTrashPurge(records, NOW - 30 * 24 * 60 * 60 * 1000)).toEqual([
+      { entity: 'suppliers', id: 'old' },
+    ]);
+  });
+
+  it('purges dependents first when they are expired too', () => {
+    const records = recordsOf({
+      clients: [{ id: 'client-1', deletedAt: EXPIRED }],
+      revisions: [{ id: 'revision-1', clientId: 'client-1', deletedAt: EXPIRED }],
+    });
+    expect(planTrashPurge(records, NOW)).toEqual([
+      { entity: 'revisions', id: 'revision-1' },
+      { entity: 'clients', id: 'client-1' },
+    ]);
+  });
+
+  it('skips records still referenced by records that stay', () => {
+    const records = recordsOf({
+      clients: [
+        { id: 'client-1', deletedAt: EXPIRED },
+        { id: 'client-2', deletedAt: EXPIRED },
+      ],
+      revisions: [
+        { id: 'revision-1', clientId: 'client-1' },
+        { id: 'revision-2', clientId: 'client-2', deletedAt: RECENT },
+      ],
+    });
+    expect(planTrashPurge(records, new Date(RECENT).getTime() - 1)).toEqual([]);
+  });
+
+  it('purges records whose references would only be cleared', () => {
+    const records = recordsOf({
+      team: [{ id: 'member-1', deletedAt: EXPIRED }],
+      revisions: [{ id: 'revision-1', assignedTo: 'member-1' }],
+    });
+    expect(planTrashPurge(records, NOW)).toEqual([{ entity: 'team', id: 'member-1' }]);
+  });
+});
+
+describe('findMissingReferences', () => {
+  it('lists references to records that are not there', () => {
+    const records = recordsOf({ branches: [{ id: 'branch-1' }], team: [] });
+    const missing = findMissingReferences(
+      'revisions',
+      { branchId: 'branch-1', clientId: '', assignedTo: 'member-1' },
+      records
+    );
+    expect(missing.map(({ relation, targetId }) => [relation.field, targetId])).toEqual([
+      ['assignedTo', 'member-1'],
+    ]);
+  });
+});
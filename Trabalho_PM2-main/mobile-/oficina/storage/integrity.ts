@@ -0,0 +1,284 @@
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { ENTITY_NAMES, EntityMap, EntityName } from '@/storage/repository';
+import { UUID } from '@/types/entities';
+
+/**
+ * What happens to records that still reference a record being deleted:
+ * - `block`: the delete is refused while any of them exists;
+ * - `reassign`: their reference is cleared so they can be handed to someone else;
+ * - `archive`: they go to the trash with it, come back with it and are purged with it.
+ */
+export type DeleteRule = 'block' | 'reassign' | 'archive';
+
+export type Relation = {
+  /** Entity holding the reference. */
+  from: EntityName;
+  field: string;
+  /** Set when `field` holds a list of objects; names the key holding the id in each one. */
+  itemKey?: string;
+  /** Entity the reference points to. */
+  to: EntityName;
+  onDelete: DeleteRule;
+  /** Names the dependents in messages, e.g. "3 revisão(ões) vinculada(s)". */
+  label: string;
+};
+
+export const RELATIONS: Relation[] = [
+  {
+    from: 'parts',
+    field: 'branchId',
+    to: 'branches',
+    onDelete: 'block',
+    label: 'peça(s) em estoque na unidade',
+  },
+  {
+    from: 'revisions',
+    field: 'branchId',
+    to: 'branches',
+    onDelete: 'block',
+    label: 'revisão(ões) da unidade',
+  },
+  {
+    from: 'team',
+    field: 'branchId',
+    to: 'branches',
+    onDelete: 'block',
+    label: 'colaborador(es) da unidade',
+  },
+  {
+    from: 'revisions',
+    field: 'clientId',
+    to: 'clients',
+    onDelete: 'block',
+    label: 'revisão(ões) vinculada(s)',
+  },
+  {
+    from: 'revisions',
+    field: 'assignedTo',
+    to: 'team',
+    onDelete: 'reassign',
+    label: 'revisão(ões) atribuída(s)',
+  },
+  {
+    from: 'revisions',
+    field: 'laborItems',
+    itemKey: 'memberId',
+    to: 'team',
+    onDelete: 'block',
+    label: 'revisão(ões) com mão de obra lançada',
+  },
+  {
+    from: 'revisions',
+    field: 'partItems',
+    itemKey: 'partId',
+    to: 'parts',
+    onDelete: 'block',
+    label: 'revisão(ões) que usam a peça',
+  },
+  {
+    from: 'purchaseOrders',
+    field: 'branchId',
+    to: 'branches',
+    onDelete: 'block',
+    label: 'pedido(s) de compra da unidade',
+  },
+  {
+    from: 'purchaseOrders',
+    field: 'supplierId',
+    to: 'suppliers',
+    onDelete: 'block',
+    label: 'pedido(s) de compra do fornecedor',
+  },
+  {
+    from: 'purchaseOrders',
+    field: 'items',
+    itemKey: 'partId',
+    to: 'parts',
+    onDelete: 'block',
+    label: 'pedido(s) de compra da peça',
+  },
+  {
+    from: 'stockMovements',
+    field: 'partId',
+    to: 'parts',
+    onDelete: 'archive',
+    label: 'movimentação(ões) de estoque da peça',
+  },
+  {
+    from: 'clients',
+    field: 'preferredAdvisor',
+    to: 'team',
+    onDelete: 'reassign',
+    label: 'cliente(s) com este consultor',
+  },
+  {
+    from: 'parts',
+    field: 'suppliers',
+    itemKey: 'supplierId',
+    to: 'suppliers',
+    onDelete: 'reassign',
+    label: 'peça(s) fornecida(s)',
+  },
+];
+
+export type EntityRecords = { [K in EntityName]: EntityMap[K][] };
+
+type AnyRecord = EntityMap[EntityName];
+
+export type DeleteImpact = {
+  relation: Relation;
+  /** Id of the record being deleted that `records` point at. */
+  targetId: UUID;
+  records: AnyRecord[];
+};
+
+export type DeletePlan = {
+  blockers: DeleteImpact[];
+  reassigned: DeleteImpact[];
+  archived: DeleteImpact[];
+};
+
+function referencesOf(record: object, relation: Relation): unknown[] {
+  const value = (record as Record<string, unknown>)[relation.field];
+  if (!relation.itemKey) {
+    return [value];
+  }
+  return Array.isArray(value)
+    ? value.map((item) => (item as Record<string, unknown>)[relation.itemKey!])
+    : [];
+}
+
+/** Returns `record` without its reference to `targetId` through `relation`. */
+export function unlinkReference<T extends object>(
+  record: T,
+  relation: Relation,
+  targetId: UUID
+): T {
+  const value = (record as Record<string, unknown>)[relation.field];
+  if (relation.itemKey && Array.isArray(value)) {
+    return {
+      ...record,
+      [relation.field]: value.filter(
+        (item) => (item as Record<string, unknown>)[relation.itemKey!] !== targetId
+      ),
+    };
+  }
+  return { ...record, [relation.field]: undefined };
+}
+
+/** Works out what deleting a record implies for the records that point at it. */
+export function planDelete(entity: EntityName, id: UUID, records: EntityRecords): DeletePlan {
+  const plan: DeletePlan = { blockers: [], reassigned: [], archived: [] };
+  RELATIONS.filter((relation) => relation.to === entity).forEach((relation) => {
+    const dependents = (records[relation.from] as AnyRecord[]).filter((record) =>
+      referencesOf(record, relation).includes(id)
+    );
+    if (!dependents.length) {
+      return;
+    }
+    const impact = { relation, targetId: id, records: dependents };
+    if (relation.onDelete === 'block') {
+      plan.blockers.push(impact);
+    } else if (relation.onDelete === 'archive') {
+      plan.archived.push(impact);
+    } else {
+      plan.reassigned.push(impact);
+    }
+  });
+  return plan;
+}
+
+export type RecordRef = { entity: EntityName; id: UUID };
+
+/**
+ * Records trashed before `cutoff` that may be purged, ordered so that none is blocked by a
+ * record after it. Records still referenced by ones that stay are left out.
+ */
+export function planTrashPurge(records: EntityRecords, cutoff: number): RecordRef[] {
+  let remaining = records;
+  let pending = ENTITY_NAMES.flatMap((entity) =>
+    (records[entity] as AnyRecord[])
+      .filter((item) => item.deletedAt && new Date(item.deletedAt).getTime() < cutoff)
+      .map((item) => ({ entity, id: item.id }))
+  );
+  const order: RecordRef[] = [];
+  let purged = true;
+  while (pending.length && purged) {
+    purged = false;
+    pending = pending.filter(({ entity, id }) => {
+      if (planDelete(entity, id, remaining).blockers.length) {
+        return true;
+      }
+      remaining = {
+        ...remaining,
+        [entity]: (remaining[entity] as AnyRecord[]).filter((item) => item.id !== id),
+      };
+      order.push({ entity, id });
+      purged = true;
+      return false;
+    });
+  }
+  return order;
+}
+
+const countLine = ({ relation, records }: DeleteImpact) => `${records.length} ${relation.label}`;
+
+export const describeBlockers = (blockers: DeleteImpact[]) => blockers.map(countLine).join(', ');
+
+/** Human-readable consequences of a delete plan, one line per affected relation. */
+export function describeDeletePlan(plan: DeletePlan) {
+  return [
+    ...plan.reassigned.map((impact) => `${countLine(impact)}: o vínculo será removido.`),
+    ...plan.archived.map((impact) => `${countLine(impact)}: vão para a lixeira junto.`),
+  ];
+}
+
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    public readonly entity: EntityName,
+    public readonly blockers: DeleteImpact[]
+  ) {
+    super(
+      `Não é possível excluir este registro (${ENTITY_LABELS[entity].toLowerCase()}): ${describeBlockers(
+        blockers
+      )}.`
+    );
+    this.name = 'ReferentialIntegrityError';
+  }
+}
+
+export type MissingReference = {
+  relation: Relation;
+  targetId: UUID;
+};
+
+/** References of `record` to records that are not in `records`. */
+export function findMissingReferences(
+  entity: EntityName,
+  record: object,
+  records: EntityRecords
+): MissingReference[] {
+  return RELATIONS.filter((relation) => relation.from === entity).flatMap((relation) =>
+    referencesOf(record, relation)
+      .filter(
+        (reference): reference is UUID =>
+          typeof reference === 'string' &&
+          reference !== '' &&
+          !(records[relation.to] as AnyRecord[]).some((item) => item.id === reference)
+      )
+      .map((targetId) => ({ relation, targetId }))
+  );
+}
+
+/** Maps each reference field of `record` that points at no existing record to a message. */
+export function findBrokenReferences(
+  entity: EntityName,
+  record: object,
+  records: EntityRecords
+): Record<string, string> {
+  const issues: Record<string, string> = {};
+  findMissingReferences(entity, record, records).forEach(({ relation }) => {
+    issues[relation.field] = `${ENTITY_LABELS[relation.to]} selecionado não existe mais`;
+  });
+  return issues;
+}
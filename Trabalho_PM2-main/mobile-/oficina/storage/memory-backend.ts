@@ -0,0 +1,90 @@
+import { redactEntry } from '@/storage/audit';
+import { ENTITY_NAMES, EntityMap, Repository, StorageBackend } from '@/storage/repository';
+import { AuditEntry, UUID } from '@/types/entities';
+
+type MemoryRepository<T extends { id: UUID }> = Repository<T> & { peek: () => T[] };
+
+function createMemoryRepository<T extends { id: UUID }>(seed?: T[]): MemoryRepository<T> {
+  let items: T[] | null = seed ? [...seed] : null;
+
+  return {
+    peek: () => items ?? [],
+    getAll: async () => (items ? [...items] : null),
+    replaceAll: async (next) => {
+      items = [...next];
+    },
+    upsert: async (item) => {
+      const current = items ?? [];
+      items = current.some((entry) => entry.id === item.id)
+        ? current.map((entry) => (entry.id === item.id ? item : entry))
+        : [item, ...current];
+    },
+    remove: async (id) => {
+      items = (items ?? []).filter((entry) => entry.id !== id);
+    },
+    findBy: async (field, value) => (items ?? []).filter((entry) => entry[field] === value),
+    drop: async () => {
+      items = null;
+    },
+  };
+}
+
+/** Volatile backend for tests and previews; nothing survives a reload. */
+export function createMemoryBackend(
+  seed: Partial<{ [K in keyof EntityMap]: EntityMap[K][] }> = {}
+): StorageBackend {
+  const metadata = new Map<string, string>();
+  const auditEntries: AuditEntry[] = [];
+  const repositories = {
+    branches: createMemoryRepository(seed.branches),
+    parts: createMemoryRepository(seed.parts),
+    revisions: createMemoryRepository(seed.revisions),
+    team: createMemoryRepository(seed.team),
+    clients: createMemoryRepository(seed.clients),
+    suppliers: createMemoryRepository(seed.suppliers),
+    stockMovements: createMemoryRepository(seed.stockMovements),
+    purchaseOrders: createMemoryRepository(seed.purchaseOrders),
+  };
+
+  return {
+    meta: {
+      get: async (key) => metadata.get(key) ?? null,
+      set: async (key, value) => {
+        metadata.set(key, value);
+      },
+    },
+    audit: {
+      append: async (entry) => {
+        auditEntries.push(entry);
+      },
+      findByRecord: async (entity, recordId) =>
+        auditEntries
+          .filter((entry) => entry.entity === entity && entry.recordId === recordId)
+          .reverse(),
+      redact: async (entity, recordId, fields) => {
+        auditEntries.forEach((entry, index) => {
+          if (entry.entity === entity && entry.recordId === recordId) {
+            auditEntries[index] = redactEntry(entry, fields);
+          }
+        });
+      },
+    },
+    usage: async () => [
+      ...ENTITY_NAMES.map((name) => {
+        const items: unknown[] = repositories[name].peek();
+        return { name, records: items.length, bytes: JSON.stringify(items).length };
+      }),
+      {
+        name: 'audit' as const,
+        records: auditEntries.length,
+        bytes: JSON.stringify(auditEntries).length,
+      },
+      {
+        name: 'meta' as const,
+        records: metadata.size,
+        bytes: [...metadata.values()].reduce((total, value) => total + value.length, 0),
+      },
+    ],
+    ...repositories,
+  };
+}
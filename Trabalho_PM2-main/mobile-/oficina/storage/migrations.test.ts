@@ -0,0 +1,194 @@
+import { createMemoryBackend } from '@/storage/memory-backend';
+import {
+  MIGRATIONS,
+  MigrationError,
+  SCHEMA_VERSION,
+  StoredData,
+  StoredRecord,
+  runMigrations,
+  upgradeData,
+} from '@/storage/migrations';
+import { METADATA_KEYS } from '@/storage/repository';
+import { Part } from '@/types/entities';
+
+// Records as the first version of the app saved them.
+const legacyData = (): StoredData => ({
+  parts: [{ id: 'part-1', name: 'Filtro', code: 'F1', quantity: 2.5, supplier: 'Auto Center ' }],
+  revisions: [
+    {
+      id: 'revision-1',
+      clientName: 'Ana',
+      licensePlate: 'abc-1234',
+      scheduledDate: '2024-05-01',
+      assignedTo: 'gone',
+    },
+  ],
+  team: [{ id: 'member-1', name: 'João', role: 'Mecanico' }],
+  clients: [
+    { id: 'client-1', name: 'Ana', licensePlate: 'ABC1234', preferredAdvisor: 'gone' },
+    { id: 'client-2', name: 'Bia', phone: '(11) 98888-0000', preferredAdvisor: 'member-1' },
+  ],
+  suppliers: [],
+});
+
+const byId = (records: StoredRecord[] | undefined, id: string) =>
+  records?.find((record) => record.id === id);
+
+describe('MIGRATIONS', () => {
+  it('are numbered in order, one version at a time', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual(
+      MIGRATIONS.map((_, index) => index + 1)
+    );
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe('upgradeData', () => {
+  const upgraded = upgradeData(legacyData(), 0);
+
+  it('fills in missing fields (v1)', () => {
+    expect(byId(upgraded.parts, 'part-1')).toMatchObject({
+      minStock: 0,
+      location: '',
+      category: 'Outros',
+      updatedAt: new Date(0).toISOString(),
+    });
+    expect(byId(upgraded.revisions, 'revision-1')).toMatchObject({
+      status: 'agendada',
+      priority: 'media',
+      remindersEnabled: false,
+    });
+    expect(byId(upgraded.team, 'member-1')).toMatchObject({
+      active: true,
+      expertiseLevel: 'Junior',
+    });
+  });
+
+  it('links revisions to clients and drops references to missing members (v2)', () => {
+    const revision = byId(upgraded.revisions, 'revision-1');
+    expect(revision?.clientId).toBe('client-1');
+    expect(revision?.assignedTo).toBeUndefined();
+    expect(byId(upgraded.clients, 'client-1')?.preferredAdvisor).toBeUndefined();
+    expect(byId(upgraded.clients, 'client-2')?.preferredAdvisor).toBe('member-1');
+  });
+
+  it('turns the supplier name of parts into a linked supplier (v3)', () => {
+    const [supplier] = upgraded.suppliers ?? [];
+    expect(supplier).toMatchObject({ company: 'Auto Center', category: 'Pecas paralelas' });
+    const part = byId(upgraded.parts, 'part-1');
+    expect(part?.supplier).toBeUndefined();
+    expect(part?.suppliers).toEqual([{ supplierId: supplier.id, unitCost: 0, supplierCode: 'F1' }]);
+  });
+
+  it('creates the main unit and assigns parts, revisions and team to it (v4)', () => {
+    const [branch] = upgraded.branches ?? [];
+    expect(branch).toMatchObject({ name: 'Matriz' });
+    expect(
+      [upgraded.parts, upgraded.revisions, upgraded.team].flatMap((records) =>
+        (records ?? []).map((record) => record.branchId)
+      )
+    ).toEqual([branch.id, branch.id, branch.id]);
+  });
+
+  it('records the consents of clients as not given (v5)', () => {
+    expect(byId(upgraded.clients, 'client-2')).toMatchObject({
+      marketingConsent: false,
+      whatsappConsent: false,
+    });
+  });
+
+  it('adds items to revisions and the hourly rate to the team (v6)', () => {
+    expect(byId(upgraded.revisions, 'revision-1')).toMatchObject({
+      partItems: [],
+      laborItems: [],
+      discount: 0,
+    });
+    expect(byId(upgraded.team, 'member-1')?.hourlyRate).toBe(0);
+  });
+
+  it('rounds quantities to whole units and opens the ledger with them (v7)', () => {
+    expect(byId(upgraded.parts, 'part-1')?.quantity).toBe(3);
+    expect(upgraded.stockMovements).toEqual([
+      expect.objectContaining({
+        partId: 'part-1',
+        type: 'entrada',
+        quantity: 3,
+        balance: 3,
+        reason: 'Saldo inicial',
+      }),
+    ]);
+  });
+
+  it('leaves fresh installs to the seed', () => {
+    expect(upgradeData({}, 0)).toEqual({});
+  });
+
+  it('does not change the data it was given', () => {
+    const data = legacyData();
+    upgradeData(data, 0);
+    expect(data).toEqual(legacyData());
+  });
+});
+
+describe('runMigrations', () => {
+  it('upgrades stored records and the schema version', async () => {
+    const backend = createMemoryBackend();
+    await backend.meta.set(METADATA_KEYS.schemaVersion, '6');
+    await backend.parts.replaceAll([{ id: 'part-1', quantity: 1.5 } as unknown as Part]);
+
+    const result = await runMigrations(backend);
+
+    expect(result).toEqual({ from: 6, to: SCHEMA_VERSION, applied: [7] });
+    expect(await backend.meta.get(METADATA_KEYS.schemaVersion)).toBe(String(SCHEMA_VERSION));
+    expect((await backend.parts.getAll())?.[0].quantity).toBe(2);
+  });
+
+  it('does nothing when the data is up to date', async () => {
+    const backend = createMemoryBackend();
+    await backend.meta.set(METADATA_KEYS.schemaVersion, String(SCHEMA_VERSION));
+    expect(await runMigrations(backend)).toEqual({
+      from: SCHEMA_VERSION,
+      to: SCHEMA_VERSION,
+      applied: [],
+    });
+  });
+
+  it('leaves storage untouched when a migration throws', async () => {
+    const backend = createMemoryBackend();
+    await backend.parts.replaceAll([{ id: 'part-1', quantity: 1 } as unknown as Part]);
+    const failing = [
+      ...MIGRATIONS,
+      {
+        version: SCHEMA_VERSION + 1,
+        description: 'Falha',
+        migrate: () => {
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    await expect(runMigrations(backend, failing)).rejects.toThrow(MigrationError);
+    expect(await backend.meta.get(METADATA_KEYS.schemaVersion)).toBeNull();
+    expect(await backend.parts.getAll()).toEqual([{ id: 'part-1', quantity: 1 }]);
+  });
+
+  it('restores the collections it had and drops the new ones when writing fails', async () => {
+    const backend = createMemoryBackend();
+    await backend.parts.replaceAll([{ id: 'part-1', quantity: 1 } as unknown as Part]);
+    backend.meta.set = () => Promise.reject(new Error('disco cheio'));
+    const adding = [
+      {
+        version: 1,
+        description: 'Cria um fornecedor',
+        migrate: () => ({
+          parts: [],
+          suppliers: [{ id: 'supplier-1' }],
+        }),
+      },
+    ];
+
+    await expect(runMigrations(backend, adding)).rejects.toThrow(MigrationError);
+    expect(await backend.parts.getAll()).toEqual([{ id: 'part-1', quantity: 1 }]);
+    expect(await backend.suppliers.getAll()).toBeNull();
+  });
+});
@@ -0,0 +1,369 @@
+import {
+  CorruptCollectionError,
+  ENTITY_NAMES,
+  EntityName,
+  METADATA_KEYS,
+  Repository,
+  StorageBackend,
+} from '@/storage/repository';
+import { UUID } from '@/types/entities';
+import { generateId } from '@/utils/id';
+import { findByName } from '@/utils/text';
+
+export type StoredRecord = { id: UUID } & Record<string, unknown>;
+
+export type StoredData = Partial<Record<EntityName, StoredRecord[]>>;
+
+export type Migration = {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+};
+
+export class MigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Falha ao migrar os dados para a versão ${version}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = 'MigrationError';
+  }
+}
+
+const withDefaults =
+  (defaults: Record<string, unknown>) =>
+  (record: StoredRecord): StoredRecord => {
+    const next = { ...record };
+    Object.entries(defaults).forEach(([field, value]) => {
+      if (next[field] === undefined || next[field] === null) {
+        next[field] = value;
+      }
+    });
+    return next;
+  };
+
+export const mapRecords = (
+  data: StoredData,
+  name: EntityName,
+  transform: (record: StoredRecord) => StoredRecord
+): StoredData => (data[name] ? { ...data, [name]: data[name]!.map(transform) } : data);
+
+const normalizePlate = (value: unknown) =>
+  typeof value === 'string' ? value.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+
+const normalizePhone = (value: unknown) =>
+  typeof value === 'string' ? value.replace(/\D/g, '') : '';
+
+/** Indexes client ids by a key, leaving out keys shared by more than one client. */
+const uniqueIndex = (clients: StoredRecord[], keyOf: (client: StoredRecord) => string) => {
+  const index = new Map<string, UUID | null>();
+  clients.forEach((client) => {
+    const key = keyOf(client);
+    if (key) {
+      index.set(key, index.has(key) ? null : client.id);
+    }
+  });
+  return index;
+};
+
+/** Ordered from oldest to newest. Never edit a shipped migration; append a new one instead. */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Preenche campos obrigatórios ausentes em registros antigos',
+    migrate: (data) => {
+      const epoch = new Date(0).toISOString();
+      let next = mapRecords(
+        data,
+        'parts',
+        withDefaults({
+          quantity: 0,
+          minStock: 0,
+          location: '',
+          supplier: '',
+          category: 'Outros',
+          unitCost: 0,
+          updatedAt: epoch,
+        })
+      );
+      next = mapRecords(
+        next,
+        'revisions',
+        withDefaults({
+          clientPhone: '',
+          vehicleModel: '',
+          licensePlate: '',
+          serviceDescription: '',
+          scheduledTime: '',
+          status: 'agendada',
+          priority: 'media',
+          remindersEnabled: false,
+        })
+      );
+      next = mapRecords(
+        next,
+        'team',
+        withDefaults({ active: true, expertiseLevel: 'Junior', phone: '', email: '' })
+      );
+      next = mapRecords(
+        next,
+        'clients',
+        withDefaults({
+          phone: '',
+          email: '',
+          vehicle: '',
+          licensePlate: '',
+          lastVisit: epoch,
+          tier: 'Standard',
+          active: true,
+        })
+      );
+      return mapRecords(
+        next,
+        'suppliers',
+        withDefaults({ leadTimeDays: 0, preferred: false, rating: 0, lastOrderDate: epoch })
+      );
+    },
+  },
+  {
+    version: 2,
+    description:
+      'Vincula revisões aos clientes pela placa ou telefone e remove referências a colaboradores inexistentes',
+    migrate: (data) => {
+      const clients = data.clients ?? [];
+      const byPlate = uniqueIndex(clients, (client) => normalizePlate(client.licensePlate));
+      const byPhone = uniqueIndex(clients, (client) => normalizePhone(client.phone));
+      const teamIds = data.team ? new Set(data.team.map((member) => member.id)) : null;
+      const dropMissingMember = (record: StoredRecord, field: string) =>
+        teamIds && record[field] && !teamIds.has(record[field] as UUID)
+          ? { ...record, [field]: undefined }
+          : record;
+
+      const next = mapRecords(data, 'revisions', (revision) => {
+        const clientId =
+          revision.clientId ??
+          byPlate.get(normalizePlate(revision.licensePlate)) ??
+          byPhone.get(normalizePhone(revision.clientPhone));
+        return dropMissingMember(clientId ? { ...revision, clientId } : revision, 'assignedTo');
+      });
+      return mapRecords(next, 'clients', (client) => dropMissingMember(client, 'preferredAdvisor'));
+    },
+  },
+  {
+    version: 3,
+    description:
+      'Liga o fornecedor em texto das peças ao cadastro de fornecedores, criando os que faltarem',
+    migrate: (data) => {
+      const suppliers = [...(data.suppliers ?? [])];
+      const epoch = new Date(0).toISOString();
+      const resolveSupplier = (name: string) => {
+        const match = findByName(name, suppliers, (supplier) => String(supplier.company ?? ''));
+        if (match) {
+          return match.id;
+        }
+        const placeholder: StoredRecord = {
+          id: generateId(),
+          company: name,
+          contactName: '',
+          phone: '',
+          email: '',
+          category: 'Pecas paralelas',
+          leadTimeDays: 0,
+          preferred: false,
+          rating: 0,
+          lastOrderDate: epoch,
+        };
+        suppliers.unshift(placeholder);
+        return placeholder.id;
+      };
+
+      const next = mapRecords(data, 'parts', ({ supplier, ...part }) => {
+        if (Array.isArray(part.suppliers)) {
+          return part;
+        }
+        const name = typeof supplier === 'string' ? supplier.trim() : '';
+        const links = name
+          ? [
+              {
+                supplierId: resolveSupplier(name),
+                unitCost: part.unitCost ?? 0,
+                supplierCode: part.code,
+              },
+            ]
+          : [];
+        return { ...part, suppliers: links };
+      });
+      return suppliers.length > (data.suppliers?.length ?? 0) ? { ...next, suppliers } : next;
+    },
+  },
+  {
+    version: 4,
+    description: 'Cria a unidade Matriz e vincula a ela peças, revisões e equipe existentes',
+    migrate: (data) => {
+      const scoped: EntityName[] = ['parts', 'revisions', 'team'];
+      // Fresh installs have nothing stored yet and get the seeded units instead.
+      if (!scoped.some((name) => data[name])) {
+        return data;
+      }
+      const branches = [...(data.branches ?? [])];
+      if (!branches.length) {
+        branches.push({ id: generateId(), name: 'Matriz', address: '', phone: '' });
+      }
+      const assign = withDefaults({ branchId: branches[0].id });
+      let next: StoredData = { ...data, branches };
+      scoped.forEach((name) => {
+        next = mapRecords(next, name, assign);
+      });
+      return next;
+    },
+  },
+  {
+    version: 5,
+    description:
+      'Registra os consentimentos de marketing e WhatsApp dos clientes como não concedidos',
+    migrate: (data) =>
+      mapRecords(data, 'clients', withDefaults({ marketingConsent: false, whatsappConsent: false })),
+  },
+  {
+    version: 6,
+    description:
+      'Adiciona itens de peças e mão de obra às revisões e o valor da hora da equipe',
+    migrate: (data) =>
+      mapRecords(
+        mapRecords(data, 'revisions', withDefaults({ partItems: [], laborItems: [], discount: 0 })),
+        'team',
+        withDefaults({ hourlyRate: 0 })
+      ),
+  },
+  {
+    version: 7,
+    description:
+      'Arredonda as quantidades para unidades inteiras e abre o histórico de movimentações ' +
+      'com o saldo atual de cada peça',
+    migrate: (data) => {
+      const whole = (value: unknown) => Math.round(Number(value));
+      const next = mapRecords(
+        mapRecords(data, 'parts', (part) => ({
+          ...part,
+          quantity: Math.max(0, whole(part.quantity)),
+        })),
+        'revisions',
+        (revision) => ({
+          ...revision,
+          partItems: Array.isArray(revision.partItems)
+            ? revision.partItems.map((item: Record<string, unknown>) => ({
+                ...item,
+                quantity: Math.max(1, whole(item.quantity)),
+              }))
+            : revision.partItems,
+        })
+      );
+      // Fresh installs get the seeded movements instead.
+      if (!next.parts) {
+        return next;
+      }
+      const movements = [...(next.stockMovements ?? [])];
+      const tracked = new Set(movements.map((movement) => movement.partId));
+      next.parts
+        .filter((part) => !tracked.has(part.id) && Number(part.quantity) > 0)
+        .forEach((part) => {
+          movements.push({
+            id: generateId(),
+            branchId: part.branchId,
+            partId: part.id,
+            type: 'entrada',
+            quantity: part.quantity,
+            balance: part.quantity,
+            reason: 'Saldo inicial',
+            createdAt: part.updatedAt ?? new Date(0).toISOString(),
+          });
+        });
+      return { ...next, stockMovements: movements };
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/** Applies, in memory, the migrations newer than `fromVersion` to a copy of `data`. */
+export function upgradeData(data: StoredData, fromVersion: number, migrations = MIGRATIONS) {
+  let upgraded: StoredData = JSON.parse(JSON.stringify(data));
+  for (const migration of migrations.filter((item) => item.version > fromVersion)) {
+    try {
+      upgraded = migration.migrate(upgraded);
+    } catch (error) {
+      throw new MigrationError(migration.version, error);
+    }
+  }
+  return upgraded;
+}
+
+const repositoryOf = (backend: StorageBackend, name: EntityName) =>
+  backend[name] as unknown as Repository<StoredRecord>;
+
+async function writeAll(backend: StorageBackend, data: StoredData) {
+  for (const name of ENTITY_NAMES) {
+    const records = data[name];
+    if (records) {
+      await repositoryOf(backend, name).replaceAll(records);
+    }
+  }
+}
+
+/** Writes `data` back and drops the collections in `absent`, which did not exist before. */
+async function restoreAll(backend: StorageBackend, data: StoredData, absent: EntityName[]) {
+  await writeAll(backend, data);
+  for (const name of absent) {
+    await repositoryOf(backend, name).drop();
+  }
+}
+
+/**
+ * Upgrades stored records to SCHEMA_VERSION. Migrations run in memory first, so a
+ * throwing migration leaves storage untouched; if writing the result fails halfway,
+ * the original collections are written back, and the new ones dropped, before the error
+ * is rethrown.
+ */
+export async function runMigrations(backend: StorageBackend, migrations = MIGRATIONS) {
+  const storedVersion = Number((await backend.meta.get(METADATA_KEYS.schemaVersion)) ?? 0);
+  const pending = migrations.filter((migration) => migration.version > storedVersion);
+  const targetVersion = migrations[migrations.length - 1]?.version ?? storedVersion;
+
+  if (!pending.length) {
+    return { from: storedVersion, to: storedVersion, applied: [] as number[] };
+  }
+
+  const snapshot: StoredData = {};
+  const absent: EntityName[] = [];
+  for (const name of ENTITY_NAMES) {
+    try {
+      const records = await repositoryOf(backend, name).getAll();
+      if (records) {
+        snapshot[name] = records;
+      } else {
+        absent.push(name);
+      }
+    } catch (error) {
+      // Unreadable collections are left as they are; loading quarantines them afterwards.
+      if (!(error instanceof CorruptCollectionError)) {
+        throw error;
+      }
+    }
+  }
+
+  const upgraded = upgradeData(snapshot, storedVersion, migrations);
+
+  try {
+    await writeAll(backend, upgraded);
+    await backend.meta.set(METADATA_KEYS.schemaVersion, String(targetVersion));
+  } catch (error) {
+    await restoreAll(backend, snapshot, absent);
+    throw new MigrationError(targetVersion, error);
+  }
+
+  return { from: storedVersion, to: targetVersion, applied: pending.map((item) => item.version) };
+}
@@ -0,0 +1,101 @@
+import { ENTITY_NAMES, EntityName } from '@/storage/repository';
+import { Part, TeamRole } from '@/types/entities';
+
+/** Entities that can be moved to the trash; stock movements only go there with their part. */
+export type TrashableEntity = Exclude<EntityName, 'stockMovements'>;
+
+/**
+ * Something an account may do. `<entity>.edit` covers creating and updating records,
+ * `<entity>.delete` moving them to the trash and back.
+ */
+export type Permission =
+  | `${EntityName}.edit`
+  | `${TrashableEntity}.delete`
+  | 'parts.cost'
+  | 'data.manage'
+  | 'privacy.manage'
+  | 'accounts.manage';
+
+export const ALL_PERMISSIONS: Permission[] = [
+  ...ENTITY_NAMES.flatMap((name) =>
+    name === 'stockMovements'
+      ? [`${name}.edit` as const]
+      : [`${name}.edit` as const, `${name}.delete` as const]
+  ),
+  'parts.cost',
+  'data.manage',
+  'privacy.manage',
+  'accounts.manage',
+];
+
+/** What each role may do; administrators may do everything regardless of their role. */
+export const ROLE_PERMISSIONS: Record<TeamRole, Permission[]> = {
+  Mecanico: ['parts.edit', 'stockMovements.edit', 'revisions.edit', 'clients.edit'],
+  Eletricista: ['parts.edit', 'stockMovements.edit', 'revisions.edit', 'clients.edit'],
+  Pintor: ['parts.edit', 'stockMovements.edit', 'revisions.edit', 'clients.edit'],
+  Diagnostico: [
+    'parts.edit',
+    'parts.cost',
+    'stockMovements.edit',
+    'purchaseOrders.edit',
+    'revisions.edit',
+    'revisions.delete',
+    'clients.edit',
+  ],
+  Atendimento: [
+    'revisions.edit',
+    'revisions.delete',
+    'clients.edit',
+    'clients.delete',
+    'privacy.manage',
+    'suppliers.edit',
+    'purchaseOrders.edit',
+  ],
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  'branches.edit': 'cadastrar ou editar unidades',
+  'branches.delete': 'excluir unidades',
+  'parts.edit': 'cadastrar ou editar peças',
+  'parts.delete': 'excluir peças',
+  'parts.cost': 'alterar custos de peças',
+  'revisions.edit': 'agendar ou editar revisões',
+  'revisions.delete': 'excluir revisões',
+  'team.edit': 'cadastrar ou editar colaboradores',
+  'team.delete': 'excluir colaboradores',
+  'clients.edit': 'cadastrar ou editar clientes',
+  'clients.delete': 'excluir clientes',
+  'suppliers.edit': 'cadastrar ou editar fornecedores',
+  'suppliers.delete': 'excluir fornecedores',
+  'stockMovements.edit': 'registrar movimentações de estoque',
+  'purchaseOrders.edit': 'criar, enviar ou receber pedidos de compra',
+  'purchaseOrders.delete': 'excluir pedidos de compra',
+  'data.manage': 'exportar ou restaurar backups ou esvaziar a lixeira',
+  'privacy.manage': 'exportar ou anonimizar dados pessoais de clientes',
+  'accounts.manage': 'gerenciar acessos',
+};
+
+export const permissionsFor = (role: TeamRole, isAdmin: boolean) =>
+  isAdmin ? ALL_PERMISSIONS : ROLE_PERMISSIONS[role];
+
+type PartCosts = Pick<Part, 'unitCost' | 'suppliers'>;
+
+const costsOf = ({ unitCost, suppliers }: PartCosts) => [
+  unitCost,
+  ...suppliers.map((link) => `${link.supplierId}:${link.unitCost}`),
+];
+
+/** Whether saving `next` sets or changes a cost; new parts only count when a cost is filled in. */
+export function changesPartCost(previous: PartCosts | undefined, next: PartCosts) {
+  if (!previous) {
+    return next.unitCost !== 0 || next.suppliers.some((link) => link.unitCost !== 0);
+  }
+  return JSON.stringify(costsOf(previous)) !== JSON.stringify(costsOf(next));
+}
+
+export class PermissionDeniedError extends Error {
+  constructor(public readonly permission: Permission) {
+    super(`Seu perfil não permite ${PERMISSION_LABELS[permission]}.`);
+    this.name = 'PermissionDeniedError';
+  }
+}
@@ -0,0 +1,80 @@
+import { Client, Revision } from '@/types/entities';
+import { nowIso } from '@/utils/id';
+
+export const CLIENT_DATA_FORMAT = 'oficina-client-data';
+
+export const CLIENT_DATA_MIME_TYPE = 'application/json';
+
+/** What the shop holds about one client, as handed over on a data subject request (LGPD). */
+export type ClientDataExport = {
+  format: typeof CLIENT_DATA_FORMAT;
+  exportedAt: string;
+  client: Client;
+  /** Revisions linked to the client, trashed ones included. */
+  revisions: Revision[];
+};
+
+export function createClientDataExport(
+  client: Client,
+  revisions: Revision[],
+  exportedAt: string
+): ClientDataExport {
+  return {
+    format: CLIENT_DATA_FORMAT,
+    exportedAt,
+    client,
+    revisions: revisions.filter((revision) => revision.clientId === client.id),
+  };
+}
+
+// The id keeps the name of the client out of the file name.
+export const clientDataFileName = (data: ClientDataExport) =>
+  `oficina-cliente-${data.client.id.slice(0, 8)}-${data.exportedAt.slice(0, 10)}.json`;
+
+type Consents = Pick<Client, 'marketingConsent' | 'whatsappConsent'>;
+
+/** Dates the consents when a client is created or either consent changes. */
+export function withConsentDate<T extends Consents>(previous: Consents | undefined, next: T): T {
+  const changed =
+    !previous ||
+    previous.marketingConsent !== next.marketingConsent ||
+    previous.whatsappConsent !== next.whatsappConsent;
+  return changed ? { ...next, consentUpdatedAt: nowIso() } : next;
+}
+
+export const ANONYMIZED_NAME = 'Cliente anonimizado';
+
+/** Fields erased by anonymization, from the records and from their audit trail. */
+export const CLIENT_PERSONAL_FIELDS = ['name', 'phone', 'email', 'licensePlate', 'notes'];
+
+export const REVISION_PERSONAL_FIELDS = ['clientName', 'clientPhone', 'licensePlate', 'notes'];
+
+/**
+ * Erases what identifies the client. Vehicle model, category, visits and linked revisions stay,
+ * so reports keep counting them.
+ */
+export function anonymizedClient(client: Client, anonymizedAt: string): Client {
+  return {
+    ...client,
+    name: ANONYMIZED_NAME,
+    phone: '',
+    email: '',
+    licensePlate: '',
+    notes: undefined,
+    active: false,
+    marketingConsent: false,
+    whatsappConsent: false,
+    consentUpdatedAt: anonymizedAt,
+    anonymizedAt,
+  };
+}
+
+export function anonymizedRevision(revision: Revision): Revision {
+  return {
+    ...revision,
+    clientName: ANONYMIZED_NAME,
+    clientPhone: '',
+    licensePlate: '',
+    notes: undefined,
+  };
+}
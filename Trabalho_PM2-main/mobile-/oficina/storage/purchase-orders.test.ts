@@ -0,0 +1,47 @@
+import { PurchaseOrderError, receiveItems } from '@/storage/purchase-orders';
+import { PurchaseOrder } from '@/types/entities';
+
+const NOW = '2026-02-01T12:00:00.000Z';
+
+const order = (status: PurchaseOrder['status'] = 'enviado'): PurchaseOrder => ({
+  id: 'order-1',
+  branchId: 'branch-1',
+  supplierId: 'supplier-1',
+  status,
+  items: [
+    { partId: 'a', quantity: 10, unitCost: 5, receivedQuantity: 0 },
+    { partId: 'b', quantity: 4, unitCost: 8, receivedQuantity: 1 },
+  ],
+  createdAt: '2026-01-20T12:00:00.000Z',
+  sentAt: '2026-01-21T12:00:00.000Z',
+});
+
+describe('receiveItems', () => {
+  it('adds what arrived and keeps the order open while something is pending', () => {
+    const received = receiveItems(order(), [4, 0], NOW);
+    expect(received.items.map((item) => item.receivedQuantity)).toEqual([4, 1]);
+    expect(received.status).toBe('parcialmente recebido');
+    expect(received.receivedAt).toBeUndefined();
+  });
+
+  it('closes the order once every line has arrived', () => {
+    const received = receiveItems(order('parcialmente recebido'), [10, 3], NOW);
+    expect(received.status).toBe('recebido');
+    expect(received.receivedAt).toBe(NOW);
+  });
+
+  it.each([
+    ['more than is pending', [11, 0]],
+    ['a fraction', [2.5, 0]],
+    ['a negative quantity', [-1, 0]],
+    ['nothing at all', [0, 0]],
+  ])('refuses receiving %s', (_, quantities) => {
+    expect(() => receiveItems(order(), quantities, NOW)).toThrow(PurchaseOrderError);
+  });
+
+  it('refuses orders that are not awaiting delivery', () => {
+    expect(() => receiveItems(order('rascunho'), [1, 0], NOW)).toThrow(
+      'Este pedido não está aguardando entrega.'
+    );
+  });
+});
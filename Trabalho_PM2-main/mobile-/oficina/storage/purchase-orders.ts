@@ -0,0 +1,66 @@
+import { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '@/types/entities';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/** What is filled in on an order; new lines start with nothing received. */
+export type PurchaseOrderInput = Pick<PurchaseOrder, 'branchId' | 'supplierId' | 'notes'> & {
+  items: Omit<PurchaseOrderItem, 'receivedQuantity'>[];
+};
+
+/** Thrown when an order is changed in a way its status does not allow. */
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+/** Orders sent to the supplier and still waiting for some of their parts. */
+export const isAwaitingDelivery = ({ status }: Pick<PurchaseOrder, 'status'>) =>
+  status === 'enviado' || status === 'parcialmente recebido';
+
+export const isOverdue = (order: PurchaseOrder, now: string) =>
+  isAwaitingDelivery(order) && !!order.expectedAt && order.expectedAt < now;
+
+export const expectedDelivery = (sentAt: string, leadTimeDays: number) =>
+  new Date(new Date(sentAt).getTime() + leadTimeDays * DAY_IN_MS).toISOString();
+
+export const pendingQuantity = (item: PurchaseOrderItem) =>
+  Math.max(0, item.quantity - item.receivedQuantity);
+
+export const purchaseOrderTotal = (items: Pick<PurchaseOrderItem, 'quantity' | 'unitCost'>[]) =>
+  Math.round(items.reduce((total, item) => total + item.quantity * item.unitCost, 0) * 100) / 100;
+
+/**
+ * Adds `received` (one quantity per line) to the order. Throws a PurchaseOrderError when
+ * a line would get more than is still pending or nothing is received at all.
+ */
+export function receiveItems(order: PurchaseOrder, received: number[], now: string) {
+  if (!isAwaitingDelivery(order)) {
+    throw new PurchaseOrderError('Este pedido não está aguardando entrega.');
+  }
+  order.items.forEach((item, index) => {
+    const quantity = received[index] ?? 0;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > pendingQuantity(item)) {
+      throw new PurchaseOrderError(
+        `Quantidade recebida inválida na linha ${index + 1}: pendente ${pendingQuantity(item)}.`
+      );
+    }
+  });
+  if (!received.some((quantity) => quantity > 0)) {
+    throw new PurchaseOrderError('Informe ao menos uma quantidade recebida.');
+  }
+  const items = order.items.map((item, index) => ({
+    ...item,
+    receivedQuantity: item.receivedQuantity + (received[index] ?? 0),
+  }));
+  const status: PurchaseOrderStatus = items.every((item) => pendingQuantity(item) === 0)
+    ? 'recebido'
+    : 'parcialmente recebido';
+  return {
+    ...order,
+    items,
+    status,
+    receivedAt: status === 'recebido' ? now : undefined,
+  };
+}
@@ -0,0 +1,33 @@
+import { EntityName, METADATA_KEYS, MetadataStore } from '@/storage/repository';
+
+export type QuarantinedRecord = {
+  entity: EntityName;
+  /** The record as it was found, or the raw stored text when the whole collection was unreadable. */
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+};
+
+export async function readQuarantine(meta: MetadataStore): Promise<QuarantinedRecord[]> {
+  const raw = await meta.get(METADATA_KEYS.quarantine);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function addToQuarantine(meta: MetadataStore, entries: QuarantinedRecord[]) {
+  const current = await readQuarantine(meta);
+  const next = [...current, ...entries];
+  await meta.set(METADATA_KEYS.quarantine, JSON.stringify(next));
+  return next;
+}
+
+export async function clearQuarantine(meta: MetadataStore) {
+  await meta.set(METADATA_KEYS.quarantine, JSON.stringify([]));
+}
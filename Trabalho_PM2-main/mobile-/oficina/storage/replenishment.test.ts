@@ -0,0 +1,175 @@
+import {
+  dailyConsumption,
+  draftOrders,
+  incomingQuantities,
+  reorderSuggestions,
+} from '@/storage/replenishment';
+import { Part, PurchaseOrder, StockMovement, Supplier } from '@/types/entities';
+
+const NOW = '2026-03-31T12:00:00.000Z';
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) =>
+  new Date(new Date(NOW).getTime() - days * DAY_IN_MS).toISOString();
+
+const supplier = (id: string, leadTimeDays: number, preferred = false): Supplier => ({
+  id,
+  company: `Fornecedor ${id}`,
+  contactName: '',
+  phone: '',
+  email: '',
+  category: 'Pecas paralelas',
+  leadTimeDays,
+  preferred,
+  rating: 3,
+  lastOrderDate: daysAgo(60),
+});
+
+const part = (id: string, quantity: number, supplierIds: string[] = ['cheap']): Part => ({
+  id,
+  branchId: 'branch-1',
+  name: `Peça ${id}`,
+  code: id.toUpperCase(),
+  quantity,
+  minStock: 4,
+  location: '',
+  suppliers: supplierIds.map((supplierId, index) => ({ supplierId, unitCost: 10 + index })),
+  category: 'Outros',
+  unitCost: 12,
+  updatedAt: daysAgo(30),
+});
+
+const movement = (
+  partId: string,
+  quantity: number,
+  days: number,
+  revisionId?: string
+): StockMovement => ({
+  id: `${partId}-${days}-${quantity}`,
+  branchId: 'branch-1',
+  partId,
+  type: quantity > 0 ? 'entrada' : 'saida',
+  quantity,
+  balance: 0,
+  reason: '',
+  revisionId,
+  createdAt: daysAgo(days),
+});
+
+const order = (
+  status: PurchaseOrder['status'],
+  items: [partId: string, quantity: number, received: number][]
+): PurchaseOrder => ({
+  id: `order-${status}`,
+  branchId: 'branch-1',
+  supplierId: 'cheap',
+  status,
+  items: items.map(([partId, quantity, receivedQuantity]) => ({
+    partId,
+    quantity,
+    unitCost: 10,
+    receivedQuantity,
+  })),
+  createdAt: daysAgo(2),
+});
+
+const suppliers = [supplier('cheap', 10)];
+
+// 30 units used by revisions over the 30 days since the part was first stocked: 1 a day.
+const movements = [
+  movement('a', 40, 30),
+  movement('a', -20, 20, 'r1'),
+  movement('a', -10, 5, 'r2'),
+];
+
+const suggest = (parts: Part[], orders: PurchaseOrder[] = []) =>
+  reorderSuggestions({ parts, suppliers, movements, orders, reserved: new Map(), now: NOW });
+
+describe('dailyConsumption', () => {
+  it('averages revision usage since the first movement of the part', () => {
+    expect(dailyConsumption(movements, NOW).get('a')).toBe(1);
+  });
+
+  it('ignores movements that did not come from revisions', () => {
+    expect(dailyConsumption([movement('a', -5, 3)], NOW).has('a')).toBe(false);
+  });
+});
+
+describe('incomingQuantities', () => {
+  it('counts what is pending on drafts and sent orders only', () => {
+    const incoming = incomingQuantities([
+      order('rascunho', [['a', 5, 0]]),
+      order('parcialmente recebido', [['a', 10, 4]]),
+      order('recebido', [['a', 3, 3]]),
+      order('cancelado', [['a', 8, 0]]),
+      { ...order('enviado', [['a', 7, 0]]), deletedAt: daysAgo(1) },
+    ]);
+    expect(incoming.get('a')).toBe(11);
+  });
+});
+
+describe('reorderSuggestions', () => {
+  it('tops up parts that run out before a new order arrives', () => {
+    const [suggestion] = suggest([part('a', 5)]);
+    // Reorder point: minimum 4 + 10 days of lead time; target adds 30 days of coverage.
+    expect(suggestion).toMatchObject({
+      dailyConsumption: 1,
+      available: 5,
+      incoming: 0,
+      quantity: 39,
+      stockOutAt: new Date(new Date(NOW).getTime() + 5 * DAY_IN_MS).toISOString(),
+    });
+    expect(suggestion.supplier?.id).toBe('cheap');
+  });
+
+  it('leaves out parts with enough stock', () => {
+    expect(suggest([part('a', 20)])).toEqual([]);
+  });
+
+  it('counts units already on order', () => {
+    const [suggestion] = suggest([part('a', 5)], [order('enviado', [['a', 6, 0]])]);
+    expect(suggestion).toMatchObject({ incoming: 6, quantity: 33 });
+  });
+
+  it('does not suggest again what the drafts it generated already cover', () => {
+    const parts = [part('a', 5)];
+    const drafts = draftOrders(suggest(parts)).map((input, index): PurchaseOrder => ({
+      ...input,
+      id: `draft-${index}`,
+      status: 'rascunho',
+      items: input.items.map((item) => ({ ...item, receivedQuantity: 0 })),
+      createdAt: NOW,
+    }));
+    expect(drafts).toHaveLength(1);
+    expect(suggest(parts, drafts)).toEqual([]);
+  });
+
+  it('prefers the preferred supplier, then the cheapest', () => {
+    const [suggestion] = reorderSuggestions({
+      parts: [part('a', 0, ['cheap', 'favourite'])],
+      suppliers: [supplier('cheap', 3), supplier('favourite', 3, true)],
+      movements: [],
+      orders: [],
+      reserved: new Map(),
+      now: NOW,
+    });
+    expect(suggestion.supplier?.id).toBe('favourite');
+    expect(suggestion.unitCost).toBe(11);
+  });
+});
+
+describe('draftOrders', () => {
+  it('groups suggestions by unit and supplier and skips those without one', () => {
+    const [withSupplier] = suggest([part('a', 5)]);
+    const orders = draftOrders([
+      withSupplier,
+      { ...withSupplier, part: part('b', 0), quantity: 2 },
+      { ...withSupplier, part: part('c', 0), supplier: undefined },
+      { ...withSupplier, part: part('d', 0), quantity: 0 },
+    ]);
+    expect(orders).toHaveLength(1);
+    expect(orders[0].items).toEqual([
+      { partId: 'a', quantity: 39, unitCost: 10 },
+      { partId: 'b', quantity: 2, unitCost: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { PurchaseOrderInput, isAwaitingDelivery, pendingQuantity } from '@/storage/purchase-orders';
+import { availableQuantity } from '@/storage/stock';
+import { Part, PurchaseOrder, StockMovement, Supplier, UUID } from '@/types/entities';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/** How far back revision usage is averaged. */
+export const CONSUMPTION_WINDOW_DAYS = 90;
+
+/** Days of consumption a suggested order should cover once it arrives. */
+export const COVERAGE_DAYS = 30;
+
+export type ReorderSuggestion = {
+  part: Part;
+  /** Supplier the part would be ordered from; missing when no linked supplier exists. */
+  supplier?: Supplier;
+  unitCost: number;
+  /** Units used by revisions per day, on average. */
+  dailyConsumption: number;
+  /** Units on hand that are not reserved by open revisions. */
+  available: number;
+  /** Units still pending on open orders, drafts included. */
+  incoming: number;
+  /** When the available units run out at the current pace; missing when nothing is used. */
+  stockOutAt?: string;
+  quantity: number;
+};
+
+/**
+ * Average units of each part used per day by revisions: what concluded revisions took from
+ * the stock minus what reopened ones gave back. Parts with a shorter history are averaged
+ * over the days since their first movement.
+ */
+export function dailyConsumption(movements: StockMovement[], now: string) {
+  const end = new Date(now).getTime();
+  const start = end - CONSUMPTION_WINDOW_DAYS * DAY_IN_MS;
+  const used = new Map<UUID, number>();
+  const firstSeen = new Map<UUID, number>();
+  movements
+    .filter((movement) => !movement.deletedAt)
+    .forEach((movement) => {
+      const time = new Date(movement.createdAt).getTime();
+      firstSeen.set(movement.partId, Math.min(firstSeen.get(movement.partId) ?? time, time));
+      if (movement.revisionId && time >= start && time <= end) {
+        used.set(movement.partId, (used.get(movement.partId) ?? 0) - movement.quantity);
+      }
+    });
+  const daily = new Map<UUID, number>();
+  used.forEach((quantity, partId) => {
+    const days = Math.min(
+      CONSUMPTION_WINDOW_DAYS,
+      Math.max(1, (end - (firstSeen.get(partId) ?? start)) / DAY_IN_MS)
+    );
+    if (quantity > 0) {
+      daily.set(partId, quantity / days);
+    }
+  });
+  return daily;
+}
+
+/**
+ * Units of each part still pending on orders sent to suppliers or still in draft, so drafts
+ * generated earlier are not suggested again.
+ */
+export function incomingQuantities(orders: PurchaseOrder[]) {
+  const incoming = new Map<UUID, number>();
+  orders
+    .filter(
+      (order) => !order.deletedAt && (order.status === 'rascunho' || isAwaitingDelivery(order))
+    )
+    .forEach((order) =>
+      order.items.forEach((item) =>
+        incoming.set(item.partId, (incoming.get(item.partId) ?? 0) + pendingQuantity(item))
+      )
+    );
+  return incoming;
+}
+
+/** The preferred supplier among those linked to the part, then the cheapest. */
+export function supplierFor(part: Part, suppliers: Supplier[]) {
+  const linked = part.suppliers
+    .map((link) => ({ link, supplier: suppliers.find((item) => item.id === link.supplierId) }))
+    .filter((entry): entry is { link: typeof entry.link; supplier: Supplier } => !!entry.supplier)
+    .sort(
+      (left, right) =>
+        Number(right.supplier.preferred) - Number(left.supplier.preferred) ||
+        left.link.unitCost - right.link.unitCost
+    );
+  return linked[0];
+}
+
+type ReorderSources = {
+  parts: Part[];
+  suppliers: Supplier[];
+  movements: StockMovement[];
+  orders: PurchaseOrder[];
+  reserved: Map<UUID, number>;
+  now: string;
+};
+
+/**
+ * Parts that will drop below their minimum before a new order could arrive. A part is
+ * reordered when what is available and on its way no longer covers the minimum plus the
+ * consumption during the supplier lead time; the suggestion tops it up to also cover
+ * `COVERAGE_DAYS` of consumption.
+ */
+export function reorderSuggestions({
+  parts,
+  suppliers,
+  movements,
+  orders,
+  reserved,
+  now,
+}: ReorderSources) {
+  const daily = dailyConsumption(movements, now);
+  const incoming = incomingQuantities(orders);
+  const suggestions: ReorderSuggestion[] = [];
+  parts.forEach((part) => {
+    const source = supplierFor(part, suppliers);
+    const consumption = daily.get(part.id) ?? 0;
+    const available = availableQuantity(part, reserved);
+    const pending = incoming.get(part.id) ?? 0;
+    const leadTimeDays = source?.supplier.leadTimeDays ?? 0;
+    const reorderPoint = part.minStock + consumption * leadTimeDays;
+    if (available + pending > reorderPoint) {
+      return;
+    }
+    const target = reorderPoint + consumption * COVERAGE_DAYS;
+    suggestions.push({
+      part,
+      supplier: source?.supplier,
+      unitCost: source?.link.unitCost ?? part.unitCost,
+      dailyConsumption: consumption,
+      available,
+      incoming: pending,
+      stockOutAt:
+        consumption > 0
+          ? new Date(
+              new Date(now).getTime() + (Math.max(0, available) / consumption) * DAY_IN_MS
+            ).toISOString()
+          : undefined,
+      quantity: Math.max(1, Math.ceil(target - available - pending)),
+    });
+  });
+  // Soonest stock-out first; parts nobody is using go last.
+  return suggestions.sort((left, right) =>
+    left.stockOutAt && right.stockOutAt
+      ? left.stockOutAt.localeCompare(right.stockOutAt)
+      : Number(!left.stockOutAt) - Number(!right.stockOutAt)
+  );
+}
+
+/** One draft order per unit and supplier; suggestions without a supplier are left out. */
+export function draftOrders(suggestions: ReorderSuggestion[]) {
+  const orders = new Map<string, PurchaseOrderInput>();
+  suggestions.forEach(({ part, supplier, quantity, unitCost }) => {
+    if (!supplier || quantity <= 0) {
+      return;
+    }
+    const key = `${part.branchId}:${supplier.id}`;
+    const order = orders.get(key) ?? {
+      branchId: part.branchId,
+      supplierId: supplier.id,
+      items: [],
+      notes: 'Gerado pelas sugestões de compra',
+    };
+    order.items.push({ partId: part.id, quantity, unitCost });
+    orders.set(key, order);
+  });
+  return [...orders.values()];
+}
@@ -0,0 +1,103 @@
+import {
+  AuditEntry,
+  Branch,
+  Client,
+  Part,
+  PurchaseOrder,
+  Revision,
+  StockMovement,
+  Supplier,
+  TeamMember,
+  UUID,
+} from '@/types/entities';
+
+export type EntityMap = {
+  branches: Branch;
+  parts: Part;
+  revisions: Revision;
+  team: TeamMember;
+  clients: Client;
+  suppliers: Supplier;
+  stockMovements: StockMovement;
+  purchaseOrders: PurchaseOrder;
+};
+
+export type EntityName = keyof EntityMap;
+
+export const ENTITY_NAMES: EntityName[] = [
+  'branches',
+  'parts',
+  'revisions',
+  'team',
+  'clients',
+  'suppliers',
+  'stockMovements',
+  'purchaseOrders',
+];
+
+export type Repository<T extends { id: UUID }> = {
+  /** Resolves `null` when the collection was never persisted, so the caller can seed it. */
+  getAll: () => Promise<T[] | null>;
+  replaceAll: (items: T[]) => Promise<void>;
+  upsert: (item: T) => Promise<void>;
+  remove: (id: UUID) => Promise<void>;
+  /** Exact-match lookup; backends with indexes answer it without scanning the collection. */
+  findBy: <K extends keyof T & string>(field: K, value: T[K]) => Promise<T[]>;
+  /** Forgets the collection, so `getAll` resolves `null` again. */
+  drop: () => Promise<void>;
+};
+
+/** Small key/value area for bookkeeping that is not an entity (schema version, etc.). */
+export type MetadataStore = {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+};
+
+export const METADATA_KEYS = {
+  schemaVersion: 'schema-version',
+  quarantine: 'quarantine',
+  accounts: 'accounts',
+  trashRetentionDays: 'trash-retention-days',
+  syncQueue: 'sync-queue',
+  syncCursor: 'sync-cursor',
+  syncConflicts: 'sync-conflicts',
+  activeBranch: 'active-branch',
+  vault: 'vault',
+  signInLock: 'sign-in-lock',
+} as const;
+
+/** Append-only trail of mutations; entries are never removed, and only edited by `redact`. */
+export type AuditLog = {
+  append: (entry: AuditEntry) => Promise<void>;
+  /** Newest entries first. */
+  findByRecord: (entity: EntityName, recordId: UUID) => Promise<AuditEntry[]>;
+  /** Erases the values of `fields` from a record's entries, on the data subject's request. */
+  redact: (entity: EntityName, recordId: UUID, fields: string[]) => Promise<void>;
+};
+
+/** Thrown by `getAll` when the stored collection cannot be read as a list of records. */
+export class CorruptCollectionError extends Error {
+  constructor(
+    public readonly raw: string,
+    reason: string
+  ) {
+    super(reason);
+    this.name = 'CorruptCollectionError';
+  }
+}
+
+/** Space taken by a collection, the audit trail or the metadata, for diagnostics. */
+export type StorageUsage = {
+  name: EntityName | 'audit' | 'meta';
+  records: number;
+  /** Approximate: the length of the stored values once serialized. */
+  bytes: number;
+};
+
+export type StorageBackend = {
+  [K in EntityName]: Repository<EntityMap[K]>;
+} & {
+  meta: MetadataStore;
+  audit: AuditLog;
+  usage: () => Promise<StorageUsage[]>;
+};
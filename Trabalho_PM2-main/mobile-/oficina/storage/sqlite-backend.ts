@@ -0,0 +1,558 @@
+import { SQLiteBindValue, SQLiteDatabase, openDatabaseAsync } from 'expo-sqlite';
+
+import { redactEntry } from '@/storage/audit';
+import {
+  ENTITY_NAMES,
+  EntityMap,
+  EntityName,
+  Repository,
+  StorageBackend,
+  StorageUsage,
+} from '@/storage/repository';
+import { AuditEntry, UUID } from '@/types/entities';
+
+type ColumnKind = 'text' | 'real' | 'integer' | 'boolean' | 'json';
+
+type TableSpec<T> = {
+  table: string;
+  columns: { [K in keyof T]-?: ColumnKind };
+  indexes: (keyof T & string)[];
+};
+
+type Row = Record<string, SQLiteBindValue>;
+
+const DATABASE_NAME = 'redcar.db';
+
+/** JSON of the fields a table has no column for, so migrations still see older record shapes. */
+const EXTRA_COLUMN = '_extra';
+
+const TABLES: { [K in EntityName]: TableSpec<EntityMap[K]> } = {
+  branches: {
+    table: 'branches',
+    columns: {
+      id: 'text',
+      name: 'text',
+      address: 'text',
+      phone: 'text',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: [],
+  },
+  parts: {
+    table: 'parts',
+    columns: {
+      id: 'text',
+      branchId: 'text',
+      name: 'text',
+      code: 'text',
+      quantity: 'integer',
+      minStock: 'integer',
+      location: 'text',
+      suppliers: 'json',
+      category: 'text',
+      unitCost: 'real',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['branchId', 'code'],
+  },
+  revisions: {
+    table: 'revisions',
+    columns: {
+      id: 'text',
+      branchId: 'text',
+      clientId: 'text',
+      clientName: 'text',
+      clientPhone: 'text',
+      vehicleModel: 'text',
+      licensePlate: 'text',
+      serviceDescription: 'text',
+      scheduledDate: 'text',
+      scheduledTime: 'text',
+      status: 'text',
+      priority: 'text',
+      assignedTo: 'text',
+      notes: 'text',
+      remindersEnabled: 'boolean',
+      partItems: 'json',
+      laborItems: 'json',
+      discount: 'real',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['branchId', 'clientId', 'licensePlate', 'scheduledDate', 'status'],
+  },
+  team: {
+    table: 'team',
+    columns: {
+      id: 'text',
+      branchId: 'text',
+      name: 'text',
+      role: 'text',
+      phone: 'text',
+      email: 'text',
+      active: 'boolean',
+      expertiseLevel: 'text',
+      certificationExpiry: 'text',
+      hiredAt: 'text',
+      hourlyRate: 'real',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['branchId'],
+  },
+  clients: {
+    table: 'clients',
+    columns: {
+      id: 'text',
+      name: 'text',
+      phone: 'text',
+      email: 'text',
+      vehicle: 'text',
+      licensePlate: 'text',
+      lastVisit: 'text',
+      tier: 'text',
+      preferredAdvisor: 'text',
+      active: 'boolean',
+      notes: 'text',
+      marketingConsent: 'boolean',
+      whatsappConsent: 'boolean',
+      consentUpdatedAt: 'text',
+      anonymizedAt: 'text',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['licensePlate'],
+  },
+  suppliers: {
+    table: 'suppliers',
+    columns: {
+      id: 'text',
+      company: 'text',
+      contactName: 'text',
+      phone: 'text',
+      email: 'text',
+      category: 'text',
+      leadTimeDays: 'integer',
+      preferred: 'boolean',
+      rating: 'real',
+      lastOrderDate: 'text',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: [],
+  },
+  stockMovements: {
+    table: 'stock_movements',
+    columns: {
+      id: 'text',
+      branchId: 'text',
+      partId: 'text',
+      type: 'text',
+      quantity: 'integer',
+      balance: 'integer',
+      reason: 'text',
+      revisionId: 'text',
+      purchaseOrderId: 'text',
+      counterpartId: 'text',
+      memberId: 'text',
+      createdAt: 'text',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['branchId', 'partId', 'revisionId', 'purchaseOrderId'],
+  },
+  purchaseOrders: {
+    table: 'purchase_orders',
+    columns: {
+      id: 'text',
+      branchId: 'text',
+      supplierId: 'text',
+      status: 'text',
+      items: 'json',
+      notes: 'text',
+      createdAt: 'text',
+      sentAt: 'text',
+      expectedAt: 'text',
+      receivedAt: 'text',
+
+      deletedAt: 'text',
+      updatedAt: 'text',
+      version: 'integer',
+    },
+    indexes: ['branchId', 'supplierId', 'status'],
+  },
+};
+
+const SQL_TYPES: Record<ColumnKind, string> = {
+  text: 'TEXT',
+  real: 'REAL',
+  integer: 'INTEGER',
+  boolean: 'INTEGER',
+  json: 'TEXT',
+};
+
+const quote = (identifier: string) => `"${identifier}"`;
+
+function toSqlValue(kind: ColumnKind, value: unknown): SQLiteBindValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (kind === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (kind === 'json') {
+    return JSON.stringify(value);
+  }
+  return value as SQLiteBindValue;
+}
+
+function fromSqlValue(kind: ColumnKind, value: SQLiteBindValue) {
+  if (value === null) {
+    return undefined;
+  }
+  if (kind === 'boolean') {
+    return Boolean(value);
+  }
+  if (kind === 'json') {
+    return JSON.parse(String(value));
+  }
+  return value;
+}
+
+async function ensureTable<T>(db: SQLiteDatabase, spec: TableSpec<T>) {
+  const columns = Object.entries(spec.columns) as [string, ColumnKind][];
+  const definitions = [
+    ...columns.map(([name, kind]) =>
+      name === 'id'
+        ? `${quote(name)} TEXT PRIMARY KEY NOT NULL`
+        : `${quote(name)} ${SQL_TYPES[kind]}`
+    ),
+    `${quote(EXTRA_COLUMN)} TEXT`,
+  ];
+  await db.execAsync(
+    `CREATE TABLE IF NOT EXISTS ${quote(spec.table)} (${definitions.join(', ')});`
+  );
+
+  // Fields added to the entity types after the table was created become new nullable columns.
+  const existing = await db.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${quote(spec.table)})`
+  );
+  const existingNames = new Set(existing.map((column) => column.name));
+  for (const [name, kind] of [...columns, [EXTRA_COLUMN, 'json'] as const]) {
+    if (!existingNames.has(name)) {
+      await db.execAsync(
+        `ALTER TABLE ${quote(spec.table)} ADD COLUMN ${quote(name)} ${SQL_TYPES[kind]};`
+      );
+    }
+  }
+
+  for (const field of spec.indexes) {
+    await db.execAsync(
+      `CREATE INDEX IF NOT EXISTS ${quote(`idx_${spec.table}_${field}`)} ON ${quote(spec.table)} (${quote(field)});`
+    );
+  }
+}
+
+function createSQLiteRepository<T extends { id: UUID }>(
+  getDatabase: () => Promise<SQLiteDatabase>,
+  spec: TableSpec<T>,
+  legacy?: Repository<T>
+): Repository<T> {
+  const columns = Object.entries(spec.columns) as [string, ColumnKind][];
+  const written = [...columns.map(([name]) => name), EXTRA_COLUMN];
+  const columnList = written.map(quote).join(', ');
+  const placeholders = written.map(() => '?').join(', ');
+  const updates = written
+    .filter((name) => name !== 'id')
+    .map((name) => `${quote(name)} = excluded.${quote(name)}`)
+    .join(', ');
+  // ON CONFLICT keeps the original rowid, so records stay in insertion order after updates.
+  const upsertSql = `INSERT INTO ${quote(spec.table)} (${columnList}) VALUES (${placeholders}) ON CONFLICT(${quote('id')}) DO UPDATE SET ${updates};`;
+
+  let ready: Promise<SQLiteDatabase> | null = null;
+  const open = () => {
+    if (!ready) {
+      ready = getDatabase().then(async (db) => {
+        await ensureTable(db, spec);
+        return db;
+      });
+      ready.catch(() => {
+        ready = null;
+      });
+    }
+    return ready;
+  };
+
+  const toParams = (item: T) => {
+    const extra = Object.fromEntries(
+      Object.entries(item).filter(([name]) => !(name in spec.columns))
+    );
+    return [
+      ...columns.map(([name, kind]) => toSqlValue(kind, (item as Record<string, unknown>)[name])),
+      Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+    ];
+  };
+
+  const fromRow = (row: Row) => {
+    const extra = row[EXTRA_COLUMN];
+    const item: Record<string, unknown> = extra ? JSON.parse(String(extra)) : {};
+    columns.forEach(([name, kind]) => {
+      const value = fromSqlValue(kind, row[name] ?? null);
+      if (value !== undefined) {
+        item[name] = value;
+      }
+    });
+    return item as T;
+  };
+
+  const isInitialized = async (db: SQLiteDatabase) =>
+    Boolean(
+      await db.getFirstAsync(`SELECT name FROM ${quote('_collections')} WHERE name = ?`, spec.table)
+    );
+
+  const markInitialized = (db: SQLiteDatabase) =>
+    db.runAsync(`INSERT OR IGNORE INTO ${quote('_collections')} (name) VALUES (?)`, spec.table);
+
+  const replaceRows = async (db: SQLiteDatabase, items: T[]) => {
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(`DELETE FROM ${quote(spec.table)}`);
+      // Newest records come first in memory; insert in reverse so rowid order matches.
+      for (const item of [...items].reverse()) {
+        await db.runAsync(upsertSql, toParams(item));
+      }
+      await markInitialized(db);
+    });
+  };
+
+  return {
+    getAll: async () => {
+      const db = await open();
+      if (!(await isInitialized(db))) {
+        const imported = legacy ? await legacy.getAll() : null;
+        if (!imported) {
+          return null;
+        }
+        await replaceRows(db, imported);
+        return imported;
+      }
+      const rows = await db.getAllAsync<Row>(
+        `SELECT * FROM ${quote(spec.table)} ORDER BY rowid DESC`
+      );
+      return rows.map(fromRow);
+    },
+    replaceAll: async (items) => {
+      const db = await open();
+      await replaceRows(db, items);
+    },
+    upsert: async (item) => {
+      const db = await open();
+      await db.runAsync(upsertSql, toParams(item));
+    },
+    remove: async (id) => {
+      const db = await open();
+      await db.runAsync(`DELETE FROM ${quote(spec.table)} WHERE ${quote('id')} = ?`, id);
+    },
+    findBy: async (field, value) => {
+      const db = await open();
+      const rows = await db.getAllAsync<Row>(
+        `SELECT * FROM ${quote(spec.table)} WHERE ${quote(field)} = ? ORDER BY rowid DESC`,
+        toSqlValue(spec.columns[field], value)
+      );
+      return rows.map(fromRow);
+    },
+    drop: async () => {
+      const db = await open();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(`DELETE FROM ${quote(spec.table)}`);
+        await db.runAsync(`DELETE FROM ${quote('_collections')} WHERE name = ?`, spec.table);
+      });
+    },
+  };
+}
+
+/** Row count and the summed length of every column; tables not created yet count as empty. */
+async function tableUsage(db: SQLiteDatabase, table: string, columns: string[]) {
+  const exists = await db.getFirstAsync(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    table
+  );
+  if (!exists) {
+    return { records: 0, bytes: 0 };
+  }
+  const length = columns
+    .map((column) => `IFNULL(LENGTH(CAST(${quote(column)} AS BLOB)), 0)`)
+    .join(' + ');
+  const row = await db.getFirstAsync<{ records: number; bytes: number | null }>(
+    `SELECT COUNT(*) AS records, SUM(${length}) AS bytes FROM ${quote(table)}`
+  );
+  return { records: row?.records ?? 0, bytes: row?.bytes ?? 0 };
+}
+
+type SQLiteBackendOptions = {
+  databaseName?: string;
+  /** Collections (and metadata) never written to SQLite are read once from this backend. */
+  legacy?: StorageBackend;
+};
+
+export function createSQLiteBackend({
+  databaseName = DATABASE_NAME,
+  legacy,
+}: SQLiteBackendOptions = {}): StorageBackend {
+  let database: Promise<SQLiteDatabase> | null = null;
+  const getDatabase = () => {
+    if (!database) {
+      database = openDatabaseAsync(databaseName).then(async (db) => {
+        await db.execAsync(`
+          PRAGMA journal_mode = WAL;
+          CREATE TABLE IF NOT EXISTS ${quote('_collections')} (name TEXT PRIMARY KEY NOT NULL);
+          CREATE TABLE IF NOT EXISTS ${quote('_meta')} (key TEXT PRIMARY KEY NOT NULL, value TEXT);
+          CREATE TABLE IF NOT EXISTS ${quote('_audit')} (
+            id TEXT PRIMARY KEY NOT NULL,
+            entity TEXT NOT NULL,
+            recordId TEXT NOT NULL,
+            action TEXT NOT NULL,
+            changes TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            actorId TEXT
+          );
+          CREATE INDEX IF NOT EXISTS ${quote('idx__audit_record')} ON ${quote('_audit')} (entity, recordId);
+        `);
+        return db;
+      });
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  return {
+    usage: async () => {
+      const db = await getDatabase();
+      const usage: StorageUsage[] = [];
+      for (const name of ENTITY_NAMES) {
+        const spec = TABLES[name];
+        usage.push({
+          name,
+          ...(await tableUsage(db, spec.table, [...Object.keys(spec.columns), EXTRA_COLUMN])),
+        });
+      }
+      usage.push({
+        name: 'audit',
+        ...(await tableUsage(db, '_audit', [
+          'id',
+          'entity',
+          'recordId',
+          'action',
+          'changes',
+          'timestamp',
+          'actorId',
+        ])),
+      });
+      usage.push({ name: 'meta', ...(await tableUsage(db, '_meta', ['key', 'value'])) });
+      return usage;
+    },
+    meta: {
+      get: async (key) => {
+        const db = await getDatabase();
+        const row = await db.getFirstAsync<{ value: string | null }>(
+          `SELECT value FROM ${quote('_meta')} WHERE key = ?`,
+          key
+        );
+        if (!row && legacy) {
+          return legacy.meta.get(key);
+        }
+        return row?.value ?? null;
+      },
+      set: async (key, value) => {
+        const db = await getDatabase();
+        await db.runAsync(
+          `INSERT INTO ${quote('_meta')} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+          key,
+          value
+        );
+      },
+    },
+    audit: {
+      append: async (entry) => {
+        const db = await getDatabase();
+        await db.runAsync(
+          `INSERT INTO ${quote('_audit')} (id, entity, recordId, action, changes, timestamp, actorId) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          entry.id,
+          entry.entity,
+          entry.recordId,
+          entry.action,
+          JSON.stringify(entry.changes),
+          entry.timestamp,
+          entry.actorId ?? null
+        );
+      },
+      findByRecord: async (entity, recordId) => {
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<Omit<AuditEntry, 'changes' | 'actorId'> & {
+          changes: string;
+          actorId: string | null;
+        }>(
+          `SELECT * FROM ${quote('_audit')} WHERE entity = ? AND recordId = ? ORDER BY rowid DESC`,
+          entity,
+          recordId
+        );
+        return rows.map(({ changes, actorId, ...row }) => ({
+          ...row,
+          changes: JSON.parse(changes),
+          actorId: actorId ?? undefined,
+        }));
+      },
+      redact: async (entity, recordId, fields) => {
+        const db = await getDatabase();
+        const rows = await db.getAllAsync<{ id: string; changes: string }>(
+          `SELECT id, changes FROM ${quote('_audit')} WHERE entity = ? AND recordId = ?`,
+          entity,
+          recordId
+        );
+        await db.withTransactionAsync(async () => {
+          for (const row of rows) {
+            const { changes } = redactEntry({ changes: JSON.parse(row.changes) }, fields);
+            await db.runAsync(
+              `UPDATE ${quote('_audit')} SET changes = ? WHERE id = ?`,
+              JSON.stringify(changes),
+              row.id
+            );
+          }
+        });
+      },
+    },
+    branches: createSQLiteRepository(getDatabase, TABLES.branches, legacy?.branches),
+    parts: createSQLiteRepository(getDatabase, TABLES.parts, legacy?.parts),
+    revisions: createSQLiteRepository(getDatabase, TABLES.revisions, legacy?.revisions),
+    team: createSQLiteRepository(getDatabase, TABLES.team, legacy?.team),
+    clients: createSQLiteRepository(getDatabase, TABLES.clients, legacy?.clients),
+    suppliers: createSQLiteRepository(getDatabase, TABLES.suppliers, legacy?.suppliers),
+    stockMovements: createSQLiteRepository(
+      getDatabase,
+      TABLES.stockMovements,
+      legacy?.stockMovements
+    ),
+    purchaseOrders: createSQLiteRepository(
+      getDatabase,
+      TABLES.purchaseOrders,
+      legacy?.purchaseOrders
+    ),
+  };
+}
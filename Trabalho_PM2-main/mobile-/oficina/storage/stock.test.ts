@@ -0,0 +1,96 @@
+import { findShortages, stockDeductions } from '@/storage/stock';
+import { Part, Revision } from '@/types/entities';
+
+const part = (id: string, quantity: number): Part => ({
+  id,
+  branchId: 'branch-1',
+  name: `Peça ${id}`,
+  code: id.toUpperCase(),
+  quantity,
+  minStock: 0,
+  location: '',
+  suppliers: [],
+  category: 'Outros',
+  unitCost: 10,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const revision = (
+  status: Revision['status'],
+  partItems: [partId: string, quantity: number][]
+): Revision => ({
+  id: 'revision-1',
+  branchId: 'branch-1',
+  clientName: 'Cliente',
+  clientPhone: '',
+  vehicleModel: '',
+  licensePlate: '',
+  serviceDescription: '',
+  scheduledDate: '2026-01-10',
+  scheduledTime: '',
+  status,
+  priority: 'media',
+  remindersEnabled: false,
+  partItems: partItems.map(([partId, quantity]) => ({ partId, quantity, unitPrice: 15 })),
+  laborItems: [],
+  discount: 0,
+});
+
+describe('stockDeductions', () => {
+  it('takes nothing until the revision is concluded', () => {
+    expect(stockDeductions(undefined, revision('em andamento', [['a', 2]])).size).toBe(0);
+  });
+
+  it('takes the items of a revision once it is concluded', () => {
+    const deductions = stockDeductions(
+      revision('em andamento', [['a', 2]]),
+      revision('concluida', [
+        ['a', 2],
+        ['b', 1],
+        ['a', 1],
+      ])
+    );
+    expect([...deductions]).toEqual([
+      ['a', 3],
+      ['b', 1],
+    ]);
+  });
+
+  it('gives the items back when a concluded revision is reopened', () => {
+    const deductions = stockDeductions(
+      revision('concluida', [['a', 2]]),
+      revision('em andamento', [['a', 2]])
+    );
+    expect([...deductions]).toEqual([['a', -2]]);
+  });
+
+  it('only moves the difference when a concluded revision changes', () => {
+    const deductions = stockDeductions(
+      revision('concluida', [
+        ['a', 2],
+        ['b', 1],
+      ]),
+      revision('concluida', [
+        ['a', 3],
+        ['b', 1],
+      ])
+    );
+    expect([...deductions]).toEqual([['a', 1]]);
+  });
+});
+
+describe('findShortages', () => {
+  it('lists the parts that cannot cover what is taken', () => {
+    const parts = [part('a', 1), part('b', 5)];
+    const deductions = new Map([
+      ['a', 3],
+      ['b', 5],
+      ['missing', 2],
+    ]);
+    expect(findShortages(deductions, parts)).toEqual([{ part: parts[0], missing: 2 }]);
+  });
+
+  it('ignores parts given back', () => {
+    expect(findShortages(new Map([['a', -4]]), [part('a', 0)])).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { Part, Revision, StockMovement, UUID } from '@/types/entities';
+
+const addTo = (totals: Map<UUID, number>, partId: UUID, quantity: number) =>
+  totals.set(partId, (totals.get(partId) ?? 0) + quantity);
+
+/**
+ * Quantity of each part held by revisions that are not concluded yet. Revisions in the
+ * trash hold nothing, so cancelling one releases its parts.
+ */
+export function reservedQuantities(revisions: Revision[]) {
+  const reserved = new Map<UUID, number>();
+  revisions
+    .filter((revision) => !revision.deletedAt && revision.status !== 'concluida')
+    .forEach((revision) =>
+      revision.partItems.forEach((item) => addTo(reserved, item.partId, item.quantity))
+    );
+  return reserved;
+}
+
+/** On hand minus reserved; below zero when more was reserved than there is. */
+export const availableQuantity = (part: Part, reserved: Map<UUID, number>) =>
+  part.quantity - (reserved.get(part.id) ?? 0);
+
+const usedParts = (revision: Revision | undefined) =>
+  revision?.status === 'concluida' ? revision.partItems : [];
+
+/**
+ * How much of each part leaves the stock when a revision changes from `before` to `after`:
+ * what it uses is deducted once it is concluded, and returned if it is reopened or its
+ * items change afterwards. Negative amounts go back to the stock.
+ */
+export function stockDeductions(before: Revision | undefined, after: Revision | undefined) {
+  const deductions = new Map<UUID, number>();
+  usedParts(after).forEach((item) => addTo(deductions, item.partId, item.quantity));
+  usedParts(before).forEach((item) => addTo(deductions, item.partId, -item.quantity));
+  deductions.forEach((quantity, partId) => {
+    if (quantity === 0) {
+      deductions.delete(partId);
+    }
+  });
+  return deductions;
+}
+
+/** What callers say about a movement; the part, balance, author and time are filled in. */
+export type StockMovementInput = Pick<
+  StockMovement,
+  'type' | 'quantity' | 'reason' | 'revisionId' | 'purchaseOrderId' | 'counterpartId'
+>;
+
+/** Quantity of each part according to its movements. */
+export function ledgerQuantities(movements: StockMovement[]) {
+  const totals = new Map<UUID, number>();
+  movements
+    .filter((movement) => !movement.deletedAt)
+    .forEach((movement) => addTo(totals, movement.partId, movement.quantity));
+  return totals;
+}
+
+/** How far the quantity of `part` is from the sum of its movements; 0 when they agree. */
+export const ledgerDifference = (part: Part, ledger: Map<UUID, number>) =>
+  part.quantity - (ledger.get(part.id) ?? 0);
+
+/** Movements of one part, newest first. */
+export const movementsOf = (partId: UUID, movements: StockMovement[]) =>
+  movements
+    .filter((movement) => movement.partId === partId && !movement.deletedAt)
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+
+export type StockShortage = {
+  part: Part;
+  /** How many units are missing. */
+  missing: number;
+};
+
+/** Thrown when concluding a revision would take more of a part than is on hand. */
+export class InsufficientStockError extends Error {
+  constructor(public readonly shortages: StockShortage[]) {
+    super(
+      `Estoque insuficiente: ${shortages
+        .map(({ part, missing }) => `${part.name} (faltam ${missing})`)
+        .join(', ')}. Ajuste a contagem das peças antes de concluir a revisão.`
+    );
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/** Lists the parts whose stock cannot cover `deductions`. */
+export function findShortages(deductions: Map<UUID, number>, parts: Part[]) {
+  const shortages: StockShortage[] = [];
+  deductions.forEach((quantity, partId) => {
+    const part = parts.find((item) => item.id === partId);
+    if (part && part.quantity < quantity) {
+      shortages.push({ part, missing: quantity - part.quantity });
+    }
+  });
+  return shortages;
+}
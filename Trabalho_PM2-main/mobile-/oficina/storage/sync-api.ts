@@ -0,0 +1,90 @@
+import axios, { isAxiosError } from 'axios';
+
+import { EntityName } from '@/storage/repository';
+import { SyncedRecord } from '@/storage/sync';
+import { UUID } from '@/types/entities';
+
+export type PullResult = {
+  /** Records created or changed on the server since the cursor, trashed ones included. */
+  records: SyncedRecord[];
+  /** Records purged on the server since the cursor. */
+  deletedIds: UUID[];
+  /** Cursor for the next pull. */
+  serverTime: string;
+};
+
+/**
+ * REST contract, per collection (`branches`, `parts`, `revisions`, `team`, `clients`,
+ * `suppliers`, `stockMovements`, `purchaseOrders`):
+ * - `GET /sync/:entity?since=` returns a PullResult;
+ * - `PUT /sync/:entity/:id` with `{ record, baseVersion }` returns `{ record }` with the
+ *   new server revision;
+ * - `DELETE /sync/:entity/:id?baseVersion=` purges the record.
+ * Writes based on an outdated revision answer 409 with `{ record }`, the server copy.
+ */
+export type SyncApi = {
+  pull: (entity: EntityName, since: string | null) => Promise<PullResult>;
+  push: (entity: EntityName, record: SyncedRecord, baseVersion: number) => Promise<SyncedRecord>;
+  remove: (entity: EntityName, id: UUID, baseVersion: number) => Promise<void>;
+};
+
+export class SyncConflictError extends Error {
+  constructor(
+    public readonly entity: EntityName,
+    public readonly recordId: UUID,
+    /** The server copy the change was refused against. */
+    public readonly remote: SyncedRecord
+  ) {
+    super('O registro foi alterado em outro aparelho.');
+    this.name = 'SyncConflictError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/** True when the server could not be reached at all, as opposed to answering with an error. */
+export const isNetworkError = (error: unknown) => isAxiosError(error) && !error.response;
+
+export function createSyncApi(baseURL: string): SyncApi {
+  const client = axios.create({ baseURL, timeout: REQUEST_TIMEOUT_MS });
+
+  const rethrowConflict = (entity: EntityName, id: UUID, error: unknown): never => {
+    if (isAxiosError(error) && error.response?.status === 409) {
+      throw new SyncConflictError(entity, id, error.response.data.record);
+    }
+    throw error;
+  };
+
+  return {
+    pull: async (entity, since) => {
+      const response = await client.get<PullResult>(`/sync/${entity}`, {
+        params: since ? { since } : undefined,
+      });
+      return response.data;
+    },
+    push: async (entity, record, baseVersion) => {
+      try {
+        const response = await client.put<{ record: SyncedRecord }>(
+          `/sync/${entity}/${record.id}`,
+          { record, baseVersion }
+        );
+        return response.data.record;
+      } catch (error) {
+        return rethrowConflict(entity, record.id, error);
+      }
+    },
+    remove: async (entity, id, baseVersion) => {
+      try {
+        await client.delete(`/sync/${entity}/${id}`, { params: { baseVersion } });
+      } catch (error) {
+        rethrowConflict(entity, id, error);
+      }
+    },
+  };
+}
+
+/** Server configured through `EXPO_PUBLIC_SYNC_URL`; sync stays off without one. */
+export function createDefaultSyncApi() {
+  const baseURL = process.env.EXPO_PUBLIC_SYNC_URL;
+  return baseURL ? createSyncApi(baseURL) : null;
+}
@@ -0,0 +1,103 @@
+import { EntityRecords } from '@/storage/integrity';
+import { ENTITY_NAMES } from '@/storage/repository';
+import { PulledRecord, SyncedRecord, mergeRecords, screenPulledRecords } from '@/storage/sync';
+import { Part } from '@/types/entities';
+
+const base: Part = {
+  id: 'part-1',
+  branchId: 'branch-1',
+  name: 'Filtro de óleo',
+  code: 'FO-1',
+  quantity: 10,
+  minStock: 2,
+  location: 'A1',
+  suppliers: [],
+  category: 'Mecanica',
+  unitCost: 20,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  version: 3,
+};
+
+describe('mergeRecords', () => {
+  it('takes each field from the side that changed it', () => {
+    const local = { ...base, location: 'B2', updatedAt: '2026-01-03T00:00:00.000Z' };
+    const remote = { ...base, name: 'Filtro', version: 4, updatedAt: '2026-01-02T00:00:00.000Z' };
+    expect(mergeRecords('parts', base, local, remote)).toEqual({
+      record: { ...remote, location: 'B2', updatedAt: '2026-01-03T00:00:00.000Z' },
+      conflicts: [],
+    });
+  });
+
+  it('applies both changes to stock quantities', () => {
+    const { record, conflicts } = mergeRecords(
+      'parts',
+      base,
+      { ...base, quantity: 7 },
+      { ...base, quantity: 15, version: 4 }
+    );
+    expect((record as Part).quantity).toBe(12);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('keeps the server value of fields changed on both sides and reports them', () => {
+    const { record, conflicts } = mergeRecords(
+      'parts',
+      base,
+      { ...base, unitCost: 22, minStock: 3 },
+      { ...base, unitCost: 25, minStock: 3, version: 4 }
+    );
+    expect(record).toMatchObject({ unitCost: 25, minStock: 3, version: 4 });
+    expect(conflicts).toEqual([{ field: 'unitCost', local: 22, remote: 25 }]);
+  });
+
+  it('treats every field as changed when there is no common base', () => {
+    const { conflicts } = mergeRecords(
+      'parts',
+      undefined,
+      { ...base, quantity: 7 },
+      { ...base, quantity: 15 }
+    );
+    expect(conflicts).toEqual([{ field: 'quantity', local: 7, remote: 15 }]);
+  });
+});
+
+describe('screenPulledRecords', () => {
+  const local = {
+    ...Object.fromEntries(ENTITY_NAMES.map((name) => [name, []])),
+    branches: [{ id: 'branch-1' }],
+  } as unknown as EntityRecords;
+  const pulled = (entity: PulledRecord['entity'], record: object): PulledRecord => ({
+    entity,
+    record: record as SyncedRecord,
+  });
+  const noIssue = () => null;
+
+  it('accepts records pointing at records pulled with them', () => {
+    const incoming = [
+      pulled('revisions', { id: 'revision-1', branchId: 'branch-1', clientId: 'client-1' }),
+      pulled('clients', { id: 'client-1' }),
+    ];
+    expect(screenPulledRecords(incoming, local, noIssue)).toEqual({
+      accepted: incoming,
+      rejected: [],
+    });
+  });
+
+  it('rejects invalid records and those left pointing at nothing', () => {
+    const { accepted, rejected } = screenPulledRecords(
+      [
+        pulled('clients', { id: 'client-1', broken: true }),
+        pulled('revisions', { id: 'revision-1', branchId: 'branch-1', clientId: 'client-1' }),
+        pulled('parts', { ...base, branchId: 'branch-2' }),
+      ],
+      local,
+      (_, record) => ('broken' in record ? 'campo inválido' : null)
+    );
+    expect(accepted).toEqual([]);
+    expect(rejected.map(({ record, reason }) => [record.id, reason])).toEqual([
+      ['client-1', 'campo inválido'],
+      ['revision-1', 'Referência a cliente inexistente'],
+      ['part-1', 'Referência a unidade inexistente'],
+    ]);
+  });
+});
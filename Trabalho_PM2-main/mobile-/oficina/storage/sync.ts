@@ -0,0 +1,225 @@
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { EntityRecords, findMissingReferences } from '@/storage/integrity';
+import { EntityMap, EntityName, METADATA_KEYS, MetadataStore } from '@/storage/repository';
+import { UUID } from '@/types/entities';
+
+export type SyncedRecord = EntityMap[EntityName];
+
+/**
+ * - `disabled`: no server configured;
+ * - `offline`: the last attempt could not reach the server, changes wait in the queue;
+ * - `error`: the server answered with a failure.
+ */
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+/** A record changed locally and not yet accepted by the server. */
+export type PendingChange = {
+  entity: EntityName;
+  recordId: UUID;
+  /** Server revision the change was made on; the server refuses it if it moved on since. */
+  baseVersion: number;
+  /** Time of the latest local change to the record. */
+  queuedAt: string;
+  /** Server copy the first pending change was made on; absent for records created here. */
+  base?: SyncedRecord;
+};
+
+/** A field both this device and another one changed to different values. */
+export type FieldConflict = {
+  field: string;
+  local: unknown;
+  remote: unknown;
+};
+
+/**
+ * Concurrent edits the merge could not settle. The server value is kept meanwhile; the
+ * operator reviews each field and may bring the value from this device back.
+ */
+export type SyncConflict = {
+  id: UUID;
+  entity: EntityName;
+  recordId: UUID;
+  fields: FieldConflict[];
+  detectedAt: string;
+};
+
+export async function readSyncQueue(meta: MetadataStore): Promise<PendingChange[]> {
+  const raw = await meta.get(METADATA_KEYS.syncQueue);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function writeSyncQueue(meta: MetadataStore, queue: PendingChange[]) {
+  await meta.set(METADATA_KEYS.syncQueue, JSON.stringify(queue));
+}
+
+export async function readSyncConflicts(meta: MetadataStore): Promise<SyncConflict[]> {
+  const raw = await meta.get(METADATA_KEYS.syncConflicts);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function writeSyncConflicts(meta: MetadataStore, conflicts: SyncConflict[]) {
+  await meta.set(METADATA_KEYS.syncConflicts, JSON.stringify(conflicts));
+}
+
+export const isSameRecord = (change: PendingChange, entity: EntityName, recordId: UUID) =>
+  change.entity === entity && change.recordId === recordId;
+
+/**
+ * Adds a change to the queue. Only the latest state of a record is ever sent, so a record
+ * already queued keeps one entry, and the revision its first pending change was based on.
+ */
+export function enqueueChange(queue: PendingChange[], change: PendingChange) {
+  const existing = queue.find((item) => isSameRecord(item, change.entity, change.recordId));
+  return [
+    ...queue.filter((item) => item !== existing),
+    existing ? { ...change, baseVersion: existing.baseVersion, base: existing.base } : change,
+  ];
+}
+
+/** Adds the conflicts found on a record, replacing older ones on the same fields. */
+export function addConflict(conflicts: SyncConflict[], conflict: SyncConflict) {
+  const existing = conflicts.find(
+    (item) => item.entity === conflict.entity && item.recordId === conflict.recordId
+  );
+  const fields = conflict.fields.map((field) => field.field);
+  return [
+    ...conflicts.filter((item) => item !== existing),
+    {
+      ...conflict,
+      fields: [
+        ...(existing?.fields.filter((field) => !fields.includes(field.field)) ?? []),
+        ...conflict.fields,
+      ],
+    },
+  ];
+}
+
+/** Kept by the sync itself rather than merged. */
+const BOOKKEEPING_FIELDS = ['id', 'version', 'updatedAt'];
+
+/**
+ * Counters changed by relative adjustments (stock entries and withdrawals): concurrent
+ * changes add up instead of conflicting.
+ */
+const COMMUTATIVE_FIELDS: Partial<Record<EntityName, string[]>> = {
+  parts: ['quantity'],
+};
+
+const isSameValue = (left: unknown, right: unknown) =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const later = (left: unknown, right: unknown) =>
+  typeof left === 'string' && (typeof right !== 'string' || left > right) ? left : right;
+
+export type MergeResult = {
+  record: SyncedRecord;
+  conflicts: FieldConflict[];
+};
+
+/**
+ * Three-way merge of a local change with the server copy it was refused against. A field
+ * changed on one side only takes that side's value; commutative counters apply both deltas;
+ * fields changed on both sides keep the server value and are reported as conflicts.
+ */
+export function mergeRecords(
+  entity: EntityName,
+  base: SyncedRecord | undefined,
+  local: SyncedRecord,
+  remote: SyncedRecord
+): MergeResult {
+  const original = (base ?? {}) as Record<string, unknown>;
+  const mine = local as Record<string, unknown>;
+  const theirs = remote as Record<string, unknown>;
+  const merged: Record<string, unknown> = {
+    ...theirs,
+    updatedAt: later(mine.updatedAt, theirs.updatedAt),
+  };
+  const conflicts: FieldConflict[] = [];
+  const fields = new Set([...Object.keys(mine), ...Object.keys(theirs)]);
+  BOOKKEEPING_FIELDS.forEach((field) => fields.delete(field));
+
+  for (const field of fields) {
+    const [before, ours, remoteValue] = [original[field], mine[field], theirs[field]];
+    if (isSameValue(ours, remoteValue) || isSameValue(ours, before)) {
+      continue;
+    }
+    if (isSameValue(remoteValue, before)) {
+      merged[field] = ours;
+    } else if (
+      COMMUTATIVE_FIELDS[entity]?.includes(field) &&
+      typeof before === 'number' &&
+      typeof ours === 'number' &&
+      typeof remoteValue === 'number'
+    ) {
+      merged[field] = remoteValue + ours - before;
+    } else {
+      conflicts.push({ field, local: ours, remote: remoteValue });
+    }
+  }
+  return { record: merged as SyncedRecord, conflicts };
+}
+
+/** A record pulled from the server, before it is stored. */
+export type PulledRecord = {
+  entity: EntityName;
+  record: SyncedRecord;
+};
+
+export type ScreenedRecords = {
+  accepted: PulledRecord[];
+  rejected: (PulledRecord & { reason: string })[];
+};
+
+/**
+ * Splits pulled records into those that can be stored and those that fail `findIssue`, the
+ * check of local loads, or point at records found neither here nor among the accepted ones.
+ */
+export function screenPulledRecords(
+  pulled: PulledRecord[],
+  records: EntityRecords,
+  findIssue: (entity: EntityName, record: SyncedRecord) => string | null
+): ScreenedRecords {
+  const rejected: ScreenedRecords['rejected'] = pulled.flatMap((item) => {
+    const reason = findIssue(item.entity, item.record);
+    return reason ? [{ ...item, reason }] : [];
+  });
+  let accepted = pulled.filter((item) => !rejected.some((other) => other.record === item.record));
+  // Rejecting a record may leave others pointing at nothing, so check again until none does.
+  for (let changed = true; changed;) {
+    const known = { ...records };
+    accepted.forEach(({ entity, record }) => {
+      (known as Record<EntityName, SyncedRecord[]>)[entity] = [...known[entity], record];
+    });
+    const broken = accepted.flatMap((item) => {
+      const [missing] = findMissingReferences(item.entity, item.record, known);
+      return missing
+        ? [
+            {
+              ...item,
+              reason: `Referência a ${ENTITY_LABELS[missing.relation.to].toLowerCase()} inexistente`,
+            },
+          ]
+        : [];
+    });
+    rejected.push(...broken);
+    accepted = accepted.filter((item) => !broken.some((other) => other.record === item.record));
+    changed = broken.length > 0;
+  }
+  return { accepted, rejected };
+}
@@ -0,0 +1,59 @@
+import {
+  VaultLockedError,
+  addDataKey,
+  createKey,
+  createVault,
+  hasEncryptedFields,
+  unwrapKey,
+  wrapKey,
+} from '@/storage/vault';
+
+const unlockedVault = () => {
+  const vault = createVault();
+  const master = createKey();
+  vault.unlock(master, addDataKey(master));
+  return vault;
+};
+
+describe('createVault', () => {
+  it('passes values through while there is no vault', () => {
+    const vault = createVault();
+    expect(vault.encrypt('Ana')).toBe('Ana');
+    expect(vault.decrypt('Ana')).toBe('Ana');
+  });
+
+  it('encrypts values so that only the vault reads them back', () => {
+    const vault = unlockedVault();
+    const sealed = vault.encrypt({ phone: '(11) 98888-0000' });
+    expect(typeof sealed).toBe('string');
+    expect(sealed).not.toContain('98888');
+    expect(vault.decrypt(sealed)).toEqual({ phone: '(11) 98888-0000' });
+    expect(() => unlockedVault().decrypt(sealed)).toThrow();
+  });
+
+  it('refuses to read or write once locked', () => {
+    const vault = unlockedVault();
+    const sealed = vault.encrypt('Ana');
+    vault.lock();
+    expect(() => vault.encrypt('Ana')).toThrow(VaultLockedError);
+    expect(() => vault.decrypt(sealed)).toThrow(VaultLockedError);
+  });
+});
+
+describe('wrapKey', () => {
+  it('gives the key back to the PIN it was wrapped with only', async () => {
+    const key = createKey();
+    const wrapped = await wrapKey('1234', key);
+    expect(await unwrapKey('1234', wrapped)).toEqual(key);
+    expect(await unwrapKey('4321', wrapped)).toBeNull();
+  });
+});
+
+describe('hasEncryptedFields', () => {
+  it('spots personal fields left encrypted', () => {
+    const sealed = unlockedVault().encrypt('Ana');
+    expect(hasEncryptedFields('clients', { id: 'client-1', name: sealed })).toBe(true);
+    expect(hasEncryptedFields('clients', { id: 'client-1', name: 'Ana' })).toBe(false);
+    expect(hasEncryptedFields('parts', { id: 'part-1', name: sealed })).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import {
+  bytesToHex,
+  bytesToUtf8,
+  concatBytes,
+  hexToBytes,
+  utf8ToBytes,
+} from '@noble/ciphers/utils';
+import { getRandomBytes } from 'expo-crypto';
+
+import { ENTITY_LABELS } from '@/constants/entity-labels';
+import { EntityMap, EntityName, METADATA_KEYS, MetadataStore } from '@/storage/repository';
+import { generateId, nowIso } from '@/utils/id';
+import { KDF_ITERATIONS, deriveKey } from '@/utils/kdf';
+
+/**
+ * Personal data encrypted at rest; ids, the fields other records point at and license plates,
+ * which are looked up through an index, stay readable.
+ */
+export const ENCRYPTED_FIELDS: { [K in EntityName]?: (keyof EntityMap[K] & string)[] } = {
+  clients: ['name', 'phone', 'email', 'vehicle', 'notes'],
+  team: ['name', 'phone', 'email'],
+  revisions: ['clientName', 'clientPhone', 'vehicleModel', 'serviceDescription', 'notes'],
+};
+
+export const ENCRYPTED_ENTITIES = Object.keys(ENCRYPTED_FIELDS) as EntityName[];
+
+/** A key sealed with one derived from a PIN. */
+export type WrappedKey = {
+  salt: string;
+  iterations: number;
+  sealed: string;
+};
+
+/**
+ * Data keys, sealed with the master key each account unwraps with its PIN. Records name the
+ * key they were encrypted with, so a rotation can rewrite them before the old key goes away.
+ */
+export type VaultKeys = {
+  currentKeyId: string;
+  keys: { id: string; sealed: string }[];
+  rotatedAt: string;
+};
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Os dados estão bloqueados. Entre novamente para acessá-los.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class DecryptionError extends Error {
+  constructor(
+    public readonly entity: EntityName,
+    public readonly count: number
+  ) {
+    super(
+      `Não foi possível descriptografar ${count} registro(s) de ${ENTITY_LABELS[entity].toLowerCase()}. Os dados não foram alterados; se o erro persistir, restaure um backup.`
+    );
+    this.name = 'DecryptionError';
+  }
+}
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+const ENCRYPTED_PREFIX = 'enc:';
+
+export const createKey = () => getRandomBytes(KEY_LENGTH);
+
+const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+/** Whether some personal field of `record` is still encrypted, i.e. could not be read here. */
+export const hasEncryptedFields = (entity: EntityName, record: object) =>
+  ((ENCRYPTED_FIELDS[entity] ?? []) as string[]).some((field) =>
+    isEncrypted((record as Record<string, unknown>)[field])
+  );
+
+const seal = (key: Uint8Array, data: Uint8Array) => {
+  const nonce = getRandomBytes(NONCE_LENGTH);
+  return bytesToHex(concatBytes(nonce, xchacha20poly1305(key, nonce).encrypt(data)));
+};
+
+/** Throws when the data was tampered with or sealed with another key. */
+const unseal = (key: Uint8Array, sealed: string) => {
+  const bytes = hexToBytes(sealed);
+  return xchacha20poly1305(key, bytes.slice(0, NONCE_LENGTH)).decrypt(bytes.slice(NONCE_LENGTH));
+};
+
+export async function wrapKey(pin: string, key: Uint8Array): Promise<WrappedKey> {
+  const salt = getRandomBytes(16);
+  return {
+    salt: bytesToHex(salt),
+    iterations: KDF_ITERATIONS,
+    sealed: seal(await deriveKey(pin, salt, KDF_ITERATIONS), key),
+  };
+}
+
+/** Resolves `null` when `pin` is not the one the key was wrapped with. */
+export async function unwrapKey(pin: string, wrapped: WrappedKey) {
+  const key = await deriveKey(pin, hexToBytes(wrapped.salt), wrapped.iterations);
+  try {
+    return unseal(key, wrapped.sealed);
+  } catch {
+    return null;
+  }
+}
+
+/** Keys for a new vault, or for a rotation when `previous` is given. */
+export function addDataKey(masterKey: Uint8Array, previous?: VaultKeys): VaultKeys {
+  const id = generateId();
+  return {
+    currentKeyId: id,
+    keys: [...(previous?.keys ?? []), { id, sealed: seal(masterKey, createKey()) }],
+    rotatedAt: nowIso(),
+  };
+}
+
+export async function readVaultKeys(meta: MetadataStore): Promise<VaultKeys | null> {
+  const raw = await meta.get(METADATA_KEYS.vault);
+  return raw ? (JSON.parse(raw) as VaultKeys) : null;
+}
+
+export async function writeVaultKeys(meta: MetadataStore, keys: VaultKeys) {
+  await meta.set(METADATA_KEYS.vault, JSON.stringify(keys));
+}
+
+/**
+ * Holds the unlocked keys in memory only. While no vault exists the data is plain and passes
+ * through; once it does, nothing is read or written until the vault is unlocked.
+ */
+export function createVault() {
+  let required = false;
+  let masterKey: Uint8Array | null = null;
+  let currentKeyId: string | null = null;
+  let dataKeys = new Map<string, Uint8Array>();
+
+  const lock = () => {
+    required = true;
+    masterKey = null;
+    currentKeyId = null;
+    dataKeys = new Map();
+  };
+
+  return {
+    isUnlocked: () => masterKey !== null,
+    lock,
+    /** Throws when `keys` were not sealed with `master`. */
+    unlock: (master: Uint8Array, keys: VaultKeys) => {
+      dataKeys = new Map(keys.keys.map(({ id, sealed }) => [id, unseal(master, sealed)]));
+      currentKeyId = keys.currentKeyId;
+      masterKey = master;
+      required = true;
+    },
+    masterKey: () => {
+      if (!masterKey) {
+        throw new VaultLockedError();
+      }
+      return masterKey;
+    },
+    encrypt: (value: unknown) => {
+      if (value === undefined || value === null || !required) {
+        return value;
+      }
+      const key = currentKeyId ? dataKeys.get(currentKeyId) : undefined;
+      if (!key) {
+        throw new VaultLockedError();
+      }
+      return `${ENCRYPTED_PREFIX}${currentKeyId}:${seal(key, utf8ToBytes(JSON.stringify(value)))}`;
+    },
+    /** Values written before the vault existed are plain and come back as they are. */
+    decrypt: (value: unknown): unknown => {
+      if (!isEncrypted(value)) {
+        return value;
+      }
+      const [keyId, sealed] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+      const key = dataKeys.get(keyId);
+      if (!key) {
+        throw masterKey ? new Error(`Chave ${keyId} desconhecida`) : new VaultLockedError();
+      }
+      return JSON.parse(bytesToUtf8(unseal(key, sealed)));
+    },
+  };
+}
+
+export type Vault = ReturnType<typeof createVault>;
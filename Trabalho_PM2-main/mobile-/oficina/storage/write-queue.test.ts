@@ -0,0 +1,69 @@
+import { createMemoryBackend } from '@/storage/memory-backend';
+import { Repository } from '@/storage/repository';
+import { PersistenceState, createWriteQueue } from '@/storage/write-queue';
+import { Supplier } from '@/types/entities';
+
+// The logger keeps its entries in AsyncStorage, which has no native module under Jest.
+jest.mock('@/utils/logger', () => ({ logger: { error: jest.fn() } }));
+
+type Item = Pick<Supplier, 'id' | 'company'>;
+
+const setup = () => {
+  const repository = createMemoryBackend().suppliers as unknown as Repository<Item>;
+  let items: Item[] = [];
+  const states: PersistenceState[] = [];
+  const queue = createWriteQueue<Item>(
+    repository,
+    () => items,
+    (state) => states.push(state)
+  );
+  return {
+    repository,
+    queue,
+    states,
+    setItems: (next: Item[]) => {
+      items = next;
+    },
+  };
+};
+
+describe('createWriteQueue', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('writes quick successive changes together, as the records are then', async () => {
+    const { repository, queue, states, setItems } = setup();
+    const upsert = jest.spyOn(repository, 'upsert');
+    setItems([{ id: 's1', company: 'Auto' }]);
+    queue.changed('s1');
+    setItems([{ id: 's1', company: 'Auto Center' }]);
+    queue.changed('s1');
+    await queue.flush();
+
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(await repository.getAll()).toEqual([{ id: 's1', company: 'Auto Center' }]);
+    expect(states.map(({ status }) => status)).toEqual(['saving', 'saved']);
+  });
+
+  it('removes records that are gone by the time the batch is written', async () => {
+    const { repository, queue, setItems } = setup();
+    await repository.replaceAll([{ id: 's1', company: 'Auto' }]);
+    setItems([]);
+    queue.changed('s1');
+    await queue.flush();
+    expect(await repository.getAll()).toEqual([]);
+  });
+
+  it('keeps failed writes and tries them again', async () => {
+    const { repository, queue, states, setItems } = setup();
+    jest.spyOn(repository, 'upsert').mockRejectedValueOnce(new Error('disco cheio'));
+    setItems([{ id: 's1', company: 'Auto' }]);
+    queue.changed('s1');
+    await queue.flush();
+    expect(states[states.length - 1]).toEqual({ status: 'failed', error: 'disco cheio' });
+
+    await queue.retry();
+    expect(states[states.length - 1]).toEqual({ status: 'saved', error: null });
+    expect(await repository.getAll()).toEqual([{ id: 's1', company: 'Auto' }]);
+  });
+});
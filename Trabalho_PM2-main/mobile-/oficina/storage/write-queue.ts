@@ -0,0 +1,139 @@
+import { Repository } from '@/storage/repository';
+import { UUID } from '@/types/entities';
+import { logger } from '@/utils/logger';
+
+export type PersistenceStatus = 'saved' | 'saving' | 'failed';
+
+export type PersistenceState = {
+  status: PersistenceStatus;
+  /** Message of the latest failed write; cleared once a write succeeds. */
+  error: string | null;
+};
+
+export const SAVED_STATE: PersistenceState = { status: 'saved', error: null };
+
+/** Waits for quick successive changes before writing them together. */
+const WRITE_DELAY_MS = 300;
+/** Automatic retries after a failed write; `retry` starts over. */
+const RETRY_DELAYS_MS = [1000, 5000, 15000];
+
+/**
+ * Coalesces the changes of one collection into batched writes. Records are read when the
+ * batch is written, so a record changed several times is written once, as it is then.
+ */
+export function createWriteQueue<T extends { id: UUID }>(
+  repository: Repository<T>,
+  readItems: () => T[],
+  onChange: (state: PersistenceState) => void
+) {
+  let replaceAll = false;
+  let changedIds = new Set<UUID>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let failures = 0;
+  let state = SAVED_STATE;
+
+  const setState = (next: PersistenceState) => {
+    if (next.status !== state.status || next.error !== state.error) {
+      state = next;
+      onChange(next);
+    }
+  };
+
+  const hasPending = () => replaceAll || changedIds.size > 0;
+
+  const cancelTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const schedule = (delay: number) => {
+    cancelTimer();
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, delay);
+  };
+
+  const write = async () => {
+    const batch = { replaceAll, changedIds };
+    replaceAll = false;
+    changedIds = new Set();
+    try {
+      if (batch.replaceAll) {
+        await repository.replaceAll(readItems());
+      } else {
+        const items = new Map(readItems().map((item) => [item.id, item]));
+        for (const id of batch.changedIds) {
+          const item = items.get(id);
+          await (item ? repository.upsert(item) : repository.remove(id));
+        }
+      }
+      failures = 0;
+      setState(hasPending() ? { status: 'saving', error: null } : SAVED_STATE);
+    } catch (error) {
+      logger.error('storage', 'Erro ao salvar coleção', error);
+      // Writes are idempotent, so the whole batch is simply tried again.
+      replaceAll = replaceAll || batch.replaceAll;
+      batch.changedIds.forEach((id) => changedIds.add(id));
+      setState({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      const delay = RETRY_DELAYS_MS[failures];
+      failures += 1;
+      if (delay !== undefined) {
+        schedule(delay);
+      }
+    }
+  };
+
+  /** Writes pending changes now; never rejects, failures end up in the state. */
+  async function flush(): Promise<void> {
+    cancelTimer();
+    while (running) {
+      await running;
+    }
+    if (!hasPending()) {
+      return;
+    }
+    running = write().finally(() => {
+      running = null;
+    });
+    await running;
+  }
+
+  const enqueue = () => {
+    if (state.status === 'saved') {
+      setState({ status: 'saving', error: null });
+    }
+    schedule(WRITE_DELAY_MS);
+  };
+
+  return {
+    changed: (id: UUID) => {
+      changedIds.add(id);
+      enqueue();
+    },
+    replaced: () => {
+      replaceAll = true;
+      changedIds = new Set();
+      enqueue();
+    },
+    flush,
+    /** Tries the pending writes again now, with a fresh round of automatic retries. */
+    retry: () => {
+      failures = 0;
+      return flush();
+    },
+    /** Forgets pending writes, for a collection cleared from memory. */
+    discard: () => {
+      cancelTimer();
+      replaceAll = false;
+      changedIds = new Set();
+      failures = 0;
+      setState(SAVED_STATE);
+    },
+  };
+}
+
+export type WriteQueue = ReturnType<typeof createWriteQueue>;
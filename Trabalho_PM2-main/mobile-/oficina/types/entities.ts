@@ -1,16 +1,59 @@
 ﻿export type UUID = string;
 
+/** A workshop unit; parts, revisions and team members belong to one. */
+export type Branch = {
+  id: UUID;
+  name: string;
+  address: string;
+  phone: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
+};
+
+export type PartSupplier = {
+  supplierId: UUID;
+  /** Price charged by this supplier. */
+  unitCost: number;
+  /** The supplier's own code for the part. */
+  supplierCode?: string;
+};
+
 export type Part = {
   id: UUID;
+  /** Unit whose stock the part is counted in. */
+  branchId: UUID;
   name: string;
   code: string;
   quantity: number;
   minStock: number;
   location: string;
-  supplier: string;
+  suppliers: PartSupplier[];
   category: 'Mecanica' | 'Eletrica' | 'Suspensao' | 'Lataria' | 'Outros';
   unitCost: number;
   updatedAt: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
+};
+
+/** A part used in a revision, priced when it was added. */
+export type RevisionPartItem = {
+  partId: UUID;
+  quantity: number;
+  unitPrice: number;
+};
+
+/** Work charged by the hour to the member who did it. */
+export type RevisionLaborItem = {
+  memberId: UUID;
+  description: string;
+  hours: number;
+  hourlyRate: number;
 };
 
 export type RevisionStatus = 'agendada' | 'em andamento' | 'concluida';
@@ -18,6 +61,10 @@ export type RevisionPriority = 'alta' | 'media' | 'baixa';
 
 export type Revision = {
   id: UUID;
+  /** Unit where the service is done. */
+  branchId: UUID;
+  /** Registered client the revision belongs to; the contact fields below are kept as typed. */
+  clientId?: UUID;
   clientName: string;
   clientPhone: string;
   vehicleModel: string;
@@ -30,6 +77,16 @@ export type Revision = {
   assignedTo?: UUID;
   notes?: string;
   remindersEnabled: boolean;
+  partItems: RevisionPartItem[];
+  laborItems: RevisionLaborItem[];
+  /** Taken off the sum of the items; never more than it. */
+  discount: number;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
 };
 
 export type TeamRole = 'Mecanico' | 'Eletricista' | 'Diagnostico' | 'Pintor' | 'Atendimento';
@@ -37,6 +94,8 @@ export type ExpertiseLevel = 'Junior' | 'Pleno' | 'Senior';
 
 export type TeamMember = {
   id: UUID;
+  /** Unit the member works at. */
+  branchId: UUID;
   name: string;
   role: TeamRole;
   phone: string;
@@ -45,6 +104,14 @@ export type TeamMember = {
   expertiseLevel: ExpertiseLevel;
   certificationExpiry: string;
   hiredAt: string;
+  /** Suggested rate of the labor items charged to the member. */
+  hourlyRate: number;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
 };
 
 export type ClientTier = 'Standard' | 'Gold' | 'Platinum';
@@ -61,6 +128,20 @@ export type Client = {
   preferredAdvisor?: UUID;
   active: boolean;
   notes?: string;
+  /** Agreed to receive offers and campaigns (LGPD consent). */
+  marketingConsent: boolean;
+  /** Agreed to be contacted over WhatsApp (LGPD consent). */
+  whatsappConsent: boolean;
+  /** When the consents above were last recorded. */
+  consentUpdatedAt?: string;
+  /** Set once the personal data was erased on request; the record remains for statistics. */
+  anonymizedAt?: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
 };
 
 export type SupplierCategory = 'Pecas originais' | 'Pecas paralelas' | 'Pneus' | 'Tintas' | 'Servicos terceirizados';
@@ -76,4 +157,107 @@ export type Supplier = {
   preferred: boolean;
   rating: number;
   lastOrderDate: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
+};
+
+export type PurchaseOrderStatus =
+  | 'rascunho'
+  | 'enviado'
+  | 'parcialmente recebido'
+  | 'recebido'
+  | 'cancelado';
+
+/** A part ordered from the supplier, at the cost agreed for this order. */
+export type PurchaseOrderItem = {
+  partId: UUID;
+  quantity: number;
+  unitCost: number;
+  /** Units received so far. */
+  receivedQuantity: number;
+};
+
+export type PurchaseOrder = {
+  id: UUID;
+  /** Unit whose stock receives the parts. */
+  branchId: UUID;
+  supplierId: UUID;
+  status: PurchaseOrderStatus;
+  items: PurchaseOrderItem[];
+  notes?: string;
+  createdAt: string;
+  /** Set when the order is sent to the supplier. */
+  sentAt?: string;
+  /** Sent date plus the lead time of the supplier. */
+  expectedAt?: string;
+  /** Set when the last units arrive. */
+  receivedAt?: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
+};
+
+export type StockMovementType = 'entrada' | 'saida' | 'ajuste' | 'devolucao' | 'transferencia';
+
+/** One change to the quantity of a part; the ledger is never edited, only added to. */
+export type StockMovement = {
+  id: UUID;
+  /** Unit of the part, so the ledger can be scoped like the parts themselves. */
+  branchId: UUID;
+  partId: UUID;
+  type: StockMovementType;
+  /** Signed change: positive when units come in, negative when they leave. */
+  quantity: number;
+  /** Quantity of the part right after the movement. */
+  balance: number;
+  reason: string;
+  /** Revision the parts were used in or returned from. */
+  revisionId?: UUID;
+  /** Purchase order the parts were received from. */
+  purchaseOrderId?: UUID;
+  /** Part on the other side of a transfer between units. */
+  counterpartId?: UUID;
+  /** Team member who made the change; empty for changes made by the app. */
+  memberId?: UUID;
+  createdAt: string;
+  /** Set when the record is in the trash. */
+  deletedAt?: string;
+  /** Time of the latest change, local or synced. */
+  updatedAt?: string;
+  /** Server revision this record is based on; 0 until it is first synced. */
+  version?: number;
+};
+
+/** `import` is logged once per collection a backup replaces, with the collection name as `recordId`. */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import';
+
+export type AuditChange = {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEntry = {
+  id: UUID;
+  entity:
+    | 'branches'
+    | 'parts'
+    | 'revisions'
+    | 'team'
+    | 'clients'
+    | 'suppliers'
+    | 'stockMovements'
+    | 'purchaseOrders';
+  recordId: UUID;
+  action: AuditAction;
+  changes: AuditChange[];
+  timestamp: string;
+  actorId?: UUID;
 };
@@ -0,0 +1,202 @@
+import * as yup from 'yup';
+
+import { findStoredRecordIssue } from '@/schemas/entities';
+import { EntityMap } from '@/storage/repository';
+import { Client, Supplier } from '@/types/entities';
+import { parseCsv } from '@/utils/csv';
+import { normalizeName } from '@/utils/text';
+import { VCardContact, parseVCards, toVCards } from '@/utils/vcard';
+
+export type ContactEntity = 'clients' | 'suppliers';
+
+export type ContactInput<K extends ContactEntity> = Omit<EntityMap[K], 'id'>;
+
+/** A contact read from a file, before it becomes a client or supplier. */
+export type ContactDraft = {
+  name: string;
+  company: string;
+  phone: string;
+  email: string;
+  vehicle: string;
+  licensePlate: string;
+};
+
+export type ContactImportRow<K extends ContactEntity> = {
+  draft: ContactDraft;
+  input: ContactInput<K>;
+  /** Name of the registered (or earlier imported) contact sharing a phone, e-mail or plate. */
+  duplicateOf: string | null;
+  issues: string[];
+};
+
+export class ContactFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactFileError';
+  }
+}
+
+export const CONTACT_FILE_MIME_TYPES = [
+  'text/vcard',
+  'text/x-vcard',
+  'text/csv',
+  'text/comma-separated-values',
+  'text/plain',
+];
+
+const CSV_ALIASES: Record<keyof ContactDraft, string[]> = {
+  name: ['nome', 'name', 'contato', 'cliente', 'fullname'],
+  company: ['empresa', 'company', 'organizacao', 'organization', 'fornecedor', 'razaosocial'],
+  phone: ['telefone', 'phone', 'celular', 'fone', 'whatsapp', 'mobilephone'],
+  email: ['email', 'emailaddress'],
+  vehicle: ['veiculo', 'carro', 'modelo', 'vehicle'],
+  licensePlate: ['placa', 'licenseplate'],
+};
+
+const fromVCard = ({ name, organization, phones, emails }: VCardContact): ContactDraft => ({
+  name,
+  company: organization,
+  phone: phones[0] ?? '',
+  email: emails[0] ?? '',
+  vehicle: '',
+  licensePlate: '',
+});
+
+function draftsFromCsv(contents: string) {
+  const [headers = [], ...rows] = parseCsv(contents);
+  const normalized = headers.map(normalizeName);
+  const columns = {} as Record<keyof ContactDraft, number>;
+  (Object.keys(CSV_ALIASES) as (keyof ContactDraft)[]).forEach((field) => {
+    columns[field] = normalized.findIndex((header) => CSV_ALIASES[field].includes(header));
+  });
+  if (columns.name < 0 && columns.company < 0) {
+    throw new ContactFileError('A planilha precisa de uma coluna "Nome" ou "Empresa".');
+  }
+  return rows.map((cells) => {
+    const draft = {} as ContactDraft;
+    (Object.keys(columns) as (keyof ContactDraft)[]).forEach((field) => {
+      draft[field] = columns[field] >= 0 ? (cells[columns[field]] ?? '').trim() : '';
+    });
+    return draft;
+  });
+}
+
+/** Reads contacts from a vCard (.vcf) or CSV file. */
+export function readContactFile(contents: string) {
+  const drafts = /BEGIN:VCARD/i.test(contents)
+    ? parseVCards(contents).map(fromVCard)
+    : draftsFromCsv(contents);
+  if (!drafts.length) {
+    throw new ContactFileError('Nenhum contato encontrado no arquivo.');
+  }
+  return drafts;
+}
+
+type ContactRecord = Omit<Client, 'id'> | Omit<Supplier, 'id'>;
+
+// Imported contacts rarely carry everything the forms ask for (vehicle, plate, lead time);
+// the gaps get neutral values and are filled in the next time the record is edited.
+function toRecord(entity: ContactEntity, draft: ContactDraft, now: string): ContactRecord {
+  if (entity === 'clients') {
+    const client: Omit<Client, 'id'> = {
+      name: draft.name || draft.company,
+      phone: draft.phone,
+      email: draft.email,
+      vehicle: draft.vehicle,
+      licensePlate: draft.licensePlate.toUpperCase(),
+      lastVisit: now,
+      tier: 'Standard',
+      active: true,
+      // Consent has to be given explicitly, so imported contacts start without it.
+      marketingConsent: false,
+      whatsappConsent: false,
+    };
+    return client;
+  }
+  const supplier: Omit<Supplier, 'id'> = {
+    company: draft.company || draft.name,
+    contactName: draft.name || draft.company,
+    phone: draft.phone,
+    email: draft.email,
+    category: 'Pecas paralelas',
+    leadTimeDays: 0,
+    preferred: false,
+    rating: 0,
+    lastOrderDate: new Date(0).toISOString(),
+  };
+  return supplier;
+}
+
+const normalizePhone = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  // Numbers saved with the country code still match the ones saved without it.
+  return digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+};
+
+const normalizePlate = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const displayName = (record: ContactRecord) => ('company' in record ? record.company : record.name);
+
+function duplicateKeys(record: ContactRecord) {
+  const keys = [`phone:${normalizePhone(record.phone)}`, `email:${record.email.toLowerCase()}`];
+  if ('licensePlate' in record) {
+    keys.push(`plate:${normalizePlate(record.licensePlate)}`);
+  }
+  // Empty values never make two contacts duplicates.
+  return keys.filter((key) => !key.endsWith(':'));
+}
+
+const isEmail = (value: string) => yup.string().email().isValidSync(value);
+
+/** Builds the records to import, flagging invalid rows and contacts that already exist. */
+export function prepareContactImport<K extends ContactEntity>(
+  entity: K,
+  drafts: ContactDraft[],
+  existing: EntityMap[K][],
+  now: string
+) {
+  const known = new Map<string, string>();
+  const remember = (record: ContactRecord) => {
+    duplicateKeys(record).forEach((key) => {
+      if (!known.has(key)) {
+        known.set(key, displayName(record));
+      }
+    });
+  };
+  existing.forEach(remember);
+
+  return drafts.map<ContactImportRow<K>>((draft) => {
+    const record = toRecord(entity, draft, now);
+    const issues: string[] = [];
+    if (!displayName(record)) {
+      issues.push(entity === 'clients' ? 'Informe o nome' : 'Informe a empresa');
+    }
+    if (!record.phone && !record.email) {
+      issues.push('Informe telefone ou e-mail');
+    }
+    if (record.email && !isEmail(record.email)) {
+      issues.push('E-mail inválido');
+    }
+    const structuralIssue = findStoredRecordIssue(entity, { id: 'import', ...record });
+    if (structuralIssue && !issues.length) {
+      issues.push(structuralIssue);
+    }
+    const duplicateKey = duplicateKeys(record).find((key) => known.has(key));
+    const duplicateOf = duplicateKey ? known.get(duplicateKey)! : null;
+    if (!issues.length && !duplicateOf) {
+      remember(record);
+    }
+    return { draft, input: record as unknown as ContactInput<K>, duplicateOf, issues };
+  });
+}
+
+export function contactsToVCard(records: (Client | Supplier)[]) {
+  return toVCards(
+    records.map((record) => ({
+      name: 'contactName' in record ? record.contactName : record.name,
+      organization: 'company' in record ? record.company : '',
+      phones: record.phone ? [record.phone] : [],
+      emails: record.email ? [record.email] : [],
+    }))
+  );
+}
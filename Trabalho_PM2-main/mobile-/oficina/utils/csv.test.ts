@@ -0,0 +1,54 @@
+import { parseCsv, parseDecimal, toCsv } from '@/utils/csv';
+
+describe('parseCsv', () => {
+  it('splits rows and cells on commas', () => {
+    expect(parseCsv('code,name\nA1,Filtro\r\nB2,Vela')).toEqual([
+      ['code', 'name'],
+      ['A1', 'Filtro'],
+      ['B2', 'Vela'],
+    ]);
+  });
+
+  it('uses semicolons when the header does', () => {
+    expect(parseCsv('Código;Custo\nA1;1,50')).toEqual([
+      ['Código', 'Custo'],
+      ['A1', '1,50'],
+    ]);
+  });
+
+  it('keeps delimiters, line breaks and doubled quotes inside quoted cells', () => {
+    expect(parseCsv('name,notes\n"Óleo, 5W30","linha 1\nlinha ""2"""')).toEqual([
+      ['name', 'notes'],
+      ['Óleo, 5W30', 'linha 1\nlinha "2"'],
+    ]);
+  });
+
+  it('skips the byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFcode\n\nA1\n ,\n')).toEqual([['code'], ['A1']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [
+      ['code', 'name'],
+      ['A1', 'Filtro "premium", 2 un.'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('parseDecimal', () => {
+  it.each([
+    ['12', 12],
+    ['1234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['2,5', 2.5],
+    ['R$ 10,00', 10],
+    [' 7 ', 7],
+  ])('reads %p as %p', (value, expected) => {
+    expect(parseDecimal(value)).toBe(expected);
+  });
+
+  it.each(['', '   ', 'abc', '1,2,3'])('reads %p as NaN', (value) => {
+    expect(parseDecimal(value)).toBeNaN();
+  });
+});
@@ -0,0 +1,72 @@
+export const CSV_MIME_TYPE = 'text/csv';
+
+/** Spreadsheets set to Portuguese save with `;`; the header line tells which one was used. */
+const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  return header.split(';').length > header.split(',').length ? ';' : ',';
+};
+
+/** Parses CSV text (RFC 4180 quoting, `,` or `;` delimited) into rows, skipping blank lines. */
+export function parseCsv(text: string) {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) {
+    endRow();
+  }
+  return rows;
+}
+
+const escapeCell = (value: string) =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.map((value) => escapeCell(String(value))).join(',')).join('\r\n');
+}
+
+/** Reads "1.234,56", "1234.56" or "12" as a number; NaN when it is not one. */
+export function parseDecimal(value: string) {
+  let normalized = value.trim().replace(/\s|R\$/g, '');
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  }
+  return normalized ? Number(normalized) : NaN;
+}
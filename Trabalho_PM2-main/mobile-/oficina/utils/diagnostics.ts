@@ -0,0 +1,55 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+import { SCHEMA_VERSION } from '@/storage/migrations';
+import { StorageUsage } from '@/storage/repository';
+import { LogEntry } from '@/utils/logger';
+
+export const DIAGNOSTICS_FORMAT = 'oficina-diagnostics';
+
+export const DIAGNOSTICS_MIME_TYPE = 'application/json';
+
+export type AppInfo = {
+  version: string;
+  platform: string;
+  osVersion: string;
+  schemaVersion: number;
+};
+
+/** What support needs to look into a problem; logs never hold personal data. */
+export type DiagnosticsBundle = {
+  format: typeof DIAGNOSTICS_FORMAT;
+  exportedAt: string;
+  app: AppInfo;
+  storage: StorageUsage[];
+  /** Newest first. */
+  logs: LogEntry[];
+};
+
+export const readAppInfo = (): AppInfo => ({
+  version: Constants.expoConfig?.version ?? 'desconhecida',
+  platform: Platform.OS,
+  osVersion: String(Platform.Version),
+  schemaVersion: SCHEMA_VERSION,
+});
+
+export function createDiagnosticsBundle(
+  storage: StorageUsage[],
+  logs: LogEntry[],
+  exportedAt: string
+): DiagnosticsBundle {
+  return { format: DIAGNOSTICS_FORMAT, exportedAt, app: readAppInfo(), storage, logs };
+}
+
+export const diagnosticsFileName = (bundle: DiagnosticsBundle) =>
+  `oficina-diagnostico-${bundle.exportedAt.slice(0, 10)}.json`;
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
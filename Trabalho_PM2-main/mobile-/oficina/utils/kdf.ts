@@ -0,0 +1,11 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+/** PBKDF2 rounds for what is derived from a PIN; slow on purpose, so PINs are costly to guess. */
+export const KDF_ITERATIONS = 100_000;
+
+const KEY_LENGTH = 32;
+
+/** 32-byte key derived from `secret` with PBKDF2-SHA256. */
+export const deriveKey = (secret: string, salt: Uint8Array, iterations = KDF_ITERATIONS) =>
+  pbkdf2Async(sha256, secret, salt, { c: iterations, dkLen: KEY_LENGTH });
@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { nowIso } from '@/utils/id';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogCategory = 'app' | 'storage' | 'sync' | 'auth' | 'files' | 'ui';
+
+export type LogEntry = {
+  timestamp: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  /** Error name, message and the top of its stack, or whatever else was passed along. */
+  detail?: string;
+};
+
+export const LOG_STORAGE_KEY = '@redcar/logs';
+
+/** Oldest entries are dropped past this many. */
+const CAPACITY = 300;
+/** Entries are saved together shortly after being logged. */
+const SAVE_DELAY_MS = 1000;
+const STACK_LINES = 5;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Debug entries only go to the console, so they never push real problems out of the buffer. */
+const MIN_STORED_LEVEL: LogLevel = 'info';
+
+const describe = (detail: unknown): string | undefined => {
+  if (detail === undefined) {
+    return undefined;
+  }
+  if (detail instanceof Error) {
+    const stack = detail.stack
+      ?.split('\n')
+      .slice(1, STACK_LINES + 1)
+      .join('\n');
+    return [`${detail.name}: ${detail.message}`, stack].filter(Boolean).join('\n');
+  }
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  try {
+    return JSON.stringify(detail);
+  } catch {
+    return String(detail);
+  }
+};
+
+const CONSOLE: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+/**
+ * Keeps the latest entries in a ring buffer saved on the device, for the diagnostics screen.
+ * Messages must not carry personal data: pass records' ids, never their contents.
+ */
+export function createLogger(capacity = CAPACITY) {
+  let entries: LogEntry[] | null = null;
+  /** Logged before the stored entries were read. */
+  let early: LogEntry[] = [];
+  let loading: Promise<LogEntry[]> | null = null;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const load = () => {
+    if (entries) {
+      return Promise.resolve(entries);
+    }
+    if (!loading) {
+      loading = AsyncStorage.getItem(LOG_STORAGE_KEY)
+        .then((raw) => {
+          const parsed = raw ? JSON.parse(raw) : [];
+          return Array.isArray(parsed) ? (parsed as LogEntry[]) : [];
+        })
+        .catch(() => [])
+        .then((stored) => {
+          entries = [...stored, ...early].slice(-capacity);
+          early = [];
+          return entries;
+        });
+    }
+    return loading;
+  };
+
+  const save = () => {
+    if (saveTimer) {
+      return;
+    }
+    saveTimer = setTimeout(async () => {
+      saveTimer = null;
+      try {
+        await AsyncStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(await load()));
+      } catch (error) {
+        // Nowhere left to report it but the console.
+        console.error('Falha ao salvar registros de diagnóstico', error);
+      }
+    }, SAVE_DELAY_MS);
+  };
+
+  const log = (level: LogLevel, category: LogCategory, message: string, detail?: unknown) => {
+    const entry: LogEntry = { timestamp: nowIso(), level, category, message };
+    const described = describe(detail);
+    if (described) {
+      entry.detail = described;
+    }
+    if (__DEV__) {
+      CONSOLE[level](`[${category}] ${message}`, ...(detail === undefined ? [] : [detail]));
+    }
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[MIN_STORED_LEVEL]) {
+      return;
+    }
+    if (entries) {
+      entries = [...entries, entry].slice(-capacity);
+    } else {
+      early.push(entry);
+    }
+    save();
+  };
+
+  return {
+    debug: (category: LogCategory, message: string, detail?: unknown) =>
+      log('debug', category, message, detail),
+    info: (category: LogCategory, message: string, detail?: unknown) =>
+      log('info', category, message, detail),
+    warn: (category: LogCategory, message: string, detail?: unknown) =>
+      log('warn', category, message, detail),
+    error: (category: LogCategory, message: string, detail?: unknown) =>
+      log('error', category, message, detail),
+    /** Newest first. */
+    entries: async () => [...(await load())].reverse(),
+    clear: async () => {
+      await load();
+      entries = [];
+      await AsyncStorage.removeItem(LOG_STORAGE_KEY);
+    },
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+export const logger = createLogger();
@@ -0,0 +1,80 @@
+import { Part, Supplier } from '@/types/entities';
+import { parseCsv } from '@/utils/csv';
+import { guessColumnMapping, preparePartImport } from '@/utils/parts-csv';
+
+const supplier: Supplier = {
+  id: 'supplier-1',
+  company: 'Auto Peças Central',
+  contactName: 'Marina',
+  phone: '11999990000',
+  email: 'vendas@central.com',
+  category: 'Pecas originais',
+  leadTimeDays: 5,
+  preferred: true,
+  rating: 4,
+  lastOrderDate: '2026-01-01T00:00:00.000Z',
+};
+
+const existing: Part = {
+  id: 'part-1',
+  branchId: 'branch-1',
+  name: 'Filtro de óleo',
+  code: 'FO-1',
+  quantity: 4,
+  minStock: 2,
+  location: 'A1',
+  suppliers: [{ supplierId: supplier.id, unitCost: 20 }],
+  category: 'Mecanica',
+  unitCost: 20,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const prepare = (text: string) => {
+  const [headers, ...rows] = parseCsv(text);
+  return preparePartImport(rows, guessColumnMapping(headers), {
+    branchId: 'branch-1',
+    parts: [existing],
+    suppliers: [supplier],
+    defaultSupplierId: supplier.id,
+  });
+};
+
+describe('preparePartImport', () => {
+  it('updates parts by code and creates the others', async () => {
+    const [update, create] = await prepare(
+      'Código;Descrição;Quantidade;Custo;Localização\n' +
+        'fo-1;Filtro de óleo;6;21,50;A1\n' +
+        'VL-2;Vela;10;12;B3'
+    );
+    expect(update.existing).toBe(existing);
+    expect(update.input).toMatchObject({ code: 'FO-1', quantity: 6, unitCost: 21.5 });
+    expect(update.issues).toEqual([]);
+    expect(create.existing).toBeNull();
+    expect(create.input).toMatchObject({
+      code: 'VL-2',
+      quantity: 10,
+      suppliers: [{ supplierId: supplier.id, unitCost: 12 }],
+    });
+    expect(create.issues).toEqual([]);
+  });
+
+  it('rejects fractional quantities', async () => {
+    const [row] = await prepare('Código;Descrição;Quantidade;Localização\nFO-1;Filtro;2,5;A1');
+    expect(row.input.quantity).toBe(2.5);
+    expect(row.issues).toContain('Quantidade inválida');
+  });
+
+  it('reports unknown suppliers and repeated codes', async () => {
+    const [, repeated] = await prepare(
+      'Código,Descrição,Quantidade,Localização,Fornecedores\n' +
+        'VL-2,Vela,1,B3,Auto Peças Central\n' +
+        'vl-2,Vela,1,B3,Distribuidora Sul'
+    );
+    expect(repeated.issues).toEqual(
+      expect.arrayContaining([
+        'Fornecedor "Distribuidora Sul" não cadastrado',
+        'Código repetido na linha 2',
+      ])
+    );
+  });
+});
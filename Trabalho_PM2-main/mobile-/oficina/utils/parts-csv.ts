@@ -0,0 +1,180 @@
+import { EntityValidationError, PART_CATEGORIES, assertValidInput } from '@/schemas/entities';
+import { Part, PartSupplier, Supplier, UUID } from '@/types/entities';
+import { parseDecimal, toCsv } from '@/utils/csv';
+import { findByName, normalizeName } from '@/utils/text';
+
+export type PartInput = Omit<Part, 'id' | 'updatedAt'>;
+
+export type PartCsvField =
+  'code' | 'name' | 'category' | 'quantity' | 'minStock' | 'unitCost' | 'location' | 'suppliers';
+
+export const PART_CSV_COLUMNS: { field: PartCsvField; label: string; aliases: string[] }[] = [
+  { field: 'code', label: 'Código', aliases: ['codigo', 'cod', 'sku', 'referencia', 'ref'] },
+  { field: 'name', label: 'Descrição', aliases: ['descricao', 'nome', 'produto', 'peca'] },
+  { field: 'category', label: 'Categoria', aliases: ['categoria', 'grupo'] },
+  { field: 'quantity', label: 'Quantidade', aliases: ['quantidade', 'qtd', 'qtde', 'estoque'] },
+  { field: 'minStock', label: 'Estoque mínimo', aliases: ['estoqueminimo', 'minimo', 'min'] },
+  { field: 'unitCost', label: 'Custo unitário', aliases: ['custounitario', 'custo', 'preco'] },
+  { field: 'location', label: 'Localização', aliases: ['localizacao', 'local', 'prateleira'] },
+  { field: 'suppliers', label: 'Fornecedores', aliases: ['fornecedores', 'fornecedor'] },
+];
+
+/** Index of the CSV column read for each field; `null` leaves the field untouched. */
+export type ColumnMapping = Record<PartCsvField, number | null>;
+
+/** Separates supplier names in the "Fornecedores" column. */
+const SUPPLIER_SEPARATOR = '|';
+
+export function guessColumnMapping(headers: string[]) {
+  const normalized = headers.map(normalizeName);
+  const mapping = {} as ColumnMapping;
+  PART_CSV_COLUMNS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+export type PartImportRow = {
+  /** Line in the file, counting the header as line 1. */
+  line: number;
+  code: string;
+  /** Part updated by this row; `null` when the row creates one. */
+  existing: Part | null;
+  input: PartInput;
+  issues: string[];
+};
+
+type ImportContext = {
+  /** Unit whose stock the rows are counted in; only its parts are matched by code. */
+  branchId: UUID;
+  parts: Part[];
+  suppliers: Supplier[];
+  /** Linked to new parts whose row names no supplier. */
+  defaultSupplierId: UUID | null;
+};
+
+const sameCode = (left: string, right: string) =>
+  left.trim().toUpperCase() === right.trim().toUpperCase();
+
+function buildRow(cells: string[], line: number, mapping: ColumnMapping, context: ImportContext) {
+  const cell = (field: PartCsvField) => {
+    const index = mapping[field];
+    const value = index === null ? '' : (cells[index] ?? '').trim();
+    return value || null;
+  };
+  const issues: string[] = [];
+  const code = cell('code') ?? '';
+  const existing = code
+    ? (context.parts.find(
+        (part) => part.branchId === context.branchId && sameCode(part.code, code)
+      ) ?? null)
+    : null;
+  const base: PartInput = existing
+    ? (({ id, updatedAt, ...rest }) => rest)(existing)
+    : {
+        branchId: context.branchId,
+        name: '',
+        code,
+        quantity: 0,
+        minStock: 0,
+        location: '',
+        suppliers: [],
+        category: 'Outros',
+        unitCost: 0,
+      };
+
+  const number = (field: 'quantity' | 'minStock' | 'unitCost') => {
+    const value = cell(field);
+    return value === null ? base[field] : parseDecimal(value);
+  };
+  const input: PartInput = {
+    ...base,
+    code: existing ? existing.code : code,
+    name: cell('name') ?? base.name,
+    location: cell('location') ?? base.location,
+    quantity: number('quantity'),
+    minStock: number('minStock'),
+    unitCost: number('unitCost'),
+  };
+
+  const category = cell('category');
+  if (category) {
+    const match = PART_CATEGORIES.find((item) => normalizeName(item) === normalizeName(category));
+    if (match) {
+      input.category = match;
+    } else {
+      issues.push(`Categoria "${category}" desconhecida`);
+    }
+  }
+
+  const supplierNames = (cell('suppliers') ?? '')
+    .split(SUPPLIER_SEPARATOR)
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const linkTo = (supplierId: UUID): PartSupplier =>
+    base.suppliers.find((link) => link.supplierId === supplierId) ?? {
+      supplierId,
+      unitCost: Number.isNaN(input.unitCost) ? 0 : input.unitCost,
+    };
+  if (supplierNames.length) {
+    const links: PartSupplier[] = [];
+    supplierNames.forEach((name) => {
+      const supplier = findByName(name, context.suppliers, (item) => item.company);
+      if (!supplier) {
+        issues.push(`Fornecedor "${name}" não cadastrado`);
+      } else if (!links.some((link) => link.supplierId === supplier.id)) {
+        links.push(linkTo(supplier.id));
+      }
+    });
+    input.suppliers = links;
+  } else if (!existing && context.defaultSupplierId) {
+    input.suppliers = [linkTo(context.defaultSupplierId)];
+  }
+
+  return { line, code, existing, input, issues };
+}
+
+/** Turns CSV data rows into parts to create or update by code, validated with the form rules. */
+export async function preparePartImport(
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: ImportContext
+) {
+  const seenCodes = new Map<string, number>();
+  const prepared: PartImportRow[] = [];
+  for (const [index, cells] of rows.entries()) {
+    const row = buildRow(cells, index + 2, mapping, context);
+    const key = row.code.toUpperCase();
+    if (key && seenCodes.has(key)) {
+      row.issues.push(`Código repetido na linha ${seenCodes.get(key)}`);
+    } else {
+      seenCodes.set(key, row.line);
+    }
+    try {
+      await assertValidInput('parts', row.input);
+    } catch (error) {
+      if (!(error instanceof EntityValidationError)) {
+        throw error;
+      }
+      row.issues.push(...Object.values(error.issues));
+    }
+    prepared.push(row);
+  }
+  return prepared;
+}
+
+export function partsToCsv(parts: Part[], suppliers: Supplier[]) {
+  const companies = new Map(suppliers.map((supplier) => [supplier.id, supplier.company]));
+  const valueOf = (part: Part, field: PartCsvField) =>
+    field === 'suppliers'
+      ? part.suppliers
+          .map((link) => companies.get(link.supplierId))
+          .filter(Boolean)
+          .join(` ${SUPPLIER_SEPARATOR} `)
+      : part[field];
+  return toCsv([
+    PART_CSV_COLUMNS.map((column) => column.label),
+    ...parts.map((part) => PART_CSV_COLUMNS.map((column) => valueOf(part, column.field) ?? '')),
+  ]);
+}
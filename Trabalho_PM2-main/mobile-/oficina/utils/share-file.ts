@@ -0,0 +1,37 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export class FileSharingUnavailableError extends Error {
+  constructor() {
+    super('O compartilhamento de arquivos não está disponível neste dispositivo.');
+    this.name = 'FileSharingUnavailableError';
+  }
+}
+
+/** Writes `contents` to a temporary file and opens the OS share sheet for it. */
+export async function shareTextFile(fileName: string, contents: string, mimeType: string) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new FileSharingUnavailableError();
+  }
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
+
+/** Lets the user pick a file and resolves its text, or `null` when the picker is dismissed. */
+export async function pickTextFile(mimeTypes: string[]) {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets.length) {
+    return null;
+  }
+  const [asset] = result.assets;
+  return { name: asset.name, contents: await new File(asset.uri).text() };
+}
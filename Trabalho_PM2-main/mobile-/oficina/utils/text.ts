@@ -0,0 +1,78 @@
+/** Lowercase, accent-free, alphanumeric-only form of a name, for loose comparisons. */
+export const normalizeName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+const bigrams = (value: string) => {
+  const pairs: string[] = [];
+  for (let index = 0; index < value.length - 1; index += 1) {
+    pairs.push(value.slice(index, index + 2));
+  }
+  return pairs;
+};
+
+/** Dice coefficient over character pairs: 1 for identical names, 0 for unrelated ones. */
+export function nameSimilarity(left: string, right: string) {
+  const a = normalizeName(left);
+  const b = normalizeName(right);
+  if (a === b) {
+    return 1;
+  }
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (!pairsA.length || !pairsB.length) {
+    return 0;
+  }
+  const remaining = [...pairsB];
+  let shared = 0;
+  pairsA.forEach((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared += 1;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+/**
+ * Finds the item whose name best matches `name`: the same name once normalized, one
+ * name containing the other ("Bosch" and "Robert Bosch Ltda"), or a close spelling.
+ */
+export function findByName<T>(name: string, items: T[], nameOf: (item: T) => string) {
+  const target = normalizeName(name);
+  if (!target) {
+    return null;
+  }
+  let best: { item: T; score: number } | null = null;
+  for (const item of items) {
+    const candidate = normalizeName(nameOf(item));
+    if (!candidate) {
+      continue;
+    }
+    const contains =
+      Math.min(target.length, candidate.length) >= 4 &&
+      (candidate.includes(target) || target.includes(candidate));
+    const score = contains
+      ? Math.max(0.9, nameSimilarity(target, candidate))
+      : nameSimilarity(target, candidate);
+    if (score >= 0.8 && (!best || score > best.score)) {
+      best = { item, score };
+    }
+  }
+  return best?.item ?? null;
+}
+
+/** Short display form of any field value, for change lists. */
+export const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
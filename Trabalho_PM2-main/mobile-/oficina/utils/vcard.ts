@@ -0,0 +1,118 @@
+export const VCARD_MIME_TYPE = 'text/vcard';
+
+export type VCardContact = {
+  name: string;
+  organization: string;
+  phones: string[];
+  emails: string[];
+};
+
+type VCardLine = {
+  property: string;
+  value: string;
+};
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const escapeValue = (value: string) => value.replace(/([\\,;])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+/** vCard 2.1 exports (older Android phones) may encode accented names this way. */
+function decodeQuotedPrintable(value: string) {
+  const joined = value.replace(/=\r?\n/g, '');
+  try {
+    return decodeURIComponent(joined.replace(/%/g, '%25').replace(/=([0-9A-F]{2})/gi, '%$1'));
+  } catch {
+    return joined;
+  }
+}
+
+function parseLine(line: string): VCardLine | null {
+  const separator = line.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+  const [name, ...params] = line.slice(0, separator).split(';');
+  // Drops group prefixes such as "item1.TEL".
+  const property = name.split('.').pop()!.toUpperCase();
+  const raw = line.slice(separator + 1);
+  const quotedPrintable = params.some((param) => /QUOTED-PRINTABLE/i.test(param));
+  return { property, value: quotedPrintable ? decodeQuotedPrintable(raw) : raw };
+}
+
+const nameFromStructured = (value: string) => {
+  const [family = '', given = '', middle = ''] = value.split(';').map(unescapeValue);
+  return [given, middle, family].filter(Boolean).join(' ');
+};
+
+/** Reads every contact of a .vcf file; entries with neither name nor company are left out. */
+export function parseVCards(text: string) {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+  const contacts: VCardContact[] = [];
+  let current: (VCardContact & { structuredName: string }) | null = null;
+
+  lines.forEach((line) => {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      current = { name: '', organization: '', phones: [], emails: [], structuredName: '' };
+      return;
+    }
+    if (!current) {
+      return;
+    }
+    if (upper === 'END:VCARD') {
+      const { structuredName, ...contact } = current;
+      contact.name ||= structuredName;
+      if (contact.name || contact.organization) {
+        contacts.push(contact);
+      }
+      current = null;
+      return;
+    }
+    const parsed = parseLine(line);
+    if (!parsed || !parsed.value.trim()) {
+      return;
+    }
+    const value = unescapeValue(parsed.value).trim();
+    switch (parsed.property) {
+      case 'FN':
+        current.name = value;
+        break;
+      case 'N':
+        current.structuredName = nameFromStructured(parsed.value).trim();
+        break;
+      case 'ORG':
+        current.organization = value.split(';')[0].trim();
+        break;
+      case 'TEL':
+        current.phones.push(value);
+        break;
+      case 'EMAIL':
+        current.emails.push(value);
+        break;
+    }
+  });
+  return contacts;
+}
+
+export function toVCards(contacts: VCardContact[]) {
+  return contacts
+    .map((contact) =>
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeValue(contact.name)}`,
+        `N:;${escapeValue(contact.name)};;;`,
+        contact.organization ? `ORG:${escapeValue(contact.organization)}` : null,
+        ...contact.phones.map((phone) => `TEL;TYPE=CELL:${escapeValue(phone)}`),
+        ...contact.emails.map((email) => `EMAIL:${escapeValue(email)}`),
+        'END:VCARD',
+      ]
+        .filter(Boolean)
+        .join('\r\n')
+    )
+    .join('\r\n');
+}
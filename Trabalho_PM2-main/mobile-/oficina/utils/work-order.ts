@@ -0,0 +1,45 @@
+import { RevisionLaborItem, RevisionPartItem } from '@/types/entities';
+
+export type WorkOrderTotals = {
+  parts: number;
+  labor: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+};
+
+type PricedRevision = {
+  partItems: Pick<RevisionPartItem, 'quantity' | 'unitPrice'>[];
+  laborItems: Pick<RevisionLaborItem, 'hours' | 'hourlyRate'>[];
+  discount: number;
+};
+
+/** Rounds to cents, so totals add up the way they are shown. */
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+export function workOrderTotals({
+  partItems,
+  laborItems,
+  discount,
+}: PricedRevision): WorkOrderTotals {
+  const parts = toCents(
+    partItems.reduce((total, item) => total + item.quantity * item.unitPrice, 0)
+  );
+  const labor = toCents(
+    laborItems.reduce((total, item) => total + item.hours * item.hourlyRate, 0)
+  );
+  const subtotal = toCents(parts + labor);
+  return {
+    parts,
+    labor,
+    subtotal,
+    discount: toCents(discount),
+    total: toCents(Math.max(0, subtotal - discount)),
+  };
+}
+
+export const hasLineItems = ({ partItems, laborItems }: PricedRevision) =>
+  partItems.length > 0 || laborItems.length > 0;
+
+export const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });